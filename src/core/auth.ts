@@ -1,103 +1,400 @@
 // src/core/auth.ts
+import { AwsV4Signer } from 'aws4fetch';
 import { Env } from './config';
+import { S3Error } from './errors';
+import { AccessKey, KeyStore, isExpired, withinPrefix } from './keys';
+import { ChunkSigningContext, RequestPayload, UNSIGNED_PAYLOAD, checkPayloadHashClaim, signaturesEqual } from './payload';
+
+// 分享 Token 载荷 (签名覆盖全部字段)
+export interface ShareTokenClaims {
+  id: string; // Token ID，用于吊销
+  path: string; // 绑定的 Key，或以 prefix 模式绑定的目录 (按 / 分隔的路径段匹配)
+  prefix?: boolean; // true 表示 path 为前缀
+  exp: number; // 过期时间 (unix 秒)
+  methods?: string[]; // 允许的方法，默认 GET/HEAD；绑定单个 Key 时只能是 GET/HEAD
+  maxSize?: number; // 上传大小上限 (字节)，仅对 PUT 生效
+  ip?: string; // 限定客户端 IP
+}
 
 export class AuthMiddleware {
   private env: Env;
+  private keys: KeyStore;
+  // 鉴权后记录，用于校验请求体 (见 payload)
+  private payloadHash = UNSIGNED_PAYLOAD;
+  private signing: ChunkSigningContext | null = null;
+
+  // 预签名 URL 最长有效期 (S3 上限 7 天)
+  static readonly MAX_PRESIGN_EXPIRES = 604800;
+  private static readonly PRESIGN_REGION = 'us-east-1';
+  // 请求时间与服务器时间允许的最大偏差 (与 S3 相同)
+  private static readonly MAX_CLOCK_SKEW_MS = 15 * 60 * 1000;
+
+  // 分享 Token 最长有效期 (30 天)，同时也是吊销记录的保留时间
+  static readonly MAX_SHARE_TOKEN_TTL = 30 * 86400;
+  private readonly REVOKED_PREFIX = 'REVOKED_TOKEN:';
+  // 绑定单个 Key 的 Token 只能读取该对象
+  private static readonly SINGLE_KEY_METHODS = ['GET', 'HEAD'];
 
   constructor(env: Env) {
     this.env = env;
+    this.keys = new KeyStore(env);
   }
 
-  async verify(request: Request): Promise<boolean> {
+  // 鉴权成功时返回请求所用的访问密钥 (分享 Token 返回 null，其权限已在 Token 中限定)
+  // 鉴权失败时抛出对应错误码的 S3Error
+  async verify(request: Request, key = ''): Promise<AccessKey | null> {
+    this.payloadHash = request.headers.get('x-amz-content-sha256') || UNSIGNED_PAYLOAD;
+    checkPayloadHashClaim(this.payloadHash);
+
+    // 预签名 URL (Query String 签名)
+    if (AuthMiddleware.isPresigned(request)) {
+      return await this.verifyPresigned(request);
+    }
+
+    // 分享 Token (?token=)
+    if (AuthMiddleware.hasShareToken(request)) {
+      if (!(await this.verifyShareToken(request, key))) {
+        throw new S3Error('AccessDenied', 'Invalid, expired or revoked share token');
+      }
+      return null;
+    }
+
     const authHeader = request.headers.get('Authorization');
     
     // 1. 基础检查
-    if (!authHeader || !authHeader.startsWith('AWS4-HMAC-SHA256')) return false;
+    if (!authHeader) throw new S3Error('AccessDenied', 'Access Denied');
+    if (!authHeader.startsWith('AWS4-HMAC-SHA256')) {
+      throw new S3Error('InvalidArgument', 'Only AWS4-HMAC-SHA256 authorization is supported');
+    }
 
     const credentialMatch = authHeader.match(/Credential=([^/]+)\/([^/]+)\/([^/]+)\/s3\/aws4_request/);
-    if (!credentialMatch) return false;
+    if (!credentialMatch) throw new S3Error('AuthorizationHeaderMalformed', 'The authorization header is malformed');
 
     const [_, accessKeyId, dateStamp, region] = credentialMatch;
 
-    // 2. 校验 AccessKeyID
-    if (accessKeyId !== this.env.VIRTUAL_ACCESS_KEY_ID) {
-      return false;
-    }
+    // 2. 查找 AccessKeyID 对应的密钥
+    const accessKey = await this.lookupKey(accessKeyId);
 
-    // 3. 检查是否开启严格模式 (Secret Key 是否存在)
-    const secretKey = this.env.VIRTUAL_SECRET_ACCESS_KEY;
-    if (!secretKey || secretKey.trim() === '') {
+    // 3. 检查是否开启严格模式 (Secret Key 是否存在，仅根密钥可为空)
+    const secretKey = accessKey.secretAccessKey;
+    if (secretKey === '') {
       // 宽松模式：不校验签名，直接通过
-      return true;
+      return accessKey;
     }
 
-    // 4. 严格模式：校验签名
+    // 4. 严格模式：检查请求时间并校验签名
+    const datetime = request.headers.get('x-amz-date') || request.headers.get('date') || '';
+    this.checkRequestTime(datetime, dateStamp);
+
+    let signing: ChunkSigningContext | null = null;
     try {
-      return await this.verifySignature(request, authHeader, secretKey, dateStamp, region);
+      signing = await this.verifySignature(request, authHeader, secretKey, datetime, dateStamp, region);
     } catch (e) {
       console.error('Signature verification failed:', e);
-      return false;
     }
+    if (!signing) throw AuthMiddleware.signatureMismatch();
+    this.signing = signing;
+    return accessKey;
+  }
+
+  // 鉴权通过后读取请求体：校验声明的 SHA256，或解码 aws-chunked 并逐块校验签名
+  payload(request: Request): RequestPayload {
+    return new RequestPayload(request, this.payloadHash, this.signing);
+  }
+
+  // 签名时间必须有效，且与服务器时间相差不超过 15 分钟
+  private checkRequestTime(datetime: string, dateStamp: string) {
+    const amzDate = this.parseAmzDate(datetime);
+    const signedAt = amzDate ?? (datetime ? Date.parse(datetime) : NaN);
+    if (isNaN(signedAt)) {
+      throw new S3Error('AccessDenied', 'AWS authentication requires a valid Date or x-amz-date header');
+    }
+    if (amzDate !== null && !datetime.startsWith(dateStamp)) {
+      throw new S3Error('AuthorizationHeaderMalformed', 'Invalid credential date. Date is not the same as X-Amz-Date.');
+    }
+    if (Math.abs(Date.now() - signedAt) > AuthMiddleware.MAX_CLOCK_SKEW_MS) {
+      throw new S3Error('RequestTimeTooSkewed', 'The difference between the request time and the current time is too large.');
+    }
+  }
+
+  private async lookupKey(accessKeyId: string): Promise<AccessKey> {
+    const accessKey = await this.keys.get(accessKeyId);
+    if (!accessKey) {
+      throw new S3Error('InvalidAccessKeyId', 'The AWS Access Key Id you provided does not exist in our records.');
+    }
+    if (isExpired(accessKey)) throw new S3Error('AccessDenied', 'The access key has expired');
+    return accessKey;
+  }
+
+  private static signatureMismatch(): S3Error {
+    return new S3Error('SignatureDoesNotMatch', 'The request signature we calculated does not match the signature you provided.');
   }
 
   // === AWS V4 签名校验核心逻辑 ===
+  // 签名一致时返回校验 aws-chunked 分块签名所需的上下文，否则返回 null
   private async verifySignature(
     request: Request, 
     authHeader: string, 
     secretKey: string, 
+    datetime: string,
     dateStamp: string,
     region: string
-  ): Promise<boolean> {
-    const url = new URL(request.url);
-    const method = request.method;
-    const datetime = request.headers.get('x-amz-date') || request.headers.get('date') || new Date().toISOString();
-    
+  ): Promise<ChunkSigningContext | null> {
     // 解析 Authorization 头中的各个部分
     const signatureMatch = authHeader.match(/Signature=([a-f0-9]+)/);
     const signedHeadersMatch = authHeader.match(/SignedHeaders=([^,]+)/);
     
-    if (!signatureMatch || !signedHeadersMatch) return false;
+    if (!signatureMatch || !signedHeadersMatch) return null;
     
     const clientSignature = signatureMatch[1];
     const signedHeaders = signedHeadersMatch[1];
 
-    // 步骤 1: 创建 Canonical Request
-    const canonicalUri = encodeURI(url.pathname); // 需要根据 S3 规则处理 path
-    
+    // Payload Hash 按客户端声明的值参与签名 (SHA256、UNSIGNED-PAYLOAD 或 STREAMING-*)
+    // 声明值与实际请求体是否一致在读取请求体时校验 (见 payload)
+    const canonicalRequest = this.buildCanonicalRequest(request, signedHeaders, this.payloadHash);
+
+    // 步骤 2 ~ 5: 计算签名并比对
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const signingKey = await this.deriveSigningKey(secretKey, dateStamp, region);
+    const calculatedSignature = await this.calculateSignature(canonicalRequest, signingKey, datetime, scope);
+    if (!signaturesEqual(calculatedSignature, clientSignature)) return null;
+    return { signingKey, datetime, scope, seedSignature: clientSignature };
+  }
+
+  // === 预签名 URL (Query String SigV4) ===
+
+  static isPresigned(request: Request): boolean {
+    return new URL(request.url).searchParams.has('X-Amz-Signature');
+  }
+
+  private async verifyPresigned(request: Request): Promise<AccessKey> {
+    const params = new URL(request.url).searchParams;
+    if (params.get('X-Amz-Algorithm') !== 'AWS4-HMAC-SHA256') {
+      throw new S3Error('AuthorizationQueryParametersError', 'X-Amz-Algorithm only supports "AWS4-HMAC-SHA256"');
+    }
+
+    const credentialMatch = (params.get('X-Amz-Credential') || '').match(/^([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request$/);
+    if (!credentialMatch) throw new S3Error('AuthorizationQueryParametersError', 'Error parsing the X-Amz-Credential parameter');
+    const [_, accessKeyId, dateStamp, region] = credentialMatch;
+
+    const accessKey = await this.lookupKey(accessKeyId);
+
+    // 预签名 URL 必须有签名密钥，不支持宽松模式
+    const secretKey = accessKey.secretAccessKey;
+    if (secretKey === '') throw new S3Error('AccessDenied', 'Presigned URLs are disabled');
+
+    // 过期检查：X-Amz-Date + X-Amz-Expires，最长 7 天
+    const datetime = params.get('X-Amz-Date') || '';
+    const signedAt = this.parseAmzDate(datetime);
+    const expires = parseInt(params.get('X-Amz-Expires') || '');
+    if (signedAt === null || !datetime.startsWith(dateStamp)) {
+      throw new S3Error('AuthorizationQueryParametersError', 'Invalid X-Amz-Date');
+    }
+    if (!(expires > 0 && expires <= AuthMiddleware.MAX_PRESIGN_EXPIRES)) {
+      throw new S3Error('AuthorizationQueryParametersError', 'X-Amz-Expires must be between 1 and 604800 seconds');
+    }
+
+    const now = Date.now();
+    if (now > signedAt + expires * 1000) throw new S3Error('AccessDenied', 'Request has expired');
+    // 签名时间不允许明显晚于服务器时间
+    if (signedAt - now > AuthMiddleware.MAX_CLOCK_SKEW_MS) {
+      throw new S3Error('RequestTimeTooSkewed', 'The difference between the request time and the current time is too large.');
+    }
+
+    const signedHeaders = params.get('X-Amz-SignedHeaders') || 'host';
+    const clientSignature = params.get('X-Amz-Signature') || '';
+
+    let valid = false;
+    try {
+      const canonicalRequest = this.buildCanonicalRequest(request, signedHeaders, 'UNSIGNED-PAYLOAD', 'X-Amz-Signature');
+      const signingKey = await this.deriveSigningKey(secretKey, dateStamp, region);
+      const calculatedSignature = await this.calculateSignature(canonicalRequest, signingKey, datetime, `${dateStamp}/${region}/s3/aws4_request`);
+      valid = signaturesEqual(calculatedSignature, clientSignature);
+    } catch (e) {
+      console.error('Presigned URL verification failed:', e);
+    }
+    if (!valid) throw AuthMiddleware.signatureMismatch();
+    return accessKey;
+  }
+
+  // 生成预签名 URL (供管理接口使用)，URL 的权限与签名所用的密钥相同
+  async presign(url: string, method: string, expiresIn: number, accessKey: AccessKey): Promise<string> {
+    const secretKey = accessKey.secretAccessKey;
+    if (secretKey === '') {
+      throw new S3Error('InvalidRequest', 'Presigning requires VIRTUAL_SECRET_ACCESS_KEY');
+    }
+
+    // X-Amz-Expires 需在签名前写入 URL，才会被纳入签名
+    const target = new URL(url);
+    target.searchParams.set('X-Amz-Expires', Math.min(expiresIn, AuthMiddleware.MAX_PRESIGN_EXPIRES).toString());
+
+    const signer = new AwsV4Signer({
+      url: target.toString(),
+      method,
+      accessKeyId: accessKey.accessKeyId,
+      secretAccessKey: secretKey,
+      service: 's3',
+      region: AuthMiddleware.PRESIGN_REGION,
+      signQuery: true
+    });
+    const signed = await signer.sign();
+    return signed.url.toString();
+  }
+
+  // === 分享 Token ===
+  // 格式: base64url(JSON claims) + '.' + base64url(HMAC-SHA256(secret, claims 部分))
+
+  static hasShareToken(request: Request): boolean {
+    return new URL(request.url).searchParams.has('token');
+  }
+
+  // 分享 Token 密钥：优先使用独立的 SHARE_TOKEN_SECRET
+  private getShareSecret(): string | null {
+    const secret = this.env.SHARE_TOKEN_SECRET || this.env.VIRTUAL_SECRET_ACCESS_KEY;
+    return secret && secret.trim() !== '' ? secret : null;
+  }
+
+  // 签发分享 Token
+  async mintShareToken(claims: Omit<ShareTokenClaims, 'id'>): Promise<{ token: string; claims: ShareTokenClaims }> {
+    const secret = this.getShareSecret();
+    if (!secret) {
+      throw new S3Error('InvalidRequest', 'Share tokens require SHARE_TOKEN_SECRET or VIRTUAL_SECRET_ACCESS_KEY');
+    }
+
+    if (!claims.prefix && claims.methods?.some(m => !AuthMiddleware.SINGLE_KEY_METHODS.includes(m))) {
+      throw new S3Error('InvalidArgument', 'Tokens bound to a single key only allow GET and HEAD');
+    }
+
+    const maxExp = Math.floor(Date.now() / 1000) + AuthMiddleware.MAX_SHARE_TOKEN_TTL;
+    const full: ShareTokenClaims = { ...claims, id: crypto.randomUUID(), exp: Math.min(claims.exp, maxExp) };
+    const payload = this.base64UrlEncode(new TextEncoder().encode(JSON.stringify(full)));
+    const signature = this.base64UrlEncode(await this.hmac(secret, payload));
+    return { token: `${payload}.${signature}`, claims: full };
+  }
+
+  // 吊销分享 Token (记录保留到 Token 最长有效期之后自动过期)
+  async revokeShareToken(id: string) {
+    await this.env.BUCKET_STATE_KV.put(this.REVOKED_PREFIX + id, '1', {
+      expirationTtl: AuthMiddleware.MAX_SHARE_TOKEN_TTL
+    });
+  }
+
+  private async verifyShareToken(request: Request, key: string): Promise<boolean> {
+    const secret = this.getShareSecret();
+    if (!secret) return false;
+
+    const token = new URL(request.url).searchParams.get('token') || '';
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return false;
+
+    // 1. 校验签名
+    const expected = this.base64UrlEncode(await this.hmac(secret, payload));
+    if (!signaturesEqual(expected, signature)) return false;
+
+    let claims: ShareTokenClaims;
+    try {
+      claims = JSON.parse(new TextDecoder().decode(this.base64UrlDecode(payload)));
+    } catch {
+      return false;
+    }
+
+    // 2. 过期检查
+    if (!claims.exp || Date.now() / 1000 > claims.exp) return false;
+
+    // 3. 路径绑定 (Token 不可用于根路径及管理接口)
+    // 前缀按路径段匹配：绑定 foo 的 Token 可以访问 foo/bar，但不能访问 foobar
+    if (!key) return false;
+    if (claims.prefix) {
+      if (!withinPrefix(key, claims.path)) return false;
+    } else {
+      if (key !== claims.path) return false;
+      // 单个 Key 不能用于列表、历史版本或分片上传等子资源，只保留 response-* 参数
+      const params = [...new URL(request.url).searchParams.keys()];
+      if (!params.every(name => name === 'token' || name.startsWith('response-'))) return false;
+    }
+
+    // 4. 可选约束
+    let methods = claims.methods && claims.methods.length > 0 ? claims.methods : ['GET', 'HEAD'];
+    if (!claims.prefix) methods = methods.filter(m => AuthMiddleware.SINGLE_KEY_METHODS.includes(m));
+    if (!methods.includes(request.method)) return false;
+
+    if (claims.maxSize !== undefined && request.method === 'PUT') {
+      const length = parseInt(request.headers.get('Content-Length') || '');
+      if (!(length >= 0 && length <= claims.maxSize)) return false;
+    }
+
+    if (claims.ip && request.headers.get('CF-Connecting-IP') !== claims.ip) return false;
+
+    // 5. 吊销检查
+    const revoked = await this.env.BUCKET_STATE_KV.get(this.REVOKED_PREFIX + claims.id);
+    return revoked === null;
+  }
+
+  private base64UrlEncode(data: ArrayBuffer | Uint8Array): string {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    let binary = '';
+    bytes.forEach(b => binary += String.fromCharCode(b));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  private base64UrlDecode(str: string): Uint8Array {
+    const base64 = str.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+  }
+
+  // === 签名公共逻辑 ===
+
+  // 按 S3 规则构造 Canonical Request
+  private buildCanonicalRequest(request: Request, signedHeaders: string, payloadHash: string, excludeParam?: string): string {
+    const url = new URL(request.url);
+
+    // S3 的 path 只编码一次：先还原再按 RFC 3986 编码
+    let path = url.pathname;
+    try {
+      path = decodeURIComponent(path);
+    } catch {
+      // 保留原始 path
+    }
+    const canonicalUri = this.uriEncode(path).replace(/%2F/g, '/');
+
     // 处理 Query String
     const canonicalQueryString = Array.from(url.searchParams)
-      .sort(([k1], [k2]) => k1.localeCompare(k2))
-      .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+      .filter(([k]) => k !== excludeParam)
+      .map(([k, v]) => [this.uriEncode(k), this.uriEncode(v)])
+      .sort(([k1, v1], [k2, v2]) => k1 < k2 ? -1 : k1 > k2 ? 1 : v1 < v2 ? -1 : v1 > v2 ? 1 : 0)
+      .map(([k, v]) => `${k}=${v}`)
       .join('&');
 
     // 处理 Headers
     const headersToSign = signedHeaders.split(';').map(h => h.trim().toLowerCase());
     const canonicalHeaders = headersToSign.map(h => {
-      let value = request.headers.get(h) || '';
+      let value = request.headers.get(h) || (h === 'host' ? url.host : '');
       // 规范化 header value: 去除多余空格
       value = value.replace(/\s+/g, ' ').trim();
       return `${h}:${value}\n`;
     }).join('');
 
-    // 处理 Payload Hash
-    // 注意：如果是流式上传，客户端通常发送 'UNSIGNED-PAYLOAD' 或实际的 SHA256
-    // 为了简化并支持流式，如果头里有 x-amz-content-sha256 我们就用它，否则假设 UNSIGNED-PAYLOAD
-    const payloadHash = request.headers.get('x-amz-content-sha256') || 'UNSIGNED-PAYLOAD';
-
-    const canonicalRequest = [
-      method,
+    return [
+      request.method,
       canonicalUri,
       canonicalQueryString,
       canonicalHeaders,
       signedHeaders,
       payloadHash
     ].join('\n');
+  }
 
+  private async calculateSignature(
+    canonicalRequest: string,
+    signingKey: ArrayBuffer,
+    datetime: string,
+    credentialScope: string
+  ): Promise<string> {
     // 步骤 2: 创建 String To Sign
-    const credentialScope = `${dateStamp}/${region}/s3/aws4_request`;
     const algorithm = 'AWS4-HMAC-SHA256';
     const canonicalRequestHash = await this.sha256(canonicalRequest);
-    
+
     const stringToSign = [
       algorithm,
       datetime,
@@ -105,17 +402,28 @@ export class AuthMiddleware {
       canonicalRequestHash
     ].join('\n');
 
-    // 步骤 3: 计算签名 Key
+    // 步骤 3: 计算最终签名
+    return await this.hmacHex(signingKey, stringToSign);
+  }
+
+  // 签名 Key：逐级 HMAC 日期、区域、服务
+  private async deriveSigningKey(secretKey: string, dateStamp: string, region: string): Promise<ArrayBuffer> {
     const kDate = await this.hmac(`AWS4${secretKey}`, dateStamp);
     const kRegion = await this.hmac(kDate, region);
     const kService = await this.hmac(kRegion, 's3');
-    const kSigning = await this.hmac(kService, 'aws4_request');
+    return await this.hmac(kService, 'aws4_request');
+  }
 
-    // 步骤 4: 计算最终签名
-    const calculatedSignature = await this.hmacHex(kSigning, stringToSign);
+  // RFC 3986 编码 (encodeURIComponent 不会编码 !'()*)
+  private uriEncode(str: string): string {
+    return encodeURIComponent(str).replace(/[!'()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+  }
 
-    // 步骤 5: 比对
-    return calculatedSignature === clientSignature;
+  // 解析 20240101T000000Z 格式的时间戳
+  private parseAmzDate(datetime: string): number | null {
+    const m = datetime.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+    if (!m) return null;
+    return Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]);
   }
 
   // --- Crypto 辅助函数 (基于 Web Crypto API) ---
@@ -0,0 +1,625 @@
+// src/core/backend.ts
+import { AwsClient } from 'aws4fetch';
+import { XMLParser } from 'fast-xml-parser';
+import { Env, BucketConfig } from './config';
+import { deleteObjectsRequestXml, parseCompleteMultipartUploadRequest } from './xml';
+import { S3Error } from './errors';
+import { FileMetadata, ReplicaInfo, OBJECT_HEADERS } from './index-store';
+
+// 分片列表 (ListParts) 结果
+export interface PartListing {
+  parts: { partNumber: number; lastModified: Date; etag: string; size: number }[];
+  isTruncated: boolean;
+  nextPartNumberMarker: number;
+}
+
+// ListParts 响应中的 <Part> (不解析数值，均为字符串)
+interface ListPartsXmlPart {
+  PartNumber: string;
+  LastModified: string;
+  ETag: string;
+  Size: string;
+}
+
+// 批量删除中单个 Key 的失败原因
+export interface DeleteError {
+  key: string;
+  code: string;
+  message: string;
+}
+
+// 单页版本列表 (?versions)
+export interface VersionsPage {
+  entries: [string, FileMetadata][];
+  isTruncated: boolean;
+  nextKeyMarker?: string;
+  nextVersionIdMarker?: string;
+}
+
+export interface GetOptions {
+  range?: string;
+  versionId?: string;
+  timeoutMs?: number; // 只限制等待响应头的时间；指定时不重试，以便尽快切换副本
+  ifMatch?: string; // 不带引号的 ETag，不一致时返回 412 (续传时确保对象未被覆盖)
+}
+
+/**
+ * 物理桶后端
+ * get / head / delete 返回 S3 语义的响应 (状态码与响应头)，由 ClusterManager 据此记录健康状态；
+ * 其余操作失败时抛出 S3Error。copy / uploadPartCopy / listParts 为可选能力，
+ * 后端不支持原生复制时由 ClusterManager 经 Worker 流式中转
+ */
+export interface StorageBackend {
+  readonly name: string;
+  readonly keepsVersions: boolean; // 覆盖 / 删除 (不带 versionId) 后旧版本是否仍可按 versionId 读取
+
+  get(key: string, options?: GetOptions): Promise<Response>;
+  head(key: string, versionId?: string): Promise<Response>;
+  put(key: string, body: ReadableStream | null, headers: Record<string, string>): Promise<ReplicaInfo>;
+  delete(key: string, versionId?: string): Promise<Response>;
+  // 一次最多 1000 个对象；整批失败时抛出异常，单个 Key 的失败在结果中返回
+  deleteMany(items: { key: string; versionId?: string }[]): Promise<DeleteError[]>;
+  // 列表标记必须是真实的 Key (对账以 nextKeyMarker 作为已扫描范围的上界)
+  listVersions(keyMarker?: string, versionIdMarker?: string): Promise<VersionsPage>;
+  probe(): Promise<boolean>;
+
+  copy?(destKey: string, sourceKey: string, source: ReplicaInfo, directive: 'COPY' | 'REPLACE', metaHeaders: Record<string, string>): Promise<ReplicaInfo>;
+
+  createMultipartUpload(key: string, headers: Record<string, string>): Promise<string>;
+  uploadPart(key: string, uploadId: string, partNumber: number, body: ReadableStream | null, headers: Record<string, string>): Promise<string>;
+  uploadPartCopy?(
+    key: string, uploadId: string, partNumber: number, sourceKey: string, source: ReplicaInfo, range?: string
+  ): Promise<{ etag: string; lastModified: Date }>;
+  listParts?(key: string, uploadId: string, maxParts: number, partNumberMarker: number): Promise<PartListing>;
+  completeMultipartUpload(key: string, uploadId: string, body: string): Promise<ReplicaInfo>;
+  // 上传已不存在时视为成功
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
+
+// 按桶配置的类型创建后端
+export function createBackend(cfg: BucketConfig, env: Env): StorageBackend {
+  if (cfg.type === 'r2') return new R2Backend(cfg, env[cfg.binding!] as R2Bucket);
+  return new S3HttpBackend(cfg);
+}
+
+/**
+ * S3 兼容 API (B2 / MinIO / R2 S3 接口等)，经 AwsClient 签名后通过 HTTP 访问
+ */
+export class S3HttpBackend implements StorageBackend {
+  readonly name: string;
+  readonly keepsVersions = true; // B2 始终保留历史版本，其他 S3 兼容服务需在桶上开启版本控制
+  private cfg: BucketConfig;
+  private client: AwsClient;
+  private xmlParser: XMLParser;
+
+  constructor(cfg: BucketConfig) {
+    this.name = cfg.name;
+    this.cfg = cfg;
+    this.client = new AwsClient({
+      accessKeyId: cfg.accessKeyId,
+      secretAccessKey: cfg.secretAccessKey,
+      service: 's3',
+      region: cfg.region,
+    });
+    this.xmlParser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: "@_",
+      // 保持文本原样，避免 "007" 这类 Key 被解析成数字
+      parseTagValue: false
+    });
+  }
+
+  async get(key: string, options: GetOptions = {}): Promise<Response> {
+    const headers: Record<string, string> = {};
+    if (options.range) headers['Range'] = options.range;
+    if (options.ifMatch) headers['If-Match'] = `"${options.ifMatch}"`;
+    const url = this.buildUrl(key, { versionId: options.versionId });
+    if (options.timeoutMs !== undefined) {
+      return await this.fetchOnce(url, { method: 'GET', headers }, options.timeoutMs);
+    }
+    return await this.client.fetch(url, { method: 'GET', headers });
+  }
+
+  async head(key: string, versionId?: string): Promise<Response> {
+    return await this.client.fetch(this.buildUrl(key, { versionId }), { method: 'HEAD' });
+  }
+
+  async put(key: string, body: ReadableStream | null, headers: Record<string, string>): Promise<ReplicaInfo> {
+    const res = await this.client.fetch(this.buildUrl(key), { method: 'PUT', body, headers });
+    if (!res.ok) {
+      const errText = await res.text();
+      throw S3Error.fromBackend(res.status, errText, 'Upload failed');
+    }
+
+    return {
+      bucket: this.name,
+      etag: (res.headers.get('ETag') || 'unknown').replace(/"/g, ''), // 去除引号
+      // 捕获 B2 返回的新版本 ID
+      versionId: res.headers.get('x-amz-version-id') || undefined
+    };
+  }
+
+  // 带上 VersionID 以执行永久删除，否则在 B2 中只会产生隐藏标记
+  async delete(key: string, versionId?: string): Promise<Response> {
+    return await this.client.fetch(this.buildUrl(key, { versionId }), { method: 'DELETE' });
+  }
+
+  async deleteMany(items: { key: string; versionId?: string }[]): Promise<DeleteError[]> {
+    const body = deleteObjectsRequestXml(items, true);
+    // S3 要求 DeleteObjects 携带 Content-MD5
+    const md5 = await crypto.subtle.digest('MD5', new TextEncoder().encode(body));
+
+    const res = await this.client.fetch(`${this.bucketUrl()}/?delete`, {
+      method: 'POST',
+      body,
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-MD5': btoa(String.fromCharCode(...new Uint8Array(md5)))
+      }
+    });
+    const xmlText = await res.text();
+    const parsed = this.xmlParser.parse(xmlText);
+    if (!res.ok || parsed.Error) {
+      throw S3Error.fromBackend(res.status, xmlText, 'Delete objects failed');
+    }
+
+    const errors: DeleteError[] = [];
+    const result = parsed.DeleteResult || {};
+    const failed = result.Error ? (Array.isArray(result.Error) ? result.Error : [result.Error]) : [];
+    for (const e of failed) {
+      // 对象已不存在不算失败
+      if (e.Code === 'NoSuchKey' || e.Code === 'NoSuchVersion') continue;
+      errors.push({ key: String(e.Key), code: String(e.Code || 'InternalError'), message: String(e.Message || '') });
+    }
+    return errors;
+  }
+
+  // 使用 ?versions 接口以获取 VersionId，仅返回各 Key 当前最新的非删除标记版本
+  async listVersions(keyMarker?: string, versionIdMarker?: string): Promise<VersionsPage> {
+    const query = new URLSearchParams({ 'versions': '' });
+    if (keyMarker) query.set('key-marker', keyMarker);
+    if (versionIdMarker) query.set('version-id-marker', versionIdMarker);
+
+    const res = await this.client.fetch(`${this.bucketUrl()}/?${query.toString()}`, { method: 'GET' });
+    if (!res.ok) {
+      throw new Error(`Failed to list bucket versions ${this.name}: ${res.status}`);
+    }
+
+    const parsed = this.xmlParser.parse(await res.text());
+    const result = parsed.ListVersionsResult || {};
+    const page: VersionsPage = { entries: [], isTruncated: false };
+
+    if (result.Version) {
+      const versions = Array.isArray(result.Version) ? result.Version : [result.Version];
+      for (const v of versions) {
+        if (v.IsLatest === 'true' || v.IsLatest === true) {
+          page.entries.push([String(v.Key), {
+            bucket: this.name,
+            size: parseInt(v.Size),
+            lastModified: new Date(v.LastModified).getTime(),
+            etag: String(v.ETag).replace(/"/g, ''),
+            versionId: v.VersionId // 记录版本 ID
+          }]);
+        }
+      }
+    }
+
+    // 检查分页
+    if (result.IsTruncated === 'true' || result.IsTruncated === true) {
+      page.isTruncated = true;
+      page.nextKeyMarker = String(result.NextKeyMarker);
+      page.nextVersionIdMarker = result.NextVersionIdMarker ? String(result.NextVersionIdMarker) : undefined;
+    }
+    return page;
+  }
+
+  // 半开探测：列出桶中的一个对象
+  async probe(): Promise<boolean> {
+    const res = await this.fetchOnce(`${this.bucketUrl()}/?list-type=2&max-keys=1`, { method: 'GET' }, 5000);
+    return res.ok;
+  }
+
+  // 同一物理桶内的原生复制
+  async copy(
+    destKey: string,
+    sourceKey: string,
+    source: ReplicaInfo,
+    directive: 'COPY' | 'REPLACE',
+    metaHeaders: Record<string, string>
+  ): Promise<ReplicaInfo> {
+    const copyHeaders: Record<string, string> = {
+      ...(directive === 'REPLACE' ? metaHeaders : {}),
+      'x-amz-copy-source': this.copySourceFor(source, sourceKey),
+      'x-amz-metadata-directive': directive
+    };
+
+    const res = await this.client.fetch(this.buildUrl(destKey), { method: 'PUT', headers: copyHeaders });
+    const xmlText = await res.text();
+    // 与 CompleteMultipartUpload 相同，200 响应体中也可能是 <Error>
+    const parsed = this.xmlParser.parse(xmlText);
+    if (!res.ok || parsed.Error) {
+      throw S3Error.fromBackend(res.status, xmlText, 'Copy object failed');
+    }
+
+    return {
+      bucket: this.name,
+      etag: String(parsed.CopyObjectResult?.ETag || 'unknown').replace(/"/g, ''),
+      versionId: res.headers.get('x-amz-version-id') || undefined
+    };
+  }
+
+  // === 分片上传 ===
+
+  async createMultipartUpload(key: string, headers: Record<string, string>): Promise<string> {
+    const res = await this.client.fetch(`${this.buildUrl(key)}?uploads`, { method: 'POST', headers });
+    if (!res.ok) {
+      const errText = await res.text();
+      throw S3Error.fromBackend(res.status, errText, 'Create multipart upload failed');
+    }
+
+    const parsed = this.xmlParser.parse(await res.text());
+    const uploadId = parsed.InitiateMultipartUploadResult?.UploadId;
+    if (!uploadId) throw new S3Error('InternalError', 'Create multipart upload failed: missing UploadId');
+    return String(uploadId);
+  }
+
+  async uploadPart(key: string, uploadId: string, partNumber: number, body: ReadableStream | null, headers: Record<string, string>): Promise<string> {
+    const res = await this.client.fetch(this.buildPartUrl(key, uploadId, partNumber), { method: 'PUT', body, headers });
+    if (!res.ok) {
+      const errText = await res.text();
+      throw S3Error.fromBackend(res.status, errText, 'Upload part failed');
+    }
+    return (res.headers.get('ETag') || '').replace(/"/g, '');
+  }
+
+  async uploadPartCopy(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    sourceKey: string,
+    source: ReplicaInfo,
+    range?: string
+  ): Promise<{ etag: string; lastModified: Date }> {
+    const copyHeaders: Record<string, string> = { 'x-amz-copy-source': this.copySourceFor(source, sourceKey) };
+    if (range) copyHeaders['x-amz-copy-source-range'] = range;
+
+    const res = await this.client.fetch(this.buildPartUrl(key, uploadId, partNumber), { method: 'PUT', headers: copyHeaders });
+    const xmlText = await res.text();
+    if (!res.ok) {
+      throw S3Error.fromBackend(res.status, xmlText, 'Upload part copy failed');
+    }
+    const result = this.xmlParser.parse(xmlText).CopyPartResult || {};
+    return {
+      etag: String(result.ETag || '').replace(/"/g, ''),
+      lastModified: result.LastModified ? new Date(result.LastModified) : new Date()
+    };
+  }
+
+  async listParts(key: string, uploadId: string, maxParts: number, partNumberMarker: number): Promise<PartListing> {
+    const url = this.buildUrl(key, {
+      uploadId,
+      'max-parts': maxParts.toString(),
+      'part-number-marker': partNumberMarker.toString()
+    });
+    const res = await this.client.fetch(url, { method: 'GET' });
+    const xmlText = await res.text();
+    if (!res.ok) {
+      throw S3Error.fromBackend(res.status, xmlText, 'List parts failed');
+    }
+
+    const result = this.xmlParser.parse(xmlText).ListPartsResult || {};
+    const rawParts: ListPartsXmlPart[] = result.Part ? (Array.isArray(result.Part) ? result.Part : [result.Part]) : [];
+    return {
+      parts: rawParts.map(p => ({
+        partNumber: parseInt(p.PartNumber),
+        lastModified: new Date(p.LastModified),
+        etag: String(p.ETag).replace(/"/g, ''),
+        size: parseInt(p.Size)
+      })),
+      isTruncated: result.IsTruncated === 'true' || result.IsTruncated === true,
+      nextPartNumberMarker: parseInt(result.NextPartNumberMarker) || 0
+    };
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, body: string): Promise<ReplicaInfo> {
+    const res = await this.client.fetch(this.buildPartUrl(key, uploadId), {
+      method: 'POST',
+      body: body,
+      headers: { 'Content-Type': 'application/xml' }
+    });
+    const xmlText = await res.text();
+    // S3 语义：即使返回 200，响应体中也可能是 <Error>
+    const parsed = this.xmlParser.parse(xmlText);
+    if (!res.ok || parsed.Error) {
+      throw S3Error.fromBackend(res.status, xmlText, 'Complete multipart upload failed');
+    }
+
+    return {
+      bucket: this.name,
+      etag: String(parsed.CompleteMultipartUploadResult?.ETag || '').replace(/"/g, ''),
+      versionId: res.headers.get('x-amz-version-id') || undefined
+    };
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    const res = await this.client.fetch(this.buildPartUrl(key, uploadId), { method: 'DELETE' });
+    // 404 表示后端已不存在该上传
+    if (!res.ok && res.status !== 404) {
+      const errText = await res.text();
+      throw S3Error.fromBackend(res.status, errText, 'Abort multipart upload failed');
+    }
+  }
+
+  // === 地址与请求 ===
+
+  // 桶的根地址：path 风格为 endpoint/bucket，virtual-host 风格为 bucket.endpoint
+  private bucketUrl(): string {
+    if (this.cfg.addressing === 'virtual') {
+      const url = new URL(this.cfg.endpoint);
+      return `${url.protocol}//${this.cfg.name}.${url.host}${url.pathname.replace(/\/$/, '')}`;
+    }
+    return `${this.cfg.endpoint}/${this.cfg.name}`;
+  }
+
+  // 对象地址：Key 按路径段编码 (与 aws4fetch 签名时的规范化路径一致，+ % ? # 等字符不会被误解)，
+  // 查询参数 (versionId 等) 由 URLSearchParams 编码，值为 undefined 的参数省略
+  private buildUrl(key: string, query: Record<string, string | undefined> = {}): string {
+    const path = key.replace(/^\//, '').split('/').map(encodeKeySegment).join('/');
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([name, value]) => {
+      if (value !== undefined) params.set(name, value);
+    });
+    const search = params.toString();
+    return `${this.bucketUrl()}/${path}${search ? `?${search}` : ''}`;
+  }
+
+  private buildPartUrl(key: string, uploadId: string, partNumber?: number): string {
+    return this.buildUrl(key, { partNumber: partNumber?.toString(), uploadId });
+  }
+
+  // x-amz-copy-source 头：/bucket/key[?versionId=xxx]
+  private copySourceFor(replica: ReplicaInfo, sourceKey: string): string {
+    let copySource = `/${replica.bucket}/${encodeURIComponent(sourceKey).replace(/%2F/g, '/')}`;
+    if (replica.versionId) copySource += `?versionId=${encodeURIComponent(replica.versionId)}`;
+    return copySource;
+  }
+
+  // 单次请求 (不走 AwsClient 的 5xx 重试，以便尽快切换副本)
+  // timeoutMs 只限制等待响应头的时间，不影响后续的 body 流式传输
+  private async fetchOnce(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const signed = await this.client.sign(url, { ...init, signal: controller.signal });
+      return await fetch(signed);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Worker 的 R2 绑定
+ * R2 不保留历史版本：对象的 version 作为 versionId 记录到索引，按版本读取 / 删除时
+ * 当前对象的 version 不一致即视为该版本已不存在
+ */
+export class R2Backend implements StorageBackend {
+  readonly name: string;
+  readonly keepsVersions = false;
+  private bucket: R2Bucket;
+
+  constructor(cfg: BucketConfig, bucket: R2Bucket) {
+    this.name = cfg.name;
+    this.bucket = bucket;
+  }
+
+  async get(key: string, options: GetOptions = {}): Promise<Response> {
+    const range = options.range ? new Headers({ range: options.range }) : undefined;
+    const onlyIf = options.ifMatch ? { etagMatches: options.ifMatch } : undefined;
+    const obj = await this.call('Get object', () => this.bucket.get(key, { range, onlyIf }));
+    if (!obj) return new Response(null, { status: 404 });
+    // 条件不成立时 R2 返回不带 body 的对象
+    if (!('body' in obj)) return new Response(null, { status: 412 });
+    if (options.versionId && obj.version !== options.versionId) {
+      await obj.body.cancel();
+      return new Response(null, { status: 404 });
+    }
+
+    // 未请求 Range 时 R2 也可能返回覆盖整个对象的 range，只按请求判断是否为 206
+    const headers = this.objectHeaders(obj);
+    if (!options.range || !obj.range) return new Response(obj.body, { status: 200, headers });
+
+    const [start, end] = rangeBounds(obj.range, obj.size);
+    headers.set('Content-Length', String(end - start + 1));
+    headers.set('Content-Range', `bytes ${start}-${end}/${obj.size}`);
+    return new Response(obj.body, { status: 206, headers });
+  }
+
+  async head(key: string, versionId?: string): Promise<Response> {
+    const obj = await this.call('Head object', () => this.bucket.head(key));
+    if (!obj || (versionId && obj.version !== versionId)) return new Response(null, { status: 404 });
+    return new Response(null, { status: 200, headers: this.objectHeaders(obj) });
+  }
+
+  async put(key: string, body: ReadableStream | null, headers: Record<string, string>): Promise<ReplicaInfo> {
+    const options = r2PutOptions(headers);
+    const value = fixedLength(body, headers);
+    const obj = await this.call('Upload', () => this.bucket.put(key, value, options));
+    if (!obj) throw new S3Error('InternalError', 'Upload failed: R2 did not store the object');
+    return { bucket: this.name, etag: obj.etag, versionId: obj.version };
+  }
+
+  // 指定 versionId 时仅删除该版本：当前对象已被覆盖 (version 不同) 时不做任何操作
+  async delete(key: string, versionId?: string): Promise<Response> {
+    if (versionId) {
+      const current = await this.call('Head object', () => this.bucket.head(key));
+      if (!current || current.version !== versionId) return new Response(null, { status: 204 });
+    }
+    await this.call('Delete object', () => this.bucket.delete(key));
+    return new Response(null, { status: 204 });
+  }
+
+  // 与 delete 一致：带 versionId 的项先核对当前对象的 version，已被覆盖的版本视为已删除，不删除新的对象
+  async deleteMany(items: { key: string; versionId?: string }[]): Promise<DeleteError[]> {
+    const matched = await Promise.all(items.map(async item => {
+      if (!item.versionId) return true;
+      const current = await this.call('Head object', () => this.bucket.head(item.key));
+      return current !== null && current.version === item.versionId;
+    }));
+    const keys = items.filter((_, i) => matched[i]).map(i => i.key);
+    if (keys.length > 0) await this.call('Delete objects', () => this.bucket.delete(keys));
+    return [];
+  }
+
+  // R2 没有版本列表：每个 Key 只有当前对象，标记为最后一个 Key
+  async listVersions(keyMarker?: string): Promise<VersionsPage> {
+    const listed = await this.call('List objects', () => this.bucket.list({ startAfter: keyMarker, limit: 1000 }));
+    const page: VersionsPage = {
+      entries: listed.objects.map(obj => [obj.key, {
+        bucket: this.name,
+        size: obj.size,
+        lastModified: obj.uploaded.getTime(),
+        etag: obj.etag,
+        versionId: obj.version
+      }]),
+      isTruncated: false
+    };
+    if (listed.truncated && listed.objects.length > 0) {
+      page.isTruncated = true;
+      page.nextKeyMarker = listed.objects[listed.objects.length - 1].key;
+    }
+    return page;
+  }
+
+  async probe(): Promise<boolean> {
+    await this.call('List objects', () => this.bucket.list({ limit: 1 }));
+    return true;
+  }
+
+  // === 分片上传 ===
+
+  async createMultipartUpload(key: string, headers: Record<string, string>): Promise<string> {
+    const upload = await this.call('Create multipart upload', () => this.bucket.createMultipartUpload(key, r2PutOptions(headers)));
+    return upload.uploadId;
+  }
+
+  async uploadPart(key: string, uploadId: string, partNumber: number, body: ReadableStream | null, headers: Record<string, string>): Promise<string> {
+    const value = fixedLength(body, headers) ?? '';
+    const upload = this.bucket.resumeMultipartUpload(key, uploadId);
+    const part = await this.call('Upload part', () => upload.uploadPart(partNumber, value));
+    return part.etag;
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, body: string): Promise<ReplicaInfo> {
+    const parts = parseCompleteMultipartUploadRequest(body);
+    if (!parts) throw new S3Error('MalformedXML', 'The XML you provided was not well-formed or did not validate against our published schema.');
+
+    const upload = this.bucket.resumeMultipartUpload(key, uploadId);
+    const obj = await this.call('Complete multipart upload', () => upload.complete(parts));
+    return { bucket: this.name, etag: obj.etag, versionId: obj.version };
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    try {
+      await this.call('Abort multipart upload', () => this.bucket.resumeMultipartUpload(key, uploadId).abort());
+    } catch (e) {
+      if (!(e instanceof S3Error && e.code === 'NoSuchUpload')) throw e;
+    }
+  }
+
+  // R2 对象 -> S3 响应头
+  private objectHeaders(obj: R2Object): Headers {
+    const headers = new Headers();
+    obj.writeHttpMetadata(headers);
+    Object.entries(obj.customMetadata || {}).forEach(([name, value]) => headers.set(`x-amz-meta-${name}`, value));
+    headers.set('ETag', obj.httpEtag);
+    headers.set('Last-Modified', obj.uploaded.toUTCString());
+    headers.set('Content-Length', String(obj.size));
+    headers.set('Accept-Ranges', 'bytes');
+    headers.set('x-amz-version-id', obj.version);
+    return headers;
+  }
+
+  // R2 绑定以异常报告错误，按消息映射为 S3 错误码；无法识别的视为后端暂不可用
+  private async call<T>(context: string, op: () => Promise<T>): Promise<T> {
+    try {
+      return await op();
+    } catch (e) {
+      if (e instanceof S3Error) throw e;
+      const message = e instanceof Error ? e.message : String(e);
+      if (/multipart upload does not exist|NoSuchUpload/i.test(message)) {
+        throw new S3Error('NoSuchUpload', 'The specified upload does not exist.');
+      }
+      if (/range/i.test(message)) throw new S3Error('InvalidRange', 'The requested range is not satisfiable');
+      if (/smaller than the minimum|EntityTooSmall/i.test(message)) {
+        throw new S3Error('EntityTooSmall', 'Your proposed upload is smaller than the minimum allowed object size.');
+      }
+      if (/part/i.test(message) && /not (be )?found|invalid/i.test(message)) {
+        throw new S3Error('InvalidPart', `${context}: ${message}`);
+      }
+      throw new S3Error('ServiceUnavailable', `${context}: ${message}`);
+    }
+  }
+}
+
+// 按 RFC 3986 编码单个路径段 (encodeURIComponent 不编码 !'()*)
+function encodeKeySegment(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+}
+
+// R2 写入需要已知长度的流 (多副本 tee 之后长度信息会丢失)
+// tee 出的分支不能 pipeTo 到 FixedLengthStream (workerd 未实现)，逐块写入
+function fixedLength(body: ReadableStream | null, headers: Record<string, string>): ReadableStream | null {
+  if (!body) return null;
+  const length = parseInt(new Headers(headers).get('Content-Length') || '');
+  if (isNaN(length)) throw new S3Error('MissingContentLength', 'You must provide the Content-Length HTTP header.');
+
+  const { readable, writable } = new FixedLengthStream(length);
+  const reader = body.getReader();
+  const writer = writable.getWriter();
+  const pump = async () => {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      await writer.write(value);
+    }
+    await writer.close();
+  };
+  // 任一端出错时同时结束两端：R2 的写入随之失败，tee 的分支也不再继续缓冲
+  pump().catch(e => {
+    reader.cancel(e).catch(() => undefined);
+    writer.abort(e).catch(() => undefined);
+  });
+  return readable;
+}
+
+// 上传请求头 -> R2 的 httpMetadata / customMetadata
+function r2PutOptions(record: Record<string, string>): { httpMetadata: R2HTTPMetadata; customMetadata: Record<string, string> } {
+  const headers = new Headers(record);
+  const httpMetadata: R2HTTPMetadata = {};
+  const contentType = headers.get('content-type');
+  if (contentType) httpMetadata.contentType = contentType;
+  for (const name of OBJECT_HEADERS) {
+    const value = headers.get(name);
+    if (!value) continue;
+    if (name === 'cache-control') httpMetadata.cacheControl = value;
+    else if (name === 'content-disposition') httpMetadata.contentDisposition = value;
+    else if (name === 'content-encoding') httpMetadata.contentEncoding = value;
+    else if (name === 'content-language') httpMetadata.contentLanguage = value;
+    else if (name === 'expires' && !isNaN(Date.parse(value))) httpMetadata.cacheExpiry = new Date(value);
+  }
+
+  const customMetadata: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (name.startsWith('x-amz-meta-')) customMetadata[name.substring('x-amz-meta-'.length)] = value;
+  });
+  return { httpMetadata, customMetadata };
+}
+
+// R2 返回的范围 -> [起始, 结束] (闭区间)
+function rangeBounds(range: R2Range, size: number): [number, number] {
+  if ('suffix' in range) return [Math.max(0, size - range.suffix), size - 1];
+  const start = range.offset ?? 0;
+  const end = range.length !== undefined ? Math.min(start + range.length, size) - 1 : size - 1;
+  return [start, end];
+}
@@ -1,46 +1,252 @@
 // src/core/cache.ts
 import { Env } from './config';
+import { FileMetadata } from './index-store';
+import { ByteRange, rangeLength, rangeResponse, sliceStream, concatStreams } from './range';
 
+// 定向清除记录：缓存时间早于 at 且 Key 匹配的条目视为失效
+export interface CachePurge {
+  key?: string; // 精确匹配
+  prefix?: string; // 前缀匹配 (空字符串表示全部)
+  at: number;
+}
+
+// 全部清除时递增 generation (缓存键中带有 generation，旧条目不会再被命中)
+export interface CachePurgeState {
+  generation: number;
+  purges: CachePurge[];
+}
+
+// 清除记录在 isolate 内缓存一小段时间，避免每次 GET 都读取 KV
+let purgeCache: { at: number; state: CachePurgeState } | null = null;
+
+// 分块缓存未命中时的回源方式 (由调用方提供，返回已改写响应头的 200 / 206 响应)
+export interface ChunkOrigin {
+  fetch(range: ByteRange): Promise<Response>;
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+/**
+ * Edge Cache
+ * 缓存键由规范化的对象路径、response-* 参数与索引中的版本 (ETag + 修改时间) 组成，
+ * 不含签名 / Token 等鉴权参数；对象被覆盖或删除后旧版本的缓存键不会再被使用。
+ * Cache API 只作用于当前数据中心，定向清除通过 KV 中的清除记录在各数据中心生效。
+ * Range 请求由完整对象的缓存截取；启用分块缓存时，未缓存完整对象的 Range 请求按固定大小的块缓存
+ */
 export class ContentCache {
   private cache: Cache;
   private env: Env;
 
+  private readonly PURGE_KEY = 'CACHE_PURGES';
+  private readonly STORED_AT_HEADER = 'x-cache-stored-at';
+  private readonly PURGE_CACHE_MS = 10000;
+  private readonly MAX_PURGES = 500;
+  private readonly DEFAULT_MAX_OBJECT_MB = 512;
+
   constructor(env: Env) {
     this.cache = (caches as any).default;
     this.env = env;
   }
 
-  // 尝试获取缓存的响应
-  async match(request: Request): Promise<Response | undefined> {
-    const ttl = parseInt(this.env.CACHE_TTL_CONTENT) || 0;
-    if (ttl <= 0) return undefined;
+  // CACHE_TTL_CONTENT 为 0 时不使用缓存
+  isEnabled(): boolean {
+    return this.ttl() > 0;
+  }
+
+  // 启用分块缓存时 Range 请求未命中完整缓存后改用 matchChunks
+  isChunkingEnabled(): boolean {
+    return this.isEnabled() && this.chunkSize() > 0;
+  }
+
+  // 尝试获取缓存的响应 (已被定向清除的条目视为未命中并删除)
+  // ranges 为 readRange 的结果：null 返回完整内容，否则从完整对象的缓存中截取并返回 206
+  async match(request: Request, key: string, meta: FileMetadata, ranges: ByteRange[] | null = null): Promise<Response | undefined> {
+    if (!this.isEnabled()) return undefined;
 
-    return await this.cache.match(request);
+    const state = await this.purgeState();
+    const cacheKey = this.cacheKey(request, key, meta, state.generation);
+    const cached = await this.matchEntry(cacheKey, key, state, ranges ? ranges[0] : undefined);
+    if (!cached) return undefined;
+    if (!ranges) return cached;
+
+    return rangeResponse(ranges, meta.size, cached, async range => {
+      const part = await this.matchEntry(cacheKey, key, state, range);
+      if (!part) throw new Error('Cached object was evicted while serving a range request');
+      return part;
+    });
   }
 
-  // 写入缓存
-  async put(request: Request, response: Response) {
-    const ttl = parseInt(this.env.CACHE_TTL_CONTENT) || 0;
-    if (ttl <= 0) return;
+  // 按块读取 Range 请求的内容：命中的块直接使用，未命中的块回源读取并写入缓存
+  async matchChunks(request: Request, key: string, meta: FileMetadata, ranges: ByteRange[], origin: ChunkOrigin): Promise<Response> {
+    const state = await this.purgeState();
+    const size = this.chunkSize();
+    const baseKey = this.cacheKey(request, key, meta, state.generation);
+
+    const readChunk = async (index: number): Promise<Response> => {
+      const chunkKey = new URL(baseKey.url);
+      chunkKey.searchParams.set('x-cache-chunk', `${size}-${index}`);
+      const cached = await this.matchEntry(new Request(chunkKey.toString()), key, state);
+      if (cached) return cached;
+
+      const chunk = { start: index * size, end: Math.min((index + 1) * size, meta.size) - 1 };
+      const response = await origin.fetch(chunk);
+      // 后端忽略 Range 返回完整对象时自行截取
+      const body = response.status === 206 ? response.body! : sliceStream(response.body!, chunk.start, rangeLength(chunk));
+      const [toCache, toClient] = body.tee();
+      const headers = new Headers(response.headers);
+      headers.delete('Content-Range');
+      headers.set('Content-Length', rangeLength(chunk).toString());
+      origin.waitUntil(this.store(new Request(chunkKey.toString()), new Response(toCache, { status: 200, headers })));
+      return new Response(toClient, { status: 200, headers });
+    };
+
+    // 一个区间可能跨越多个块：依次截取各块中落在区间内的部分
+    const openRange = async (range: ByteRange, first?: Response): Promise<Response> => {
+      const firstIndex = Math.floor(range.start / size);
+      const lastIndex = Math.floor(range.end / size);
+      const head = first || await readChunk(firstIndex);
+      const sources: Array<() => Promise<ReadableStream<Uint8Array>>> = [];
+      for (let index = firstIndex; index <= lastIndex; index++) {
+        const from = Math.max(range.start, index * size);
+        const to = Math.min(range.end, (index + 1) * size - 1);
+        const current = index;
+        sources.push(async () => {
+          const chunk = current === firstIndex ? head : await readChunk(current);
+          return sliceStream(chunk.body!, from - current * size, to - from + 1);
+        });
+      }
+      return new Response(concatStreams(sources), { headers: head.headers });
+    };
+
+    const first = await openRange(ranges[0], await readChunk(Math.floor(ranges[0].start / size)));
+    return rangeResponse(ranges, meta.size, first, range => openRange(range));
+  }
+
+  // 写入缓存 (调用方传入 response.clone())
+  // 超过 CACHE_MAX_OBJECT_MB 的对象不整体缓存 (Cache API 会拒绝过大的条目)
+  async put(request: Request, key: string, meta: FileMetadata, response: Response) {
+    if (!this.isEnabled() || meta.size > this.maxObjectSize()) {
+      await response.body?.cancel();
+      return;
+    }
 
-    // 必须重新构造 Response 才能修改 Headers (Response 对象是不可变的)
-    // 且 Cache API 要求 response 必须包含 Cache-Control max-age
-    const headers = new Headers(response.headers);
-    headers.set('Cache-Control', `public, max-age=${ttl}`);
-    
-    // 如果之前响应没设置 Content-Length 等关键头，这里最好保留原样
     // 注意：Cloudflare Cache API 不支持缓存 Partial Content (206)，
     // 但如果源站返回 200，我们可以缓存它。
-    
+    const state = await this.purgeState();
+    await this.store(this.cacheKey(request, key, meta, state.generation), response);
+  }
+
+  // 对象被覆盖 / 删除时移除当前数据中心中旧版本的缓存 (其他数据中心的旧条目因版本不同不会再被命中)
+  async evict(request: Request, key: string, meta: FileMetadata) {
+    if (!this.isEnabled()) return;
+    const state = await this.purgeState();
+    await this.cache.delete(this.cacheKey(request, key, meta, state.generation));
+  }
+
+  // 定向清除：指定 key 或 prefix，都未指定时清除全部
+  async purge(target: { key?: string; prefix?: string }): Promise<CachePurgeState> {
+    const state = await this.loadPurgeState();
+    const now = Date.now();
+
+    if (target.key === undefined && !target.prefix) {
+      state.generation++;
+      state.purges = [];
+    } else {
+      // 超过 TTL 的记录已无意义 (对应的缓存条目已过期)
+      state.purges = state.purges.filter(p => now - p.at < this.ttl() * 1000);
+      state.purges.push(target.key !== undefined ? { key: target.key, at: now } : { prefix: target.prefix, at: now });
+      // 记录过多时退化为全部清除
+      if (state.purges.length > this.MAX_PURGES) {
+        state.generation++;
+        state.purges = [];
+      }
+    }
+
+    await this.env.BUCKET_STATE_KV.put(this.PURGE_KEY, JSON.stringify(state));
+    purgeCache = { at: now, state };
+    return state;
+  }
+
+  // 规范化的缓存键：只保留影响响应内容的 response-* 参数，附加对象版本与清除代数
+  private cacheKey(request: Request, key: string, meta: FileMetadata, generation: number): Request {
+    const url = new URL(request.url);
+    const virtualBucket = this.env.S3_VIRTUAL_BUCKET || 'virtual-bucket';
+    const cacheUrl = new URL(`${url.origin}/${virtualBucket}/${encodeURIComponent(key).replace(/%2F/g, '/')}`);
+
+    const overrides = Array.from(url.searchParams.entries())
+      .filter(([name]) => name.startsWith('response-'))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    overrides.forEach(([name, value]) => cacheUrl.searchParams.append(name, value));
+    cacheUrl.searchParams.set('x-cache-version', `${meta.etag}-${meta.lastModified}`);
+    cacheUrl.searchParams.set('x-cache-generation', generation.toString());
+    return new Request(cacheUrl.toString(), { method: 'GET' });
+  }
+
+  // 必须重新构造 Response 才能修改 Headers (Response 对象是不可变的)
+  // 且 Cache API 要求 response 必须包含 Cache-Control max-age
+  private async store(cacheKey: Request, response: Response) {
+    const headers = new Headers(response.headers);
+    headers.set('Cache-Control', `public, max-age=${this.ttl()}`);
+    headers.set(this.STORED_AT_HEADER, Date.now().toString());
+
     const cachedResponse = new Response(response.body, {
       status: response.status,
       statusText: response.statusText,
       headers: headers
     });
+    await this.cache.put(cacheKey, cachedResponse);
+  }
+
+  // 读取缓存条目，range 存在时返回恰好覆盖该区间的响应 (Cache API 未截取时自行截取)
+  private async matchEntry(cacheKey: Request, key: string, state: CachePurgeState, range?: ByteRange): Promise<Response | undefined> {
+    const lookup = range
+      ? new Request(cacheKey.url, { headers: { Range: `bytes=${range.start}-${range.end}` } })
+      : new Request(cacheKey.url);
+    const cached = await this.cache.match(lookup);
+    if (!cached) return undefined;
+
+    const storedAt = parseInt(cached.headers.get(this.STORED_AT_HEADER) || '0');
+    if (state.purges.some(p => p.at >= storedAt && this.purgeMatches(p, key))) {
+      await cached.body?.cancel();
+      await this.cache.delete(new Request(cacheKey.url));
+      return undefined;
+    }
+
+    const headers = new Headers(cached.headers);
+    headers.delete(this.STORED_AT_HEADER);
+    if (!range) return new Response(cached.body, { status: cached.status, statusText: cached.statusText, headers });
+
+    let body = cached.body!;
+    if (cached.status !== 206) body = sliceStream(body, range.start, rangeLength(range));
+    return new Response(body, { status: 206, headers });
+  }
+
+  private purgeMatches(purge: CachePurge, key: string): boolean {
+    if (purge.key !== undefined) return purge.key === key;
+    return key.startsWith(purge.prefix || '');
+  }
+
+  private async purgeState(): Promise<CachePurgeState> {
+    if (purgeCache && Date.now() - purgeCache.at < this.PURGE_CACHE_MS) return purgeCache.state;
+    const state = await this.loadPurgeState();
+    purgeCache = { at: Date.now(), state };
+    return state;
+  }
+
+  private async loadPurgeState(): Promise<CachePurgeState> {
+    const stored = await this.env.BUCKET_STATE_KV.get<CachePurgeState>(this.PURGE_KEY, 'json');
+    return stored || { generation: 0, purges: [] };
+  }
+
+  private ttl(): number {
+    return parseInt(this.env.CACHE_TTL_CONTENT) || 0;
+  }
+
+  private chunkSize(): number {
+    return Math.floor((parseFloat(this.env.CACHE_CHUNK_SIZE_MB || '0') || 0) * 1024 * 1024);
+  }
 
-    // 这是一个副作用操作，需要在 ctx.waitUntil 中调用，或者由调用者 await
-    // 这里的 body stream 已经被读取用于构造新响应，需要注意克隆问题
-    // 在 index.ts 中调用时，我们将传入 response.clone()
-    await this.cache.put(request, cachedResponse);
+  private maxObjectSize(): number {
+    const mb = parseFloat(this.env.CACHE_MAX_OBJECT_MB || '');
+    return (isNaN(mb) ? this.DEFAULT_MAX_OBJECT_MB : mb) * 1024 * 1024;
   }
-}
\ No newline at end of file
+}
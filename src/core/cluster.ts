@@ -1,378 +1,1231 @@
 // src/core/cluster.ts
-import { AwsClient } from 'aws4fetch';
-import { XMLParser } from 'fast-xml-parser';
-import { Env, BucketConfig, parseBucketsConfig } from './config';
+import { Env, BucketConfig, loadBucketConfigs } from './config';
+import { S3Error } from './errors';
+import { StorageBackend, DeleteError, PartListing, VersionsPage, createBackend } from './backend';
+import {
+  IndexStore, IndexEntry, FileMetadata, IndexChange, BucketUsage, ReplicaInfo, ObjectMetadata,
+  compareKeys, replicasOf, metadataFromHeaders, metadataToHeaders, pickObjectMetadata
+} from './index-store';
+import { HealthTracker, BucketHealth } from './health';
+import { MetricsRecorder } from './metrics';
+import { resumableStream } from './resume';
+import { VersionStore, VersionRecord, VersionChange, VersionListItem, NULL_VERSION_ID, versionIdOf, toVersionRecord, toFileMetadata } from './versions';
+import type { IndexCoordinator } from './coordinator';
 
-// 定义索引项结构
-interface FileMetadata {
+export type { FileMetadata, ReplicaInfo, ObjectMetadata } from './index-store';
+export type { DeleteError, PartListing, VersionsPage } from './backend';
+export type { VersionRecord, VersionListItem } from './versions';
+
+// 分片上传会话：记录 uploadId 所在的物理桶 (初始化时一次选定)
+export interface MultipartSession {
   bucket: string;
-  size: number;
-  lastModified: number; // timestamp
-  etag: string;
-  versionId?: string; // 新增：记录 S3/B2 的 Version ID
+  replicaBuckets?: string[]; // 其他副本所在桶 (完成后从主副本复制)
+  key: string;
+  uploadId: string;
+  initiated: number; // timestamp
+  declaredSize?: number; // 客户端声明的总大小 (可选)
+  reservationId?: string; // 协调器中的容量预留
+}
+
+// 列表中的单个对象 (字段名与 S3 XML 元素一致)
+export interface ListedObject {
+  Key: string;
+  LastModified: Date;
+  ETag: string;
+  Size: number;
+  StorageClass: string;
+}
+
+export interface ListOptions {
+  delimiter?: string;
+  marker?: string; // 只返回字典序大于该值的 Key (marker / start-after / continuation-token)
+  maxKeys?: number; // 默认 1000
+  cursor?: string; // 上一页返回的 KV 游标
+  keepCursor?: boolean; // 按本页末尾保存 KV 游标，供只回传 marker 的下一页请求 (V1) 续读
+}
+
+// 单页列表结果
+export interface ListPage {
+  contents: ListedObject[];
+  commonPrefixes: string[];
+  isTruncated: boolean;
+  nextMarker?: string; // 本页最后一项 (Key 或 CommonPrefix)
+  cursor?: string; // 下一页可直接从该 KV 游标开始读取
+}
+
+// DeleteObjects 中删除成功的一项 (版本控制相关字段见 DeleteResult 的 Deleted 元素)
+export interface DeletedVersion {
+  key: string;
+  versionId?: string;
+  deleteMarker?: boolean;
+  deleteMarkerVersionId?: string;
 }
 
-// 整个集群的文件索引 Map: filepath -> metadata
-type ClusterIndex = Record<string, FileMetadata>;
+// ListObjectVersions 的参数与结果
+export interface VersionListOptions {
+  delimiter?: string;
+  keyMarker?: string;
+  versionIdMarker?: string;
+  maxKeys?: number;
+}
+
+export interface VersionListPage {
+  versions: VersionListItem[];
+  commonPrefixes: string[];
+  isTruncated: boolean;
+  nextKeyMarker?: string;
+  nextVersionIdMarker?: string;
+}
+
+// 桶模式：active 正常读写；read-only 不再接收新写入；draining 不再接收新写入，且其中的文件将被迁出
+export type BucketMode = 'active' | 'read-only' | 'draining';
+
+// 选桶结果：每个副本一个桶 (首个为主副本)，绑定协调器时附带容量预留 ID
+export interface UploadTarget {
+  buckets: string[];
+  reservationId?: string;
+}
+
+/**
+ * 选桶策略：按 UPLOAD_STRATEGY 在各桶用量中挑选 count 个能容纳 fileSize 的不同桶
+ * - fill-first：按配置顺序写满一个再写下一个
+ * - balanced：优先使用率 (用量 / 容量) 最低的桶
+ * - weighted：按各桶 weight 加权随机，weight 为 0 的桶不参与
+ * 各桶容量取配置中的 capacityGB，未配置时使用 MAX_BUCKET_SIZE_GB；凑不齐 count 个时返回 null
+ */
+export function pickUploadBuckets(bucketUsage: Record<string, number>, fileSize: number, env: Env, count = 1): string[] | null {
+  const defaultCapacity = (parseFloat(env.MAX_BUCKET_SIZE_GB) || 10) * 1024 * 1024 * 1024;
+  const configs = new Map(loadBucketConfigs(env).map(c => [c.name, c]));
+
+  const strategy = env.UPLOAD_STRATEGY || 'fill-first';
+  let usageList = Object.entries(bucketUsage).map(([name, usage]) => ({
+    name,
+    usage,
+    capacity: configs.get(name)?.capacityBytes ?? defaultCapacity,
+    weight: configs.get(name)?.weight ?? 1
+  }));
+
+  if (strategy === 'balanced') {
+    usageList.sort((a, b) => a.usage / a.capacity - b.usage / b.capacity);
+  } else if (strategy === 'weighted') {
+    // 加权随机排列 (Efraimidis-Spirakis)：random^(1/weight) 越大越靠前
+    usageList = usageList
+      .filter(u => u.weight > 0)
+      .map(u => ({ u, rank: Math.pow(Math.random(), 1 / u.weight) }))
+      .sort((a, b) => b.rank - a.rank)
+      .map(r => r.u);
+  }
+
+  const candidates = usageList.filter(u => u.usage + fileSize < u.capacity).slice(0, count);
+
+  if (candidates.length < count) {
+    console.warn(`Not enough buckets with free space for ${count} replica(s) of the given file size`);
+    return null;
+  }
+  
+  return candidates.map(c => c.name);
+}
 
 export class ClusterManager {
-  private clients: Map<string, AwsClient>;
+  private backends: Map<string, StorageBackend>;
   private configs: BucketConfig[];
   private env: Env;
-  private xmlParser: XMLParser;
   
-  // 内存缓存一份 index，避免单次请求内多次读取 KV
-  private inMemoryIndex: ClusterIndex | null = null;
-  private readonly KV_KEY = 'CLUSTER_INDEX';
-  private readonly KV_TTL = 86400; // 1天
+  // 分片索引 (每个文件一条 KV 记录 + 用量清单)
+  private index: IndexStore;
+  // 历史版本与删除标记 (开启版本控制时)
+  private versions: VersionStore;
+  private readonly MPU_PREFIX = 'MPU:';
+  private readonly MODES_KEY = 'BUCKET_MODES';
+  // 可选的索引协调器 (Durable Object)
+  private coordinator: DurableObjectStub<IndexCoordinator> | null = null;
+  // 后端桶健康状态与熔断
+  private health: HealthTracker;
+  // 运行统计 (后端请求 / 延迟 / 流量)
+  private metrics: MetricsRecorder;
 
   constructor(env: Env) {
     this.env = env;
+    this.index = new IndexStore(env);
+    this.versions = new VersionStore(env);
+    this.health = new HealthTracker(env);
+    this.metrics = new MetricsRecorder(env);
+    if (env.INDEX_COORDINATOR) {
+      this.coordinator = env.INDEX_COORDINATOR.get(env.INDEX_COORDINATOR.idFromName('global'));
+    }
     
-    // 1. 收集所有配置字符串片段
-    const configSegments: string[] = [];
+    // 1~4. 读取并解析全部桶配置 (BUCKETS_CONFIG + BUCKETS_CONFIG_PART_LIST)
+    this.configs = loadBucketConfigs(env);
+
+    // 5. 按类型初始化各桶后端 (S3 兼容 API / R2 绑定)
+    this.backends = new Map();
+    this.configs.forEach(cfg => this.backends.set(cfg.name, createBackend(cfg, env)));
+  }
 
-    // 无论是否设置了 BUCKETS_CONFIG，都先把它作为默认基础部分
-    if (env.BUCKETS_CONFIG) {
-      configSegments.push(env.BUCKETS_CONFIG);
+  // === 索引核心逻辑 ===
+
+  getBucketNames(): string[] {
+    return this.configs.map(c => c.name);
+  }
+
+  // 列出单个桶的一页版本记录，仅返回各 Key 当前最新的非删除标记版本
+  // 列表失败时抛出异常，调用方不能把失败当作"桶为空"
+  async listVersionsPage(bucketName: string, keyMarker?: string, versionIdMarker?: string): Promise<VersionsPage> {
+    const backend = this.getBackend(bucketName);
+    return await this.tracked(bucketName, 'list', () => backend.listVersions(keyMarker, versionIdMarker));
+  }
+
+  // 以全量统计结果重置各桶用量计数 (对账完成一轮后调用)
+  async resetIndexUsage(buckets: Record<string, BucketUsage>) {
+    const manifest = this.index.createManifest();
+    this.configs.forEach(c => manifest.buckets[c.name] = buckets[c.name] || { bytes: 0, objects: 0 });
+
+    if (this.coordinator) {
+      await this.coordinator.resetUsage(manifest);
+    } else {
+      await this.index.saveManifest(manifest);
     }
+  }
 
-    // 2. 读取 BUCKETS_CONFIG_PART_LIST 并获取对应变量的值
-    if (env.BUCKETS_CONFIG_PART_LIST) {
-      const partNames = env.BUCKETS_CONFIG_PART_LIST.split(',')
-        .map(name => name.trim())
-        .filter(name => name.length > 0);
+  // === 业务逻辑 (基于索引) ===
+
+  // 定位文件 (升级后首轮对账完成前回退到旧版索引)
+  async locateFile(key: string): Promise<FileMetadata | null> {
+    return await this.index.lookup(key);
+  }
+
+  // 列出文件 (支持 prefix / delimiter / 分页)
+  // 按 Key 字典序输出，Contents 与 CommonPrefixes 合计不超过 maxKeys；
+  // options.cursor 为上一页返回的 KV 游标，可跳过已列出的部分 (失效时从头扫描)；
+  // 未提供时按 marker 查找上一页保存的游标，找不到才从头扫描
+  async aggregateList(prefix: string = '', options: ListOptions = {}): Promise<ListPage> {
+    const { delimiter, marker } = options;
+    const maxKeys = options.maxKeys ?? 1000;
+    const page: ListPage = { contents: [], commonPrefixes: [], isTruncated: false };
+    if (maxKeys <= 0) return page;
+
+    // marker 本身是一个 CommonPrefix 时 (上一页以它结尾)，跳过其下的所有 Key
+    const markerPrefix = marker !== undefined ? this.commonPrefixOf(marker, prefix, delimiter) : undefined;
+    const skipPrefix = markerPrefix === marker ? markerPrefix : undefined;
+
+    let lastPrefix: string | undefined = undefined;
+    let count = 0;
+
+    // 输出一项；本页已满时返回 false
+    const emit = (entry: IndexEntry): boolean => {
+      if (marker !== undefined && compareKeys(entry.key, marker) <= 0) return true;
+      if (skipPrefix !== undefined && entry.key.startsWith(skipPrefix)) return true;
+
+      // 同一 CommonPrefix 下的 Key 在字典序中是连续的，只输出一次
+      const common = this.commonPrefixOf(entry.key, prefix, delimiter);
+      if (common !== undefined && common === lastPrefix) return true;
+
+      if (count >= maxKeys) {
+        page.isTruncated = true;
+        return false;
+      }
+      count++;
+
+      if (common !== undefined) {
+        page.commonPrefixes.push(common);
+        lastPrefix = common;
+        page.nextMarker = common;
+      } else {
+        page.contents.push({
+          Key: entry.key,
+          LastModified: new Date(entry.lastModified),
+          ETag: entry.etag,
+          Size: entry.size,
+          StorageClass: 'STANDARD'
+        });
+        page.nextMarker = entry.key;
+      }
+      return true;
+    };
+
+    // 升级后首轮对账完成前：与旧版索引合并输出 (不返回 KV 游标)
+    const legacy = await this.index.legacyEntries(prefix);
+    if (legacy) {
+      for await (const entry of this.mergeLegacy(this.index.list(prefix), legacy)) {
+        if (!emit(entry)) break;
+      }
+      return page;
+    }
 
-      for (const name of partNames) {
-        const partValue = env[name]; // 动态读取环境变量
-        if (partValue && typeof partValue === 'string') {
-          configSegments.push(partValue);
+    const initialCursor = options.cursor ?? (marker !== undefined ? await this.index.getListCursor(prefix, marker) : undefined);
+    let cursor = initialCursor;
+    while (true) {
+      let result: { entries: IndexEntry[]; cursor?: string };
+      try {
+        result = await this.index.listPage(prefix, cursor);
+      } catch (e) {
+        if (cursor === undefined || cursor !== initialCursor) throw e;
+        console.warn('List cursor rejected, rescanning from start:', e);
+        cursor = undefined;
+        continue;
+      }
+
+      for (const entry of result.entries) {
+        if (!emit(entry)) {
+          page.cursor = cursor;
+          if (options.keepCursor && cursor && page.nextMarker !== undefined) {
+            await this.index.saveListCursor(prefix, page.nextMarker, cursor);
+          }
+          return page;
         }
       }
+
+      if (!result.cursor) return page;
+      cursor = result.cursor;
     }
+  }
 
-    // 3. 拼接所有片段并解析
-    const combinedConfigStr = configSegments.join('|');
-    const allConfigs = parseBucketsConfig(combinedConfigStr);
+  // 按 Key 顺序合并分片索引与旧版索引，同一个 Key 以分片索引为准
+  private async *mergeLegacy(current: AsyncGenerator<IndexEntry>, legacy: IndexEntry[]): AsyncGenerator<IndexEntry> {
+    let i = 0;
+    for await (const entry of current) {
+      while (i < legacy.length && compareKeys(legacy[i].key, entry.key) < 0) yield legacy[i++];
+      if (i < legacy.length && legacy[i].key === entry.key) i++;
+      yield entry;
+    }
+    while (i < legacy.length) yield legacy[i++];
+  }
 
-    // 4. 按 bucket_name 去重且保持顺序
-    this.configs = this.deduplicateConfigs(allConfigs);
+  // Key 在 prefix 之后包含 delimiter 时，返回其所属的 CommonPrefix (例如 "folder/")
+  private commonPrefixOf(key: string, prefix: string, delimiter?: string): string | undefined {
+    if (!delimiter || !key.startsWith(prefix)) return undefined;
+    const relativePath = key.substring(prefix.length);
+    const dIndex = relativePath.indexOf(delimiter);
+    if (dIndex < 0) return undefined;
+    return prefix + relativePath.substring(0, dIndex + delimiter.length);
+  }
 
-    // 5. 初始化 S3 客户端
-    this.clients = new Map();
-    this.xmlParser = new XMLParser({
-      ignoreAttributes: false,
-      attributeNamePrefix: "@_"
-    });
+  // 获取各桶占用大小 (来自清单计数)
+  async getBucketsUsage(): Promise<Record<string, number>> {
+    const stats = await this.getBucketsUsageStats();
+    const usage: Record<string, number> = {};
+    
+    this.configs.forEach(c => usage[c.name] = stats[c.name].bytes);
+    return usage;
+  }
 
-    this.configs.forEach(cfg => {
-      const client = new AwsClient({
-        accessKeyId: cfg.accessKeyId,
-        secretAccessKey: cfg.secretAccessKey,
-        service: 's3',
-        region: cfg.region,
-      });
-      this.clients.set(cfg.name, client);
-    });
+  // 各桶的字节数与对象数
+  async getBucketsUsageStats(): Promise<Record<string, BucketUsage>> {
+    // 绑定协调器时以其计数为准 (强一致)，否则读取 KV 清单与用量增量
+    const buckets = this.coordinator
+      ? await this.coordinator.getUsage()
+      : await this.index.getUsage();
+    const stats: Record<string, BucketUsage> = {};
+    this.configs.forEach(c => stats[c.name] = buckets[c.name] || { bytes: 0, objects: 0 });
+    return stats;
   }
 
-  /**
-   * 辅助方法：按桶名去重并保留首次出现的顺序
-   */
-  private deduplicateConfigs(configs: BucketConfig[]): BucketConfig[] {
-    const seenNames = new Set<string>();
-    return configs.filter(cfg => {
-      if (seenNames.has(cfg.name)) {
-        return false;
-      }
-      seenNames.add(cfg.name);
-      return true;
-    });
+  // 副本数 (REPLICATION_FACTOR，默认 1)
+  getReplicationFactor(): number {
+    const factor = parseInt(this.env.REPLICATION_FACTOR || '') || 1;
+    return Math.max(1, Math.min(factor, this.configs.length));
   }
 
-  // === 索引核心逻辑 ===
+  // 选桶策略 (基于清单中的用量计数，仅预览，不预留容量)
+  async selectBucketForUpload(fileSize: number): Promise<string | null> {
+    const buckets = await this.selectBucketsForUpload(fileSize);
+    return buckets ? buckets[0] : null;
+  }
+
+  // 多副本时选出每个副本的目标桶 (跳过熔断中的桶)
+  async selectBucketsForUpload(fileSize: number): Promise<string[] | null> {
+    const bucketUsage = await this.getBucketsUsage();
+    const available = await this.getAvailableBuckets();
+    const candidates: Record<string, number> = {};
+    available.forEach(name => candidates[name] = bucketUsage[name] || 0);
+    return pickUploadBuckets(candidates, fileSize, this.env, this.getReplicationFactor());
+  }
 
-  // 加载索引 (内存 -> KV -> 重建)
-  private async loadIndex(forceRebuild = false): Promise<ClusterIndex> {
-    if (this.inMemoryIndex && !forceRebuild) return this.inMemoryIndex;
+  // 选桶并预留容量：绑定协调器时由其串行决策，避免并发上传超额写入同一个桶
+  async reserveBucketsForUpload(fileSize: number): Promise<UploadTarget | null> {
+    if (!this.coordinator) {
+      const buckets = await this.selectBucketsForUpload(fileSize);
+      return buckets ? { buckets } : null;
+    }
+    const available = await this.getAvailableBuckets();
+    return await this.coordinator.reserve(fileSize, this.getReplicationFactor(), available);
+  }
 
-    // 尝试从 KV 读取
-    if (!forceRebuild) {
-      const stored = await this.env.BUCKET_STATE_KV.get(this.KV_KEY, 'json');
-      if (stored) {
-        this.inMemoryIndex = stored as ClusterIndex;
-        return this.inMemoryIndex;
+  // === 桶模式 ===
+
+  async getBucketModes(): Promise<Record<string, BucketMode>> {
+    const stored = (await this.env.BUCKET_STATE_KV.get<Record<string, BucketMode>>(this.MODES_KEY, 'json')) || {};
+    const modes: Record<string, BucketMode> = {};
+    this.configs.forEach(c => modes[c.name] = stored[c.name] || 'active');
+    return modes;
+  }
+
+  async setBucketMode(bucketName: string, mode: BucketMode) {
+    if (!this.configs.some(c => c.name === bucketName)) throw new S3Error('InvalidArgument', `Bucket ${bucketName} not found`);
+    const modes = await this.getBucketModes();
+    modes[bucketName] = mode;
+    await this.env.BUCKET_STATE_KV.put(this.MODES_KEY, JSON.stringify(modes));
+  }
+
+  // 允许写入的桶 (active 模式，且未在配置中标记为只读)
+  async getWritableBuckets(): Promise<string[]> {
+    const modes = await this.getBucketModes();
+    return this.configs.filter(c => c.writable && modes[c.name] === 'active').map(c => c.name);
+  }
+
+  // === 健康检查 ===
+
+  // 可接收新上传的桶：仅 active 模式，且跳过熔断中的桶 (熔断冷却结束的桶会先探测一次)
+  async getAvailableBuckets(): Promise<string[]> {
+    const writable = await this.getWritableBuckets();
+    if (writable.length === 0) return [];
+    return await this.health.filterAvailable(writable, name => this.probeBucket(name));
+  }
+
+  // 各桶健康状态
+  async getBucketsHealth(): Promise<BucketHealth[]> {
+    return await this.health.getAll(this.getBucketNames());
+  }
+
+  // 半开探测：列出桶中的一个对象
+  private async probeBucket(bucketName: string): Promise<boolean> {
+    const backend = this.backends.get(bucketName);
+    if (!backend) return false;
+    return await backend.probe();
+  }
+
+  // 执行一次后端请求并记录结果：5xx、超时与网络错误计为失败，4xx 属于请求本身的问题不计入
+  // 请求返回 Response 时按状态码判断，抛出 S3Error 时按其 HTTP 状态判断；operation 用于运行统计
+  private async tracked<T>(bucketName: string, operation: string, request: () => Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+      const res = await request();
+      const status = res instanceof Response ? res.status : 200;
+      this.metrics.recordBackendRequest(bucketName, operation, status, Date.now() - start);
+      if (res instanceof Response && res.status >= 500) {
+        this.health.recordFailure(bucketName, Date.now() - start, `HTTP ${res.status} ${res.statusText}`);
+      } else {
+        this.health.recordSuccess(bucketName, Date.now() - start);
       }
+      return res;
+    } catch (e) {
+      this.metrics.recordBackendRequest(bucketName, operation, e instanceof S3Error ? e.status : 'error', Date.now() - start);
+      if (e instanceof S3Error && e.status < 500) {
+        this.health.recordSuccess(bucketName, Date.now() - start);
+        throw e;
+      }
+      const reason = e instanceof Error ? `${e.name}: ${e.message}` : String(e);
+      this.health.recordFailure(bucketName, Date.now() - start, reason);
+      throw e;
     }
+  }
 
-    // 如果 KV 没有或强制重建
-    console.log('Index missing or rebuild requested, rebuilding...');
-    return await this.rebuildIndex();
+  // 释放未使用的容量预留
+  async releaseReservation(reservationId?: string) {
+    if (this.coordinator && reservationId) {
+      await this.coordinator.release(reservationId);
+    }
   }
 
-  // 保存索引到 KV
-  private async saveIndex(index: ClusterIndex) {
-    this.inMemoryIndex = index;
-    await this.env.BUCKET_STATE_KV.put(this.KV_KEY, JSON.stringify(index), {
-      expirationTtl: this.KV_TTL
-    });
+  // 写入索引变更：优先交给协调器串行执行，否则直接写 KV
+  // 返回因前置条件 (IndexChange.expected) 不满足而未写入的变更
+  async applyIndexChanges(changes: IndexChange[], reservationId?: string): Promise<IndexChange[]> {
+    const conflicts = this.coordinator
+      ? await this.coordinator.applyChanges(changes, reservationId)
+      : await this.index.apply(changes);
+    const rejected = new Set(conflicts.map(c => c.key));
+    await this.index.forgetLegacy(changes.filter(c => !c.meta && !rejected.has(c.key)).map(c => c.key));
+    return conflicts;
   }
 
-  // 重建索引：遍历所有桶的所有文件
-  async rebuildIndex(): Promise<ClusterIndex> {
-    const newIndex: ClusterIndex = {};
-    
-    // 并发处理每个桶
-    const promises = this.configs.map(async (cfg) => {
-      const client = this.clients.get(cfg.name)!;
-      let keyMarker: string | undefined = undefined;
-      let versionIdMarker: string | undefined = undefined;
-      
-      do {
-        try {
-          // 修改：使用 ?versions 接口以获取 VersionId
-          const query = new URLSearchParams({ 'versions': '' }); 
-          if (keyMarker) query.set('key-marker', keyMarker);
-          if (versionIdMarker) query.set('version-id-marker', versionIdMarker);
-
-          const url = `${cfg.endpoint.replace(/\/$/, '')}/${cfg.name}/?${query.toString()}`;
-          const res = await client.fetch(url, { method: 'GET' });
-          if (!res.ok) {
-            console.error(`Failed to list bucket versions ${cfg.name}: ${res.status}`);
-            break;
-          }
+  // === 操作逻辑 (需要同步更新索引) ===
 
-          const xmlText = await res.text();
-          const parsed = this.xmlParser.parse(xmlText);
-          const result = parsed.ListVersionsResult;
-
-          if (result && result.Version) {
-            const versions = Array.isArray(result.Version) ? result.Version : [result.Version];
-            for (const v of versions) {
-              // 仅记录当前最新的非删除标记版本
-              if (v.IsLatest === 'true' || v.IsLatest === true) {
-                newIndex[v.Key] = {
-                  bucket: cfg.name,
-                  size: parseInt(v.Size),
-                  lastModified: new Date(v.LastModified).getTime(),
-                  etag: v.ETag,
-                  versionId: v.VersionId // 记录版本 ID
-                };
-              }
-            }
-          }
+  // 下载
+  async getObject(bucketName: string, key: string, range?: string): Promise<Response> {
+    const backend = this.getBackend(bucketName);
+    const res = await this.tracked(bucketName, 'get', () => backend.get(key, { range }));
+    if (!res.ok) return new Response(res.body, { status: res.status, statusText: res.statusText, headers: res.headers });
+    this.metrics.recordDownload(bucketName, parseInt(res.headers.get('Content-Length') || '0'));
 
-          // 检查分页
-          if (result && result.IsTruncated === 'true') {
-            keyMarker = result.NextKeyMarker;
-            versionIdMarker = result.NextVersionIdMarker;
-          } else {
-            keyMarker = undefined;
-          }
+    const etag = (res.headers.get('ETag') || '').replace(/"/g, '');
+    return this.resumable(res, key, { bucket: bucketName, etag });
+  }
 
-        } catch (e) {
-          console.error(`Error listing bucket ${cfg.name}:`, e);
-          break;
+  // 响应体中途断开时向同一副本按 Range + If-Match (副本的 ETag) 请求剩余部分并拼接
+  // 没有 Content-Length 或 DOWNLOAD_RESUME_RETRIES 为 0 时原样返回
+  private resumable(res: Response, key: string, replica: ReplicaInfo): Response {
+    const retries = parseInt(this.env.DOWNLOAD_RESUME_RETRIES || '');
+    const length = parseInt(res.headers.get('Content-Length') || '');
+    const init = { status: res.status, statusText: res.statusText, headers: res.headers };
+    if (!res.body || isNaN(length) || retries === 0) return new Response(res.body, init);
+
+    // 206 的起止位置取自 Content-Range，续传请求不超出原区间
+    const contentRange = res.headers.get('Content-Range')?.match(/^bytes (\d+)-(\d+)\//);
+    const start = res.status === 206 && contentRange ? parseInt(contentRange[1]) : 0;
+    const end = start + length - 1;
+    const timeoutMs = parseInt(this.env.DOWNLOAD_ATTEMPT_TIMEOUT_MS || '') || 30000;
+    const backend = this.getBackend(replica.bucket);
+
+    const body = resumableStream(res.body, {
+      start,
+      length,
+      retries: isNaN(retries) ? 3 : retries,
+      timeoutMs,
+      resume: async offset => {
+        const resumed = await this.tracked(replica.bucket, 'get', () => backend.get(key, {
+          range: `bytes=${offset}-${end}`,
+          versionId: replica.versionId,
+          ifMatch: replica.etag || undefined,
+          timeoutMs
+        }));
+        if (resumed.status !== 206 || !resumed.body) {
+          throw S3Error.fromBackend(resumed.status, await resumed.text(), 'Resume download');
         }
-      } while (keyMarker);
+        this.metrics.recordDownload(replica.bucket, end - offset + 1);
+        return resumed.body;
+      }
     });
+    return new Response(body.pipeThrough(new FixedLengthStream(length)), init);
+  }
 
-    await Promise.all(promises);
-    
-    // 保存并返回
-    await this.saveIndex(newIndex);
-    return newIndex;
+  // 读取对象头信息 (迁移校验用)
+  async headObject(bucketName: string, key: string, versionId?: string): Promise<Response> {
+    const backend = this.getBackend(bucketName);
+    return await this.tracked(bucketName, 'head', () => backend.head(key, versionId));
   }
 
-  // 清除索引 (用于 API 手动清除)
-  async clearIndex() {
-    await this.env.BUCKET_STATE_KV.delete(this.KV_KEY);
-    this.inMemoryIndex = null;
+  // 补全索引中缺失的对象元数据 (旧记录或对账新增的记录)：依次 HEAD 各副本
+  async fetchObjectMetadata(key: string, meta: FileMetadata): Promise<FileMetadata | null> {
+    for (const replica of replicasOf(meta)) {
+      try {
+        const res = await this.headObject(replica.bucket, key, replica.versionId);
+        if (!res.ok) continue;
+        return { ...meta, ...this.uploadMetadata(res.headers) };
+      } catch (e) {
+        console.warn(`Failed to fetch metadata of ${key} from ${replica.bucket}:`, e);
+      }
+    }
+    return null;
   }
 
-  // === 业务逻辑 (基于索引) ===
+  // 写回补全的元数据；期间文件已被覆盖或删除时放弃
+  async saveObjectMetadata(key: string, meta: FileMetadata) {
+    const current = await this.locateFile(key);
+    if (!current || current.etag !== meta.etag || current.lastModified !== meta.lastModified) return;
+    await this.applyIndexChanges([{ key, meta: { ...current, ...pickObjectMetadata(meta) } }]);
+  }
 
-  // 定位文件
-  async locateFile(key: string): Promise<FileMetadata | null> {
-    const index = await this.loadIndex();
-    const meta = index[key];
-    return meta || null;
+  // 按副本顺序下载：遇到 5xx、超时、404 或网络错误时切换到下一个副本
+  // 返回实际响应的副本所在桶，全部失败时返回最后一个副本的响应
+  async getObjectWithFailover(key: string, meta: FileMetadata, range?: string): Promise<{ response: Response; bucket: string }> {
+    // 健康的副本优先
+    const all = replicasOf(meta);
+    const order = await this.health.orderForRead(all.map(r => r.bucket));
+    const replicas = order.map(b => all.find(r => r.bucket === b)!);
+    const timeoutMs = parseInt(this.env.REPLICA_TIMEOUT_MS || '') || 10000;
+
+    let lastError: unknown = null;
+    for (let i = 0; i < replicas.length; i++) {
+      const replica = replicas[i];
+      const isLast = i === replicas.length - 1;
+      try {
+        const backend = this.getBackend(replica.bucket);
+        const res = await this.tracked(replica.bucket, 'get', () => backend.get(key, { range, versionId: replica.versionId, timeoutMs }));
+        if ((res.status >= 500 || res.status === 404) && !isLast) {
+          console.warn(`Replica ${replica.bucket} returned ${res.status} for ${key}, failing over`);
+          continue;
+        }
+        if (!res.ok) {
+          return {
+            response: new Response(res.body, { status: res.status, statusText: res.statusText, headers: res.headers }),
+            bucket: replica.bucket
+          };
+        }
+        this.metrics.recordDownload(replica.bucket, parseInt(res.headers.get('Content-Length') || '0'));
+        return { response: this.resumable(res, key, replica), bucket: replica.bucket };
+      } catch (e) {
+        console.warn(`Replica ${replica.bucket} failed for ${key}:`, e);
+        lastError = e;
+      }
+    }
+    const reason = lastError instanceof Error ? lastError.message : 'no replica responded';
+    throw new S3Error('ServiceUnavailable', `All replicas failed for ${key}: ${reason}`);
   }
 
-  // 列出文件 (支持 prefix 和 delimiter)
-  async aggregateList(prefix: string = '', delimiter?: string): Promise<{ contents: any[], commonPrefixes: string[] }> {
-    const index = await this.loadIndex();
-    
-    const contents: any[] = [];
-    const commonPrefixes = new Set<string>();
-
-    for (const [key, meta] of Object.entries(index)) {
-      // 1. 检查前缀
-      if (!key.startsWith(prefix)) continue;
-
-      // 2. 处理分级逻辑
-      const relativePath = key.substring(prefix.length);
-      
-      if (delimiter && relativePath.includes(delimiter)) {
-        // 如果包含分隔符，提取 CommonPrefix (例如 "folder/")
-        const dIndex = relativePath.indexOf(delimiter);
-        const subFolder = prefix + relativePath.substring(0, dIndex + delimiter.length);
-        commonPrefixes.add(subFolder);
+  // 上传到单个桶，返回该副本的位置
+  private async putReplica(bucketName: string, key: string, body: ReadableStream | null, putHeaders: Record<string, string>): Promise<ReplicaInfo> {
+    const backend = this.getBackend(bucketName);
+    const replica = await this.tracked(bucketName, 'put', () => backend.put(key, body, putHeaders));
+    this.metrics.recordUpload(bucketName, parseInt(putHeaders['Content-Length'] || '0'));
+    return replica;
+  }
+
+  // 上传：同时写入所有副本桶 (首个为主副本)，任一失败则回滚已写入的副本
+  // Content-Type、标准对象头与 x-amz-meta-* 一并写入后端并记录到索引
+  async putObject(buckets: string[], key: string, body: ReadableStream | null, headers: Headers, reservationId?: string): Promise<FileMetadata> {
+    const objectMeta = this.uploadMetadata(headers);
+    const putHeaders = metadataToHeaders(objectMeta);
+    const length = headers.get('Content-Length');
+    if (length) putHeaders['Content-Length'] = length;
+
+    // 请求体只能读取一次，多副本时逐级 tee 分流
+    const bodies: (ReadableStream | null)[] = [];
+    let rest = body;
+    for (let i = 0; i < buckets.length; i++) {
+      if (rest && i < buckets.length - 1) {
+        const [current, next] = rest.tee();
+        bodies.push(current);
+        rest = next;
       } else {
-        // 直接文件或未指定分隔符
-        contents.push({
-          Key: key,
-          LastModified: new Date(meta.lastModified),
-          ETag: meta.etag,
-          Size: meta.size,
-          StorageClass: 'STANDARD'
-        });
+        bodies.push(rest);
       }
     }
 
-    // 排序内容 (按最后修改时间降序)
-    contents.sort((a, b) => b.LastModified.getTime() - a.LastModified.getTime());
-    
-    // 返回内容和去重后的前缀（排序后）
-    return {
-      contents,
-      commonPrefixes: Array.from(commonPrefixes).sort()
+    const results = await Promise.allSettled(buckets.map((b, i) => this.putReplica(b, key, bodies[i], putHeaders)));
+    const replicas = await this.settleReplicas(results, key, reservationId);
+    const existing = await this.locateFile(key);
+
+    const meta: FileMetadata = {
+      bucket: replicas[0].bucket,
+      size: length ? parseInt(length) : 0,
+      lastModified: Date.now(),
+      etag: replicas[0].etag,
+      versionId: replicas[0].versionId, // 存储版本 ID
+      replicas: replicas.length > 1 ? replicas : undefined,
+      ...objectMeta
     };
+    await this.applyIndexChanges([{ key, meta }], reservationId);
+    await this.supersede(key, meta, existing);
+    return meta;
   }
 
-  // 获取各桶占用大小
-  async getBucketsUsage(): Promise<Record<string, number>> {
-    const index = await this.loadIndex();
-    const usage: Record<string, number> = {};
-    
-    // 初始化
-    this.configs.forEach(c => usage[c.name] = 0);
+  // 汇总各副本的写入结果：任一失败则回滚已写入的副本并释放预留
+  // keep 返回 true 的副本不回滚 (例如原地复制时覆盖的就是源文件本身)
+  private async settleReplicas(
+    results: PromiseSettledResult<ReplicaInfo>[],
+    key: string,
+    reservationId?: string,
+    keep: (replica: ReplicaInfo) => boolean = () => false
+  ): Promise<ReplicaInfo[]> {
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    const replicas = results
+      .filter((r): r is PromiseFulfilledResult<ReplicaInfo> => r.status === 'fulfilled')
+      .map(r => r.value);
 
-    // 统计
-    for (const meta of Object.values(index)) {
-      if (usage.hasOwnProperty(meta.bucket)) {
-        usage[meta.bucket] += meta.size;
-      }
+    if (failed) {
+      // 回滚失败的副本只记录日志，返回原始的写入错误
+      const rollbacks = await Promise.allSettled(replicas.filter(r => !keep(r)).map(r => this.deleteObject(r.bucket, key, r.versionId, false)));
+      rollbacks.forEach(r => { if (r.status === 'rejected') console.error(`Failed to roll back replica of ${key}:`, r.reason); });
+      await this.releaseReservation(reservationId);
+      throw failed.reason;
     }
-    return usage;
+    return replicas;
   }
 
-  // 选桶策略 (基于索引实时计算使用量)
-  async selectBucketForUpload(fileSize: number): Promise<string | null> {
-    const index = await this.loadIndex();
-    const maxBytes = (parseFloat(this.env.MAX_BUCKET_SIZE_GB) || 10) * 1024 * 1024 * 1024;
+  // 新版本写入索引后处理被覆盖的版本 (existing 为写入前的索引记录)：
+  // 开启版本控制时转为历史版本 (只保留后端仍可读取的副本)，否则物理删除不再被引用的副本
+  // 在索引更新之后执行，上传或写入失败时旧版本保持不变
+  private async supersede(key: string, meta: FileMetadata, existing: FileMetadata | null) {
+    if (!existing) return;
+    if (!this.isVersioningEnabled()) {
+      await this.removeStaleReplicas(key, meta, existing);
+      return;
+    }
+    // 不保留版本的后端 (R2) 中被新版本覆盖的副本已不存在
+    const written = replicasOf(meta).map(r => r.bucket);
+    await this.archive(key, existing, r => this.keepsVersions(r.bucket) || !written.includes(r.bucket));
+  }
+
+  // 覆盖同名文件后，物理删除旧版本中不再被引用的副本
+  // 新版本已写入索引，删除失败只记录日志，残留的副本由对账报告 (duplicated) 体现
+  private async removeStaleReplicas(key: string, meta: FileMetadata, existing: FileMetadata) {
+    const current = replicasOf(meta);
+    const stale = replicasOf(existing).filter(r => !current.some(c => c.bucket === r.bucket && c.versionId === r.versionId));
+    const results = await Promise.allSettled(stale.map(r => this.deleteObject(r.bucket, key, r.versionId, false)));
+    results.forEach(r => { if (r.status === 'rejected') console.error(`Failed to remove stale replica of ${key}:`, r.reason); });
+  }
+
+  // 删除单个桶中的对象 (增加 updateKV 参数，默认为 true)
+  async deleteObject(bucketName: string, key: string, versionId?: string, updateKV = true) {
+    const backend = this.backends.get(bucketName);
+    if (!backend) return;
     
-    const bucketUsage = new Map<string, number>();
-    this.configs.forEach(c => bucketUsage.set(c.name, 0));
+    // 带上 VersionID 以只删除该副本对应的版本；后端已不存在 (404) 视为删除成功，其他错误时保留索引
+    const res = await this.tracked(bucketName, 'delete', () => backend.delete(key, versionId));
+    if (!res.ok && res.status !== 404) throw S3Error.fromBackend(res.status, await res.text(), 'Delete object');
 
-    for (const meta of Object.values(index)) {
-      const current = bucketUsage.get(meta.bucket) || 0;
-      bucketUsage.set(meta.bucket, current + meta.size);
+    if (updateKV) {
+      await this.applyIndexChanges([{ key, meta: null }]);
     }
+  }
 
-    const strategy = this.env.UPLOAD_STRATEGY || 'fill-first';
-    const usageList = Array.from(bucketUsage.entries()).map(([name, usage]) => ({ name, usage }));
+  // 批量删除 (DeleteObjects)：按副本所在桶分组，每个桶发起一次后端批量删除，最后一次性更新索引
+  // 某个 Key 的任一副本删除失败时，该 Key 记为失败且保留索引 (读取时会切换到仍存在的副本)
+  async deleteObjects(keys: string[]): Promise<{ deleted: string[]; errors: DeleteError[] }> {
+    const unique = Array.from(new Set(keys));
+    const located = await this.index.getMany(unique);
 
-    if (strategy === 'balanced') {
-      usageList.sort((a, b) => a.usage - b.usage);
+    // 桶 -> 该桶中需要删除的副本
+    const groups = new Map<string, { key: string; versionId?: string }[]>();
+    for (const [key, meta] of located) {
+      if (!meta) continue;
+      for (const r of replicasOf(meta)) {
+        const group = groups.get(r.bucket) || [];
+        group.push({ key, versionId: r.versionId });
+        groups.set(r.bucket, group);
+      }
     }
 
-    const candidate = usageList.find(u => u.usage + fileSize < maxBytes);
+    const failures = new Map<string, DeleteError>();
+    await Promise.all(Array.from(groups.entries()).map(async ([bucketName, items]) => {
+      const errors = await this.deleteBatch(bucketName, items);
+      errors.forEach(e => failures.set(e.key, e));
+    }));
 
-    if (!candidate) {
-      console.warn('All buckets full for the given file size');
-      return null;
+    // 不存在的 Key 与 S3 一致视为删除成功
+    const deleted = unique.filter(key => !failures.has(key));
+    const changes: IndexChange[] = deleted.filter(key => located.get(key)).map(key => ({ key, meta: null }));
+    if (changes.length > 0) {
+      await this.applyIndexChanges(changes);
     }
-    
-    return candidate.name;
+    return { deleted, errors: Array.from(failures.values()) };
   }
 
-  // === 操作逻辑 (需要同步更新索引) ===
+  // 单个桶的后端批量删除 (每次最多 1000 个对象)，返回失败的 Key
+  private async deleteBatch(bucketName: string, items: { key: string; versionId?: string }[]): Promise<DeleteError[]> {
+    const backend = this.backends.get(bucketName);
+    if (!backend) return items.map(i => ({ key: i.key, code: 'InternalError', message: `Bucket ${bucketName} not found` }));
+    const errors: DeleteError[] = [];
 
-  private buildUrl(bucketName: string, key: string, versionId?: string): string {
-    const cfg = this.configs.find(c => c.name === bucketName);
-    if (!cfg) throw new Error(`Bucket ${bucketName} not found`);
-    let url = `${cfg.endpoint.replace(/\/$/, '')}/${bucketName}/${key.replace(/^\//, '')}`;
-    // 如果提供了 versionId，附加到 URL 参数中以执行永久删除
-    if (versionId) {
-      url += `?versionId=${versionId}`;
+    for (let i = 0; i < items.length; i += 1000) {
+      const chunk = items.slice(i, i + 1000);
+      try {
+        errors.push(...await this.tracked(bucketName, 'delete_many', () => backend.deleteMany(chunk)));
+      } catch (e: unknown) {
+        const code = e instanceof S3Error ? e.code : 'InternalError';
+        const message = e instanceof Error ? e.message : String(e);
+        chunk.forEach(item => errors.push({ key: item.key, code, message }));
+      }
     }
-    return url;
+    return errors;
   }
 
-  // 下载
-  async getObject(bucketName: string, key: string, range?: string): Promise<Response> {
-    const client = this.clients.get(bucketName);
-    if (!client) throw new Error('Bucket client not found');
+  // 删除文件的全部副本 (任一副本删除失败时抛出，索引保持不变)
+  async removeObject(key: string, meta: FileMetadata, updateKV = true) {
+    await Promise.all(replicasOf(meta).map(r => this.deleteObject(r.bucket, key, r.versionId, false)));
+    if (updateKV) {
+      await this.applyIndexChanges([{ key, meta: null }]);
+    }
+  }
 
-    const url = this.buildUrl(bucketName, key);
-    const headers: Record<string, string> = {};
-    if (range) headers['Range'] = range;
+  // 将文件复制到另一个桶 (跨账号无法使用原生复制，经 Worker 流式中转)
+  // 元数据以源副本在后端保存的为准
+  async replicateTo(bucketName: string, key: string, source: FileMetadata): Promise<ReplicaInfo> {
+    const { response } = await this.getObjectWithFailover(key, source);
+    if (!response.ok) {
+      throw S3Error.fromBackend(response.status, await response.text(), 'Replication source');
+    }
+    const putHeaders = metadataToHeaders(metadataFromHeaders(response.headers));
+    putHeaders['Content-Length'] = source.size.toString();
+    return await this.putReplica(bucketName, key, response.body, putHeaders);
+  }
 
-    const res = await client.fetch(url, { method: 'GET', headers });
-    
-    return new Response(res.body, {
-      status: res.status,
-      statusText: res.statusText,
-      headers: res.headers
+  // === 服务端复制 (CopyObject) ===
+
+  // 复制的目标桶：优先使用源文件副本所在的桶 (可使用原生复制)，数量或容量不足时按常规策略选桶
+  async reserveBucketsForCopy(source: FileMetadata): Promise<UploadTarget | null> {
+    const factor = this.getReplicationFactor();
+    const available = await this.getAvailableBuckets();
+    const usage = await this.getBucketsUsage();
+
+    const local: Record<string, number> = {};
+    replicasOf(source)
+      .filter(r => available.includes(r.bucket))
+      .forEach(r => local[r.bucket] = usage[r.bucket] || 0);
+    const buckets = Object.keys(local).length >= factor ? pickUploadBuckets(local, source.size, this.env, factor) : null;
+    if (buckets) return { buckets };
+
+    return await this.reserveBucketsForUpload(source.size);
+  }
+
+  // 复制文件到 destKey：目标桶中有源文件副本且后端支持时使用原生复制，否则经 Worker 流式中转
+  // x-amz-metadata-directive 为 REPLACE 时使用请求中的元数据，否则沿用源文件的元数据
+  async copyObject(sourceKey: string, source: FileMetadata, destKey: string, target: UploadTarget, headers: Headers): Promise<FileMetadata> {
+    const directive = (headers.get('x-amz-metadata-directive') || 'COPY').toUpperCase() === 'REPLACE' ? 'REPLACE' : 'COPY';
+    const objectMeta = directive === 'REPLACE' ? this.uploadMetadata(headers) : pickObjectMetadata(source);
+    const metaHeaders = metadataToHeaders(objectMeta);
+    const sourceReplicas = replicasOf(source);
+
+    const results = await Promise.allSettled(target.buckets.map(bucketName => {
+      const local = sourceReplicas.find(r => r.bucket === bucketName);
+      return local
+        ? this.copyReplica(bucketName, destKey, sourceKey, source, local, directive, metaHeaders)
+        : this.streamCopyReplica(bucketName, destKey, sourceKey, source, directive, metaHeaders);
+    }));
+    // 原地复制 (仅修改元数据) 时新副本就是源文件，不能回滚删除
+    const replicas = await this.settleReplicas(results, destKey, target.reservationId, () => destKey === sourceKey);
+    const existing = await this.locateFile(destKey);
+
+    const meta: FileMetadata = {
+      bucket: replicas[0].bucket,
+      size: source.size,
+      lastModified: Date.now(),
+      etag: replicas[0].etag,
+      versionId: replicas[0].versionId,
+      replicas: replicas.length > 1 ? replicas : undefined,
+      ...objectMeta
+    };
+
+    await this.applyIndexChanges([{ key: destKey, meta }], target.reservationId);
+    await this.supersede(destKey, meta, existing);
+    return meta;
+  }
+
+  // 同一物理桶内的原生复制；后端不支持时 (R2 绑定) 经 Worker 流式中转
+  private async copyReplica(
+    bucketName: string,
+    destKey: string,
+    sourceKey: string,
+    source: FileMetadata,
+    local: ReplicaInfo,
+    directive: 'COPY' | 'REPLACE',
+    metaHeaders: Record<string, string>
+  ): Promise<ReplicaInfo> {
+    const backend = this.getBackend(bucketName);
+    if (!backend.copy) {
+      return await this.streamCopyReplica(bucketName, destKey, sourceKey, source, directive, metaHeaders);
+    }
+    return await this.tracked(bucketName, 'copy', () => backend.copy!(destKey, sourceKey, local, directive, metaHeaders));
+  }
+
+  // 跨桶复制：从源文件的副本读取后写入目标桶
+  private async streamCopyReplica(
+    bucketName: string,
+    destKey: string,
+    sourceKey: string,
+    source: FileMetadata,
+    directive: 'COPY' | 'REPLACE',
+    metaHeaders: Record<string, string>
+  ): Promise<ReplicaInfo> {
+    const { response } = await this.getObjectWithFailover(sourceKey, source);
+    if (!response.ok) {
+      throw S3Error.fromBackend(response.status, await response.text(), 'Copy source');
+    }
+    const putHeaders = directive === 'REPLACE' ? { ...metaHeaders } : metadataToHeaders(metadataFromHeaders(response.headers));
+    putHeaders['Content-Length'] = source.size.toString();
+    return await this.putReplica(bucketName, destKey, response.body, putHeaders);
+  }
+
+  // 上传请求中的对象元数据 (未指定 Content-Type 时与 S3 一样记为 application/octet-stream)
+  private uploadMetadata(headers: Headers): ObjectMetadata {
+    const meta = metadataFromHeaders(headers);
+    if (!meta.contentType) meta.contentType = 'application/octet-stream';
+    return meta;
+  }
+
+  // === 分片上传 (Multipart Upload) ===
+
+  private getBackend(bucketName: string): StorageBackend {
+    const backend = this.backends.get(bucketName);
+    if (!backend) throw new Error(`Bucket ${bucketName} not found`);
+    return backend;
+  }
+
+  // 初始化分片上传：一次性选桶，并在 KV 中记录 uploadId -> 物理桶
+  async createMultipartUpload(key: string, headers: Headers, declaredSize = 0): Promise<MultipartSession | null> {
+    const target = await this.reserveBucketsForUpload(declaredSize);
+    if (!target) return null;
+    // 分片只上传到主副本，完成后再复制到其他副本桶
+    const [bucketName, ...replicaBuckets] = target.buckets;
+
+    const initHeaders = metadataToHeaders(this.uploadMetadata(headers));
+    let uploadId: string;
+    try {
+      const backend = this.getBackend(bucketName);
+      uploadId = await this.tracked(bucketName, 'create_multipart', () => backend.createMultipartUpload(key, initHeaders));
+    } catch (e) {
+      await this.releaseReservation(target.reservationId);
+      throw e;
+    }
+
+    const session: MultipartSession = {
+      bucket: bucketName,
+      replicaBuckets: replicaBuckets.length > 0 ? replicaBuckets : undefined,
+      key,
+      uploadId,
+      initiated: Date.now(),
+      declaredSize: declaredSize > 0 ? declaredSize : undefined,
+      reservationId: target.reservationId
+    };
+    // metadata 中冗余一份，ListMultipartUploads 时无需逐个读取
+    await this.env.BUCKET_STATE_KV.put(this.MPU_PREFIX + session.uploadId, JSON.stringify(session), {
+      metadata: { key, initiated: session.initiated }
     });
+    return session;
   }
 
-  // 上传
-  async putObject(bucketName: string, key: string, body: ReadableStream | null, headers: Headers) {
-    const client = this.clients.get(bucketName);
-    if (!client) throw new Error('Bucket client not found');
+  // 读取分片上传会话
+  async getMultipartSession(uploadId: string): Promise<MultipartSession | null> {
+    const stored = await this.env.BUCKET_STATE_KV.get(this.MPU_PREFIX + uploadId, 'json');
+    return (stored as MultipartSession) || null;
+  }
 
-    const url = this.buildUrl(bucketName, key);
-    const putHeaders: Record<string, string> = {};
-    if (headers.get('Content-Type')) putHeaders['Content-Type'] = headers.get('Content-Type')!;
+  // 上传单个分片，返回分片的 ETag (不含引号)
+  async uploadPart(session: MultipartSession, partNumber: number, body: ReadableStream | null, headers: Headers): Promise<string> {
+    const backend = this.getBackend(session.bucket);
+    const partHeaders: Record<string, string> = {};
     const length = headers.get('Content-Length');
-    if (length) putHeaders['Content-Length'] = length;
+    if (length) partHeaders['Content-Length'] = length;
+    const md5 = headers.get('Content-MD5');
+    if (md5) partHeaders['Content-MD5'] = md5;
 
-    const res = await client.fetch(url, {
-      method: 'PUT',
-      body: body,
-      headers: putHeaders
-    });
+    const etag = await this.tracked(session.bucket, 'upload_part', () => backend.uploadPart(session.key, session.uploadId, partNumber, body, partHeaders));
+    this.metrics.recordUpload(session.bucket, parseInt(length || '0'));
+    return etag;
+  }
 
-    if (!res.ok) {
-      const errText = await res.text();
-      throw new Error(`Upload failed: ${res.status} ${res.statusText} - ${errText}`);
+  // 从已有对象复制分片 (UploadPartCopy)
+  // 同一物理桶内使用后端原生复制；跨桶或后端不支持时经 Worker 流式中转
+  async uploadPartCopy(
+    session: MultipartSession,
+    partNumber: number,
+    sourceKey: string,
+    source: FileMetadata,
+    range?: string
+  ): Promise<{ etag: string; lastModified: Date }> {
+    const backend = this.getBackend(session.bucket);
+    // 源文件在目标桶中有副本时可直接使用原生复制
+    const local = replicasOf(source).find(r => r.bucket === session.bucket);
+
+    if (local && backend.uploadPartCopy) {
+      return await this.tracked(session.bucket, 'upload_part_copy', () => backend.uploadPartCopy!(session.key, session.uploadId, partNumber, sourceKey, local, range));
     }
 
-    const etag = res.headers.get('ETag') || 'unknown';
-    // 捕获 B2 返回的新版本 ID
-    const newVersionId = res.headers.get('x-amz-version-id') || undefined;
-    const size = length ? parseInt(length) : 0; 
-    
-    const index = await this.loadIndex();
-    index[key] = {
-      bucket: bucketName,
-      size: size,
+    // 跨桶：从源桶读取 (可带 Range)，再作为分片写入目标桶
+    const { response: sourceRes } = await this.getObjectWithFailover(sourceKey, source, range);
+    if (!sourceRes.ok) {
+      throw S3Error.fromBackend(sourceRes.status, await sourceRes.text(), 'Upload part copy source');
+    }
+    const partHeaders = new Headers();
+    const length = sourceRes.headers.get('Content-Length');
+    if (length) partHeaders.set('Content-Length', length);
+
+    return {
+      etag: await this.uploadPart(session, partNumber, sourceRes.body, partHeaders),
+      lastModified: new Date()
+    };
+  }
+
+  // 列出已上传的分片
+  async listParts(session: MultipartSession, maxParts: number, partNumberMarker: number): Promise<PartListing> {
+    const backend = this.getBackend(session.bucket);
+    if (!backend.listParts) {
+      throw new S3Error('NotImplemented', 'ListParts is not supported by the bucket holding this upload');
+    }
+    return await this.tracked(session.bucket, 'list_parts', () => backend.listParts!(session.key, session.uploadId, maxParts, partNumberMarker));
+  }
+
+  // 完成分片上传：仅在此时将最终 FileMetadata 写入索引
+  async completeMultipartUpload(session: MultipartSession, body: string): Promise<FileMetadata> {
+    const backend = this.getBackend(session.bucket);
+    const completed = await this.tracked(session.bucket, 'complete_multipart', () => backend.completeMultipartUpload(session.key, session.uploadId, body));
+
+    // Complete 响应不含对象大小，补一次 HEAD 获取 size / versionId
+    const headRes = await this.tracked(session.bucket, 'head', () => backend.head(session.key));
+    const etag = (completed.etag || headRes.headers.get('ETag') || 'unknown').replace(/"/g, '');
+    const meta: FileMetadata = {
+      bucket: session.bucket,
+      size: parseInt(headRes.headers.get('Content-Length') || '0'),
       lastModified: Date.now(),
-      etag: etag.replace(/"/g, ''), // 去除引号
-      versionId: newVersionId // 存储版本 ID
+      etag,
+      versionId: completed.versionId || headRes.headers.get('x-amz-version-id') || undefined,
+      // 初始化时写入的元数据由后端保存，从 HEAD 响应中取回
+      ...metadataFromHeaders(headRes.headers)
     };
-    await this.saveIndex(index);
-    
-    return res;
+
+    // 复制到其他副本桶 (失败时保留已完成的副本，由对账报告体现)
+    if (session.replicaBuckets && session.replicaBuckets.length > 0) {
+      const replicas: ReplicaInfo[] = [{ bucket: meta.bucket, etag: meta.etag, versionId: meta.versionId }];
+      for (const bucketName of session.replicaBuckets) {
+        try {
+          replicas.push(await this.replicateTo(bucketName, session.key, meta));
+        } catch (e) {
+          console.error(`Failed to replicate ${session.key} to ${bucketName}:`, e);
+        }
+      }
+      if (replicas.length > 1) meta.replicas = replicas;
+    }
+
+    // 覆盖同名文件时处理旧版本 (与 PUT 分支的行为保持一致)
+    const existing = await this.locateFile(session.key);
+    await this.applyIndexChanges([{ key: session.key, meta }], session.reservationId);
+    await this.supersede(session.key, meta, existing);
+    await this.env.BUCKET_STATE_KV.delete(this.MPU_PREFIX + session.uploadId);
+    return meta;
   }
 
-  // 删除 (增加 updateKV 参数，默认为 true)
-  async deleteObject(bucketName: string, key: string, versionId?: string, updateKV = true) {
-    const client = this.clients.get(bucketName);
-    if (!client) return;
-    
-    // 带上 VersionID 以执行永久删除，否则在 B2 中只会产生隐藏标记
-    const url = this.buildUrl(bucketName, key, versionId);
-    await client.fetch(url, { method: 'DELETE' });
-
-    const index = await this.loadIndex();
-    if (index[key]) {
-      delete index[key];
-      if (updateKV) {
-        await this.saveIndex(index);
+  // 取消分片上传
+  async abortMultipartUpload(session: MultipartSession) {
+    // 后端已不存在该上传时同样清理会话
+    const backend = this.getBackend(session.bucket);
+    await this.tracked(session.bucket, 'abort_multipart', () => backend.abortMultipartUpload(session.key, session.uploadId));
+    await this.releaseReservation(session.reservationId);
+    await this.env.BUCKET_STATE_KV.delete(this.MPU_PREFIX + session.uploadId);
+  }
+
+  // 列出进行中的分片上传 (来自 KV 会话记录)
+  async listMultipartUploads(prefix = ''): Promise<{ key: string; uploadId: string; initiated: Date }[]> {
+    const uploads: { key: string; uploadId: string; initiated: Date }[] = [];
+    let cursor: string | undefined = undefined;
+
+    do {
+      const page: KVNamespaceListResult<{ key: string; initiated: number }> =
+        await this.env.BUCKET_STATE_KV.list({ prefix: this.MPU_PREFIX, cursor });
+      for (const item of page.keys) {
+        if (!item.metadata || !item.metadata.key.startsWith(prefix)) continue;
+        uploads.push({
+          key: item.metadata.key,
+          uploadId: item.name.substring(this.MPU_PREFIX.length),
+          initiated: new Date(item.metadata.initiated)
+        });
       }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return uploads.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  // === 版本控制 ===
+
+  // OBJECT_VERSIONING=enabled 时覆盖 / 删除保留旧版本
+  isVersioningEnabled(): boolean {
+    return (this.env.OBJECT_VERSIONING || '').toLowerCase() === 'enabled';
+  }
+
+  private keepsVersions(bucketName: string): boolean {
+    return this.backends.get(bucketName)?.keepsVersions ?? false;
+  }
+
+  // 定位指定版本：当前版本来自索引，其余在历史版本中查找 (可能是删除标记)
+  async locateVersion(key: string, versionId: string): Promise<VersionRecord | null> {
+    const current = await this.locateFile(key);
+    if (current && versionIdOf(current) === versionId) return toVersionRecord(current);
+    const history = await this.versions.get(key);
+    return history.find(v => v.versionId === versionId) || null;
+  }
+
+  // 当前版本转为历史版本 (retain 判定各副本在后端是否仍可读取，全部不可读时不记录)，marker 为新的删除标记
+  private async archive(key: string, meta: FileMetadata | null, retain: (replica: ReplicaInfo) => boolean, marker?: VersionRecord) {
+    const kept = meta ? replicasOf(meta).filter(retain) : [];
+    const prepend = [...(marker ? [marker] : []), ...(kept.length > 0 ? [toVersionRecord(meta!, kept)] : [])];
+    if (prepend.length > 0) await this.updateVersions(key, { prepend });
+  }
+
+  // 修改历史版本：优先交给协调器串行执行，否则直接读-改-写 KV (并发时可能丢失修改，见 VersionStore)
+  private async updateVersions(key: string, change: VersionChange) {
+    if (this.coordinator) await this.coordinator.updateVersions(key, change);
+    else await this.versions.update(key, change);
+  }
+
+  // 开启版本控制时的删除 (不带 versionId)：各副本在后端删除 (B2 生成隐藏标记，旧版本仍可读取)，
+  // 当前版本转为历史版本，并记录一个删除标记作为最新版本
+  async createDeleteMarker(key: string): Promise<VersionRecord> {
+    const existing = await this.locateFile(key);
+    const physical: ReplicaInfo[] = [];
+    if (existing) {
+      await Promise.all(replicasOf(existing).map(async r => {
+        const backend = this.getBackend(r.bucket);
+        const res = await this.tracked(r.bucket, 'delete', () => backend.delete(key));
+        if (res.status >= 500) throw S3Error.fromBackend(res.status, await res.text(), 'Delete object');
+        // 后端的删除标记需在永久删除该标记时一并移除
+        const markerVersionId = res.headers.get('x-amz-version-id');
+        if (this.keepsVersions(r.bucket) && markerVersionId) physical.push({ bucket: r.bucket, etag: '', versionId: markerVersionId });
+      }));
     }
+
+    const marker: VersionRecord = {
+      bucket: physical[0]?.bucket || existing?.bucket || '',
+      size: 0,
+      lastModified: Date.now(),
+      etag: '',
+      versionId: crypto.randomUUID().replace(/-/g, ''),
+      deleteMarker: true,
+      replicas: physical.length > 0 ? physical : undefined
+    };
+    await this.archive(key, existing, r => this.keepsVersions(r.bucket), marker);
+    if (existing) await this.applyIndexChanges([{ key, meta: null }]);
+    return marker;
   }
-}
\ No newline at end of file
+
+  // DeleteObjects 中带 VersionId 的项与开启版本控制时的删除：逐个处理 (同一 Key 的多项需按顺序执行)
+  async deleteObjectVersions(objects: { key: string; versionId?: string }[]): Promise<{ deleted: DeletedVersion[]; errors: DeleteError[] }> {
+    const deleted: DeletedVersion[] = [];
+    const errors: DeleteError[] = [];
+    for (const { key, versionId } of objects) {
+      try {
+        if (versionId !== undefined) {
+          const removed = await this.deleteVersion(key, versionId);
+          deleted.push({ key, versionId, deleteMarker: removed?.deleteMarker || undefined });
+        } else if (this.isVersioningEnabled()) {
+          const marker = await this.createDeleteMarker(key);
+          deleted.push({ key, deleteMarker: true, deleteMarkerVersionId: marker.versionId });
+        } else {
+          const result = await this.deleteObjects([key]);
+          if (result.errors.length > 0) errors.push(...result.errors);
+          else deleted.push({ key });
+        }
+      } catch (e: unknown) {
+        errors.push({ key, code: e instanceof S3Error ? e.code : 'InternalError', message: e instanceof Error ? e.message : String(e) });
+      }
+    }
+    return { deleted, errors };
+  }
+
+  // 永久删除指定版本 (DELETE ?versionId=)，返回被删除的版本，不存在时返回 null
+  // 删除的是最新版本 (当前版本或作为最新版本的删除标记) 时，下一个历史版本成为当前版本
+  async deleteVersion(key: string, versionId: string): Promise<VersionRecord | null> {
+    const current = await this.locateFile(key);
+    const history = await this.versions.get(key);
+
+    let removed: VersionRecord;
+    let latest: boolean;
+    const isCurrent = current !== null && versionIdOf(current) === versionId;
+    if (isCurrent) {
+      removed = toVersionRecord(current!);
+      latest = true;
+    } else {
+      const index = history.findIndex(v => v.versionId === versionId);
+      if (index < 0) return null;
+      removed = history.splice(index, 1)[0];
+      latest = !current && index === 0 && removed.deleteMarker === true;
+    }
+
+    // 删除各副本中该版本 (或后端删除标记) 的物理数据
+    // 没有后端版本 ID 的副本 (未开启版本控制的 S3 桶) 按 Key 删除；该桶中的对象仍被其他版本引用时跳过
+    const physical = removed.deleteMarker ? removed.replicas || [] : replicasOf(removed);
+    const claimed = [...(current && !isCurrent ? [current] : []), ...history]
+      .flatMap(v => replicasOf(v).filter(r => !r.versionId).map(r => r.bucket));
+    await Promise.all(physical
+      .filter(r => r.versionId || !claimed.includes(r.bucket))
+      .map(r => this.deleteObject(r.bucket, key, r.versionId, false)));
+
+    // 下一个历史版本是删除标记时它就是最新版本，索引中不需要记录
+    const next = latest && history.length > 0 && !history[0].deleteMarker ? history.shift()! : null;
+    const remove = [...(isCurrent ? [] : [versionId]), ...(next ? [next.versionId] : [])];
+    if (remove.length > 0) await this.updateVersions(key, { remove });
+    if (latest && (current || next)) {
+      await this.applyIndexChanges([{ key, meta: next ? toFileMetadata(next) : null }]);
+    }
+    return removed;
+  }
+
+  // 恢复历史版本：复制为新的当前版本 (原当前版本按版本控制设置转为历史版本或删除)
+  async restoreVersion(key: string, versionId: string): Promise<FileMetadata> {
+    const current = await this.locateFile(key);
+    if (current && versionIdOf(current) === versionId) return current;
+    const version = await this.locateVersion(key, versionId);
+    if (!version) throw new S3Error('NoSuchVersion', 'The specified version does not exist.');
+    if (version.deleteMarker) throw new S3Error('InvalidRequest', 'A delete marker cannot be restored.');
+
+    const target = await this.reserveBucketsForCopy(version);
+    if (!target) throw new S3Error('InsufficientStorage', 'No bucket has enough space for this file.');
+    return await this.copyObject(key, version, key, target, new Headers());
+  }
+
+  // 列出版本 (ListObjectVersions)：按 Key 字典序，同一 Key 的版本从新到旧
+  // keyMarker + versionIdMarker 表示从该版本之后继续，只有 keyMarker 时从该 Key 之后继续
+  async listObjectVersions(prefix: string, options: VersionListOptions = {}): Promise<VersionListPage> {
+    const { delimiter, keyMarker, versionIdMarker } = options;
+    const maxKeys = options.maxKeys ?? 1000;
+    const page: VersionListPage = { versions: [], commonPrefixes: [], isTruncated: false };
+    if (maxKeys <= 0) return page;
+
+    const markerPrefix = keyMarker !== undefined ? this.commonPrefixOf(keyMarker, prefix, delimiter) : undefined;
+    const skipPrefix = markerPrefix === keyMarker ? markerPrefix : undefined;
+    let lastPrefix: string | undefined = undefined;
+    let count = 0;
+
+    for await (const { key, items } of this.allVersions(prefix)) {
+      if (keyMarker !== undefined) {
+        const order = compareKeys(key, keyMarker);
+        if (order < 0 || (order === 0 && versionIdMarker === undefined)) continue;
+      }
+      if (skipPrefix !== undefined && key.startsWith(skipPrefix)) continue;
+
+      const common = this.commonPrefixOf(key, prefix, delimiter);
+      if (common !== undefined) {
+        if (common === lastPrefix) continue;
+        if (count >= maxKeys) {
+          page.isTruncated = true;
+          return page;
+        }
+        count++;
+        page.commonPrefixes.push(common);
+        lastPrefix = common;
+        page.nextKeyMarker = common;
+        page.nextVersionIdMarker = undefined;
+        continue;
+      }
+
+      // 从 versionIdMarker 之后的版本继续
+      let start = 0;
+      if (keyMarker === key && versionIdMarker !== undefined) {
+        start = items.findIndex(v => v.versionId === versionIdMarker) + 1;
+      }
+      for (const item of items.slice(start)) {
+        if (count >= maxKeys) {
+          page.isTruncated = true;
+          return page;
+        }
+        count++;
+        page.versions.push(item);
+        page.nextKeyMarker = item.key;
+        page.nextVersionIdMarker = item.versionId;
+      }
+    }
+    return page;
+  }
+
+  // 按 Key 顺序合并索引 (当前版本) 与历史版本，逐个 Key 输出其全部版本
+  private async *allVersions(prefix: string): AsyncGenerator<{ key: string; items: VersionListItem[] }> {
+    const currentList = this.index.list(prefix);
+    const historyList = this.versions.list(prefix);
+    let current = await currentList.next();
+    let history = await historyList.next();
+
+    while (!current.done || !history.done) {
+      const order = current.done ? 1 : history.done ? -1 : compareKeys(current.value.key, history.value.key);
+      const entry = order <= 0 && !current.done ? current.value : undefined;
+      const record = order >= 0 && !history.done ? history.value : undefined;
+      const key = entry ? entry.key : record!.key;
+      const versions = record ? record.versions : [];
+
+      const items: VersionListItem[] = [];
+      if (entry) {
+        items.push({
+          key,
+          versionId: entry.versionId || NULL_VERSION_ID,
+          isLatest: true,
+          lastModified: new Date(entry.lastModified),
+          etag: entry.etag,
+          size: entry.size,
+          deleteMarker: false
+        });
+      }
+      versions.forEach((v, i) => items.push({
+        key,
+        versionId: v.versionId,
+        // 没有当前版本时，最新的删除标记即为最新版本
+        isLatest: !entry && i === 0 && v.deleteMarker === true,
+        lastModified: new Date(v.lastModified),
+        etag: v.etag,
+        size: v.size,
+        deleteMarker: v.deleteMarker === true
+      }));
+      yield { key, items };
+
+      if (order <= 0) current = await currentList.next();
+      if (order >= 0) history = await historyList.next();
+    }
+  }
+}
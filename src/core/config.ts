@@ -1,61 +1,297 @@
 // src/core/config.ts
+import type { IndexCoordinator } from './coordinator';
 
 export interface Env {
   // 基础配置
-  BUCKETS_CONFIG: string; // 格式: name:id:key:endpoint|...
+  BUCKETS_CONFIG: string; // JSON 数组，或旧格式 name:id:key:endpoint|...
   BUCKETS_CONFIG_PART_LIST?: string;
   VIRTUAL_ACCESS_KEY_ID: string;
   VIRTUAL_SECRET_ACCESS_KEY: string;
+  SHARE_TOKEN_SECRET?: string; // 分享 Token 签名密钥，缺省时使用 VIRTUAL_SECRET_ACCESS_KEY
+  ACCESS_KEYS?: string; // 额外的访问密钥 (JSON 数组)，每个密钥带有操作与前缀策略
   
   // S3 兼容性配置
   S3_VIRTUAL_BUCKET?: string; // 虚拟桶名称
 
   // 策略与限制
-  UPLOAD_STRATEGY: 'fill-first' | 'balanced'; // 默认 fill-first
-  MAX_BUCKET_SIZE_GB: string; // 默认 10
+  UPLOAD_STRATEGY: 'fill-first' | 'balanced' | 'weighted'; // 默认 fill-first；weighted 按各桶 weight 随机选桶
+  MAX_BUCKET_SIZE_GB: string; // 默认 10，桶配置中的 capacityGB 优先
+  REPLICATION_FACTOR?: string; // 每个文件写入的桶数，默认 1
+  REPLICA_TIMEOUT_MS?: string; // 读取单个副本等待响应头的超时，默认 10000
+  DOWNLOAD_RESUME_RETRIES?: string; // 下载中途断开时最多续传的次数，默认 3；0 表示不续传
+  DOWNLOAD_ATTEMPT_TIMEOUT_MS?: string; // 续传请求等待响应头以及每次读取等待数据的超时，默认 30000
+  HEALTH_COOLDOWN_MS?: string; // 熔断后重新探测前的冷却时间，默认 30000
+  MIGRATION_BATCH_SIZE?: string; // 桶间迁移每批处理的文件数，默认 20
+  OBJECT_VERSIONING?: string; // enabled 时开启版本控制：覆盖 / 删除保留旧版本并支持删除标记
   
+  // 索引对账 (cron)
+  RECONCILE_PAGES_PER_RUN?: string; // 每次执行每个桶最多列出的页数，默认 3 (每页最多 1000 个版本)
+  RECONCILE_MODE?: 'repair' | 'report'; // repair (默认) 自动修正索引，report 只生成报告
+
+  // 生命周期规则 (cron)
+  LIFECYCLE_PAGES_PER_RUN?: string; // 每次执行最多处理的 KV 列表页数，默认 3 (每页最多 1000 个 Key)
+  LIFECYCLE_MODE?: 'delete' | 'report'; // delete (默认) 删除到期的对象，report 只生成报告
+
+  // 运行统计
+  METRICS_FLUSH_INTERVAL_MS?: string; // 各 isolate 把统计写入 KV 的间隔，默认 60000；0 表示不记录
+  METRICS_TOKEN?: string; // 可选：允许以 Authorization: Bearer <token> 读取 /metrics (供 Prometheus 抓取)
+
   // 缓存 TTL (秒)
   // 0 表示不启用 CDN 缓存，只通过 Worker 转发
   CACHE_TTL_CONTENT: string; 
+  CACHE_MAX_OBJECT_MB?: string; // 整体缓存的对象大小上限 (MB)，默认 512
+  CACHE_CHUNK_SIZE_MB?: string; // 可选：Range 请求按块缓存的块大小 (MB)，未设置或 0 时不分块缓存
 
   // Bindings
   [key: string]: any;
   BUCKET_STATE_KV: KVNamespace;
+  INDEX_COORDINATOR?: DurableObjectNamespace<IndexCoordinator>; // 可选：串行化索引写入与容量预留
 }
 
+export type AddressingStyle = 'path' | 'virtual';
+
+// 桶的后端类型：s3 经 S3 兼容 API 访问，r2 使用 Worker 的 R2 绑定
+export type BackendType = 's3' | 'r2';
+
 export interface BucketConfig {
   name: string;
-  accessKeyId: string;
-  secretAccessKey: string;
-  endpoint: string;
+  type: BackendType;
+  binding?: string; // r2：R2 绑定名称 (wrangler.toml 中的 [[r2_buckets]] binding)
+  accessKeyId: string; // r2 类型时为空
+  secretAccessKey: string; // r2 类型时为空
+  endpoint: string; // 含协议 (及端口)，不含结尾的 /；r2 类型时为空
   region: string;
+  addressing: AddressingStyle; // path: endpoint/bucket/key；virtual: bucket.endpoint/key
+  capacityBytes?: number; // 单桶容量上限，缺省使用 MAX_BUCKET_SIZE_GB
+  weight: number; // weighted 策略下的选中权重，0 表示不参与选桶
+  writable: boolean; // false 表示只读：可以下载，不接收新上传
 }
 
-export function parseBucketsConfig(configStr: string): BucketConfig[] {
-  if (!configStr) return [];
-  
-  // 去除空白符并按 | 分割
-  return configStr.split('|')
+// JSON 格式的单个桶配置
+interface BucketConfigInput {
+  name: string;
+  type?: BackendType;
+  binding?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  endpoint?: string;
+  region?: string;
+  addressing?: AddressingStyle;
+  capacityGB?: number;
+  weight?: number;
+  readOnly?: boolean;
+}
+
+const BUCKET_CONFIG_FIELDS = ['name', 'type', 'binding', 'accessKeyId', 'secretAccessKey', 'endpoint', 'region', 'addressing', 'capacityGB', 'weight', 'readOnly'];
+
+// 配置格式错误 (启动时统一报告全部问题)
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid bucket configuration:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// 常见服务商的 endpoint 中带有区域；无法识别时使用 us-east-1
+export function regionFromEndpoint(endpoint: string): string {
+  const host = endpoint.replace(/^https?:\/\//, '').split(/[/:]/)[0];
+  const known = host.match(/^s3[.-]([a-z0-9-]+)\.(?:backblazeb2\.com|amazonaws\.com|wasabisys\.com)$/);
+  if (known) return known[1];
+  if (host.endsWith('.r2.cloudflarestorage.com')) return 'auto';
+  return 'us-east-1';
+}
+
+// 规范化 endpoint：补全协议、去掉结尾的 /；格式不合法时返回 null
+function normalizeEndpoint(endpoint: string): string | null {
+  const withScheme = /^https?:\/\//.test(endpoint) ? endpoint : `https://${endpoint}`;
+  try {
+    const url = new URL(withScheme);
+    if (url.search || url.hash || !url.hostname) return null;
+    return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+// 校验单个桶配置，问题追加到 problems 中
+function validateBucket(input: unknown, where: string, problems: string[]): BucketConfig | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    problems.push(`${where}: expected an object`);
+    return null;
+  }
+  const raw = input as Record<string, unknown>;
+  const label = typeof raw.name === 'string' && raw.name ? `${where} (${raw.name})` : where;
+  const before = problems.length;
+
+  for (const field of Object.keys(raw)) {
+    if (!BUCKET_CONFIG_FIELDS.includes(field)) problems.push(`${label}: unknown field "${field}"`);
+  }
+  if (raw.type !== undefined && raw.type !== 's3' && raw.type !== 'r2') {
+    problems.push(`${label}: "type" must be "s3" or "r2"`);
+  }
+  const isR2 = raw.type === 'r2';
+
+  // r2 桶只需要绑定名称；S3 连接参数只用于 s3 桶
+  const required = isR2 ? ['name', 'binding'] : ['name', 'accessKeyId', 'secretAccessKey', 'endpoint'];
+  for (const field of required) {
+    if (typeof raw[field] !== 'string' || (raw[field] as string).trim() === '') {
+      problems.push(`${label}: "${field}" is required`);
+    }
+  }
+  const unused = isR2 ? ['accessKeyId', 'secretAccessKey', 'endpoint', 'addressing'] : ['binding'];
+  for (const field of unused) {
+    if (raw[field] !== undefined) problems.push(`${label}: "${field}" is not used by ${isR2 ? 'r2' : 's3'} buckets`);
+  }
+  if (typeof raw.name === 'string' && raw.name && !/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/i.test(raw.name)) {
+    problems.push(`${label}: "name" is not a valid bucket name`);
+  }
+
+  const endpoint = typeof raw.endpoint === 'string' && raw.endpoint ? normalizeEndpoint(raw.endpoint.trim()) : null;
+  if (typeof raw.endpoint === 'string' && raw.endpoint && !endpoint) {
+    problems.push(`${label}: "endpoint" is not a valid http(s) URL`);
+  }
+  if (raw.region !== undefined && (typeof raw.region !== 'string' || raw.region === '')) {
+    problems.push(`${label}: "region" must be a non-empty string`);
+  }
+  if (raw.addressing !== undefined && raw.addressing !== 'path' && raw.addressing !== 'virtual') {
+    problems.push(`${label}: "addressing" must be "path" or "virtual"`);
+  }
+  if (raw.capacityGB !== undefined && !(typeof raw.capacityGB === 'number' && raw.capacityGB > 0)) {
+    problems.push(`${label}: "capacityGB" must be a positive number`);
+  }
+  if (raw.weight !== undefined && !(typeof raw.weight === 'number' && raw.weight >= 0 && isFinite(raw.weight))) {
+    problems.push(`${label}: "weight" must be a non-negative number`);
+  }
+  if (raw.readOnly !== undefined && typeof raw.readOnly !== 'boolean') {
+    problems.push(`${label}: "readOnly" must be a boolean`);
+  }
+  if (problems.length > before || (!isR2 && !endpoint)) return null;
+
+  const cfg = raw as unknown as BucketConfigInput;
+  return {
+    name: cfg.name,
+    type: isR2 ? 'r2' : 's3',
+    binding: isR2 ? cfg.binding : undefined,
+    accessKeyId: cfg.accessKeyId || '',
+    secretAccessKey: cfg.secretAccessKey || '',
+    endpoint: endpoint || '',
+    region: cfg.region || (endpoint ? regionFromEndpoint(endpoint) : 'auto'),
+    addressing: cfg.addressing || 'path',
+    capacityBytes: cfg.capacityGB !== undefined ? cfg.capacityGB * 1024 * 1024 * 1024 : undefined,
+    weight: cfg.weight ?? 1,
+    writable: !cfg.readOnly
+  };
+}
+
+/**
+ * 旧格式：name:id:key:endpoint|...
+ * Secret 中可以包含冒号；endpoint 可以带协议与端口 (如 https://minio.local:9000)
+ */
+function parseLegacyEntry(entry: string): Record<string, string> | null {
+  const parts = entry.split(':');
+  if (parts.length < 4) return null;
+
+  // endpoint 从协议 (http / https) 或最后一段开始；末尾的纯数字视为端口
+  let endpointStart = parts.findIndex((p, i) => i >= 3 && /^https?$/i.test(p) && (parts[i + 1] || '').startsWith('//'));
+  if (endpointStart === -1) {
+    endpointStart = parts.length - 1;
+    if (/^\d+$/.test(parts[endpointStart]) && endpointStart > 3) endpointStart--;
+  }
+
+  return {
+    name: parts[0],
+    accessKeyId: parts[1],
+    secretAccessKey: parts.slice(2, endpointStart).join(':'),
+    endpoint: parts.slice(endpointStart).join(':')
+  };
+}
+
+export function parseBucketsConfig(configStr: string, problems: string[] = [], source = 'BUCKETS_CONFIG'): BucketConfig[] {
+  const trimmed = (configStr || '').trim();
+  if (!trimmed) return [];
+
+  // JSON 格式：桶配置数组
+  if (trimmed.startsWith('[')) {
+    let entries: unknown;
+    try {
+      entries = JSON.parse(trimmed);
+    } catch (e: unknown) {
+      problems.push(`${source}: invalid JSON (${e instanceof Error ? e.message : String(e)})`);
+      return [];
+    }
+    if (!Array.isArray(entries)) {
+      problems.push(`${source}: expected a JSON array of bucket configs`);
+      return [];
+    }
+    return entries
+      .map((entry, i) => validateBucket(entry, `${source}[${i}]`, problems))
+      .filter((b): b is BucketConfig => b !== null);
+  }
+
+  // 旧格式：去除空白符并按 | 分割
+  return trimmed.split('|')
     .map(s => s.trim())
     .filter(s => s.length > 0)
-    .map(entry => {
-      const parts = entry.split(':');
-      if (parts.length < 4) {
-        console.warn(`Invalid bucket config format: ${entry}`);
+    .map((entry, i) => {
+      const parsed = parseLegacyEntry(entry);
+      if (!parsed) {
+        problems.push(`${source} entry ${i + 1}: expected name:accessKeyId:secretAccessKey:endpoint`);
         return null;
       }
-      // 假设 endpoint 格式为 s3.us-west-004.backblazeb2.com
-      // region 通常是 endpoint 的第二部分
-      const endpoint = parts[3];
-      const region = endpoint.split('.')[1] || 'us-east-1';
-
-      return {
-        name: parts[0],
-        accessKeyId: parts[1],
-        secretAccessKey: parts[2],
-        endpoint: `https://${endpoint}`,
-        region: region
-      };
+      return validateBucket(parsed, `${source} entry ${i + 1}`, problems);
     })
     .filter((b): b is BucketConfig => b !== null);
-}
\ No newline at end of file
+}
+
+// 解析结果按配置原文缓存，同一 isolate 内只校验一次
+let cachedConfigs: { source: string; configs: BucketConfig[] } | null = null;
+
+/**
+ * 读取全部桶配置：BUCKETS_CONFIG 与 BUCKETS_CONFIG_PART_LIST 中列出的变量分别解析 (每段可以是 JSON 或旧格式)，
+ * 按 bucket_name 去重并保持顺序。任一配置有误时抛出 ConfigError，列出全部问题
+ */
+export function loadBucketConfigs(env: Env): BucketConfig[] {
+  // 1. 收集所有配置片段
+  const segments: [string, string][] = [];
+
+  // 无论是否设置了 BUCKETS_CONFIG，都先把它作为默认基础部分
+  if (env.BUCKETS_CONFIG) {
+    segments.push(['BUCKETS_CONFIG', env.BUCKETS_CONFIG]);
+  }
+
+  // 2. 读取 BUCKETS_CONFIG_PART_LIST 并获取对应变量的值
+  if (env.BUCKETS_CONFIG_PART_LIST) {
+    const partNames = env.BUCKETS_CONFIG_PART_LIST.split(',')
+      .map(name => name.trim())
+      .filter(name => name.length > 0);
+
+    for (const name of partNames) {
+      const partValue = env[name]; // 动态读取环境变量
+      if (partValue && typeof partValue === 'string') {
+        segments.push([name, partValue]);
+      }
+    }
+  }
+
+  const cacheKey = JSON.stringify(segments);
+  if (cachedConfigs && cachedConfigs.source === cacheKey) return cachedConfigs.configs;
+
+  // 3. 逐段解析并校验
+  const problems: string[] = [];
+  const allConfigs = segments.flatMap(([name, value]) => parseBucketsConfig(value, problems, name));
+  if (segments.length === 0) problems.push('no buckets configured (set BUCKETS_CONFIG)');
+  // 桶名是索引中副本的标识，重复时无法确定副本位于哪个桶
+  const seenNames = new Set<string>();
+  for (const cfg of allConfigs) {
+    if (seenNames.has(cfg.name)) problems.push(`${cfg.name}: duplicate bucket name`);
+    seenNames.add(cfg.name);
+    const binding = cfg.type === 'r2' ? env[cfg.binding!] : undefined;
+    if (cfg.type === 'r2' && typeof binding?.createMultipartUpload !== 'function') {
+      problems.push(`${cfg.name}: R2 binding "${cfg.binding}" not found`);
+    }
+  }
+  if (problems.length > 0) throw new ConfigError(problems);
+
+  cachedConfigs = { source: cacheKey, configs: allConfigs };
+  return allConfigs;
+}
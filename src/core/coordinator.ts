@@ -0,0 +1,207 @@
+// src/core/coordinator.ts
+import { DurableObject } from 'cloudflare:workers';
+import { Env, loadBucketConfigs } from './config';
+import { IndexStore, IndexChange, IndexManifest, BucketUsage, FileMetadata, replicasOf, matchesExpected } from './index-store';
+import { VersionStore, VersionChange } from './versions';
+import { pickUploadBuckets } from './cluster';
+
+// 容量预留：选桶到上传完成之间占用的空间
+interface Reservation {
+  buckets: string[]; // 每个副本各占用一份
+  size: number;
+  expires: number; // timestamp
+}
+
+// DO 内记录的单个文件占用 (null 表示已删除的墓碑，避免回退读取过期的 KV)
+interface EntryUsage {
+  buckets: string[];
+  size: number;
+  etag?: string; // 条件更新时比较 (旧记录没有，回退读取 KV)
+  lastModified?: number;
+}
+
+/**
+ * 索引协调器 (可选的 Durable Object)
+ * 全局单实例，串行执行所有索引变更与容量预留：
+ * - 各桶用量计数与每个文件的占用以 DO 存储为准 (强一致)
+ * - KV 中的索引记录作为只读副本，由本对象同步写入；清单由 alarm 节流写入 (KV 同一个 Key 每秒最多写入约一次)
+ */
+export class IndexCoordinator extends DurableObject<Env> {
+  private index: IndexStore;
+  private versions: VersionStore;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private readonly USAGE_KEY = 'usage';
+  private readonly BUILT_AT_KEY = 'builtAt';
+  private readonly ENTRY_PREFIX = 'entry:';
+  private readonly RESERVATION_PREFIX = 'resv:';
+  private readonly RESERVATION_TTL = 6 * 3600 * 1000; // 6小时
+  private readonly MIRROR_INTERVAL_MS = 5000; // 清单写入 KV 的最小间隔
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    this.index = new IndexStore(env);
+    this.versions = new VersionStore(env);
+  }
+
+  // 串行执行：等待 KV 等外部 I/O 时 DO 仍会处理其他调用，需要显式排队
+  private serialize<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(fn, fn);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // 读取用量计数 (首次使用时从 KV 清单及用量增量初始化)
+  private async loadUsage(): Promise<Record<string, BucketUsage>> {
+    const stored = await this.ctx.storage.get<Record<string, BucketUsage>>(this.USAGE_KEY);
+    if (stored) return stored;
+    return await this.index.getUsage();
+  }
+
+  // 汇总未过期的预留 (顺带清理过期项)
+  private async reservedBytes(): Promise<Map<string, number>> {
+    const reserved = new Map<string, number>();
+    const now = Date.now();
+    const items = await this.ctx.storage.list<Reservation>({ prefix: this.RESERVATION_PREFIX });
+    const expired: string[] = [];
+
+    for (const [id, r] of items) {
+      if (r.expires < now) {
+        expired.push(id);
+        continue;
+      }
+      for (const bucket of r.buckets) {
+        reserved.set(bucket, (reserved.get(bucket) || 0) + r.size);
+      }
+    }
+    if (expired.length > 0) await this.ctx.storage.delete(expired);
+    return reserved;
+  }
+
+  // 当前各桶用量 (不含预留)
+  async getUsage(): Promise<Record<string, BucketUsage>> {
+    return await this.serialize(() => this.loadUsage());
+  }
+
+  // 选出 count 个桶 (每个副本一个) 并预留容量，预留在 applyChanges / release 时释放
+  // allowed 为调用方筛选出的健康桶，未提供时所有桶均可选
+  async reserve(fileSize: number, count = 1, allowed?: string[]): Promise<{ buckets: string[]; reservationId: string } | null> {
+    return await this.serialize(async () => {
+      const usage = await this.loadUsage();
+      const reserved = await this.reservedBytes();
+
+      const effective: Record<string, number> = {};
+      for (const cfg of loadBucketConfigs(this.env)) {
+        if (!cfg.writable || (allowed && !allowed.includes(cfg.name))) continue;
+        effective[cfg.name] = (usage[cfg.name]?.bytes || 0) + (reserved.get(cfg.name) || 0);
+      }
+
+      const buckets = pickUploadBuckets(effective, fileSize, this.env, count);
+      if (!buckets) return null;
+
+      const reservationId = crypto.randomUUID();
+      const reservation: Reservation = { buckets, size: fileSize, expires: Date.now() + this.RESERVATION_TTL };
+      await this.ctx.storage.put(this.RESERVATION_PREFIX + reservationId, reservation);
+      return { buckets, reservationId };
+    });
+  }
+
+  // 释放预留 (上传失败或取消时)
+  async release(reservationId: string) {
+    await this.serialize(() => this.ctx.storage.delete(this.RESERVATION_PREFIX + reservationId));
+  }
+
+  // 应用索引变更：更新 DO 内的计数，并同步写入 KV 记录 (清单稍后由 alarm 写入)
+  // 带前置条件的变更在此串行比较，不满足时跳过并返回给调用方
+  async applyChanges(changes: IndexChange[], reservationId?: string): Promise<IndexChange[]> {
+    return await this.serialize(async () => {
+      const usage = await this.loadUsage();
+      const conflicts: IndexChange[] = [];
+
+      for (const change of changes) {
+        const storageKey = this.ENTRY_PREFIX + change.key;
+        let previous = await this.ctx.storage.get<EntryUsage | null>(storageKey);
+        if (previous === undefined || (change.expected && previous && previous.etag === undefined)) {
+          // DO 中尚无记录 (或缺少版本信息)：以 KV 中的现有索引为准
+          const meta = await this.index.get(change.key);
+          previous = meta ? this.usageOf(meta) : null;
+        }
+        if (!matchesExpected(change, previous)) {
+          conflicts.push(change);
+          continue;
+        }
+        if (previous) this.adjust(usage, previous, -1);
+
+        if (change.meta) {
+          await this.index.writeEntry(change.key, change.meta);
+          const entry = this.usageOf(change.meta);
+          await this.ctx.storage.put(storageKey, entry);
+          this.adjust(usage, entry, 1);
+        } else {
+          if (previous) await this.index.deleteEntry(change.key);
+          await this.ctx.storage.put(storageKey, null);
+        }
+      }
+
+      if (reservationId) await this.ctx.storage.delete(this.RESERVATION_PREFIX + reservationId);
+      await this.ctx.storage.put(this.USAGE_KEY, usage);
+      await this.scheduleMirror();
+      return conflicts;
+    });
+  }
+
+  // 修改历史版本 (与索引变更在同一队列中串行，避免并发的读-改-写互相覆盖)
+  async updateVersions(key: string, change: VersionChange): Promise<void> {
+    await this.serialize(() => this.versions.update(key, change));
+  }
+
+  private usageOf(meta: FileMetadata): EntryUsage {
+    return { buckets: replicasOf(meta).map(r => r.bucket), size: meta.size, etag: meta.etag, lastModified: meta.lastModified };
+  }
+
+  // 全量重建后重置计数 (保留进行中的预留)
+  async resetUsage(manifest: IndexManifest) {
+    await this.serialize(async () => {
+      const reservations = await this.ctx.storage.list<Reservation>({ prefix: this.RESERVATION_PREFIX });
+      await this.ctx.storage.deleteAll();
+      for (const [id, r] of reservations) {
+        await this.ctx.storage.put(id, r);
+      }
+      await this.ctx.storage.put(this.USAGE_KEY, manifest.buckets);
+      await this.ctx.storage.put(this.BUILT_AT_KEY, manifest.builtAt);
+      await this.scheduleMirror();
+    });
+  }
+
+  // 把计数写入 KV 清单，供未绑定 DO 的只读路径使用；写入失败只记录日志，稍后重试
+  async alarm() {
+    try {
+      const { usage, builtAt } = await this.serialize(async () => ({
+        usage: await this.loadUsage(),
+        builtAt: await this.ctx.storage.get<number>(this.BUILT_AT_KEY)
+      }));
+      // createManifest 的水位线为当前时间：计数以 DO 为准，此前的 KV 增量不再计入
+      const manifest = this.index.createManifest();
+      const previous = await this.index.getManifest();
+      await this.index.saveManifest({ ...manifest, builtAt: builtAt ?? previous?.builtAt ?? manifest.builtAt, buckets: usage });
+    } catch (e) {
+      console.error('Failed to mirror index usage to KV:', e);
+      await this.scheduleMirror();
+    }
+  }
+
+  private adjust(usage: Record<string, BucketUsage>, entry: EntryUsage, sign: 1 | -1) {
+    for (const bucket of entry.buckets) {
+      const u = usage[bucket] || (usage[bucket] = { bytes: 0, objects: 0 });
+      u.bytes = Math.max(0, u.bytes + sign * entry.size);
+      u.objects = Math.max(0, u.objects + sign);
+    }
+  }
+
+  // 已有待执行的 alarm 时沿用，计数变化在 MIRROR_INTERVAL_MS 内合并为一次写入
+  private async scheduleMirror() {
+    if ((await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(Date.now() + this.MIRROR_INTERVAL_MS);
+    }
+  }
+}
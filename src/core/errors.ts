@@ -0,0 +1,113 @@
+// src/core/errors.ts
+import { escapeXml } from './xml';
+
+// S3 错误码对应的 HTTP 状态
+const STATUS_BY_CODE: Record<string, number> = {
+  AccessDenied: 403,
+  InvalidAccessKeyId: 403,
+  SignatureDoesNotMatch: 403,
+  RequestTimeTooSkewed: 403,
+  AuthorizationHeaderMalformed: 400,
+  AuthorizationQueryParametersError: 400,
+  InvalidArgument: 400,
+  InvalidRequest: 400,
+  MalformedXML: 400,
+  InvalidPart: 400,
+  InvalidPartOrder: 400,
+  EntityTooSmall: 400,
+  EntityTooLarge: 400,
+  InvalidDigest: 400,
+  BadDigest: 400,
+  IncompleteBody: 400,
+  XAmzContentSHA256Mismatch: 400,
+  NoSuchKey: 404,
+  NoSuchUpload: 404,
+  NoSuchVersion: 404,
+  NoSuchBucket: 404,
+  NoSuchLifecycleConfiguration: 404,
+  MethodNotAllowed: 405,
+  MissingContentLength: 411,
+  PreconditionFailed: 412,
+  InvalidRange: 416,
+  InternalError: 500,
+  NotImplemented: 501,
+  ServiceUnavailable: 503,
+  SlowDown: 503,
+  InsufficientStorage: 507
+};
+
+// 后端返回时可以原样转给客户端的错误码 (其余视为代理自身的故障)
+const PASSTHROUGH_CODES = new Set([
+  'NoSuchKey', 'NoSuchUpload', 'NoSuchVersion', 'InvalidPart', 'InvalidPartOrder', 'EntityTooSmall',
+  'EntityTooLarge', 'InvalidRange', 'PreconditionFailed', 'InvalidArgument', 'InvalidRequest', 'MalformedXML',
+  'InvalidDigest', 'BadDigest', 'IncompleteBody', 'SlowDown', 'ServiceUnavailable', 'InternalError', 'NotImplemented'
+]);
+
+/**
+ * S3 错误
+ * 由 errorResponse 统一渲染为 <Error> XML，SDK 可据此判断是否重试
+ */
+export class S3Error extends Error {
+  readonly code: string;
+  readonly status: number;
+
+  constructor(code: string, message: string, status?: number) {
+    super(message);
+    this.name = 'S3Error';
+    this.code = code;
+    this.status = status ?? STATUS_BY_CODE[code] ?? 500;
+  }
+
+  // 将后端的错误响应映射为 S3Error
+  // 后端的鉴权类错误说明代理配置有误，不能原样返回 (客户端会误以为是自己的凭证问题)
+  static fromBackend(status: number, body: string, context: string): S3Error {
+    const backendCode = body.match(/<Code>([^<]*)<\/Code>/)?.[1];
+    const backendMessage = body.match(/<Message>([^<]*)<\/Message>/)?.[1] || '';
+    const detail = `${context}: backend returned ${status}${backendCode ? ` ${backendCode}` : ''}${backendMessage ? ` - ${backendMessage}` : ''}`;
+
+    if (backendCode && PASSTHROUGH_CODES.has(backendCode)) {
+      return new S3Error(backendCode, backendMessage || detail);
+    }
+    if (status === 404) return new S3Error('NoSuchKey', 'The specified key does not exist.');
+    if (status === 416) return new S3Error('InvalidRange', 'The requested range is not satisfiable');
+    if (status >= 500) return new S3Error('ServiceUnavailable', detail);
+    return new S3Error('InternalError', detail);
+  }
+
+  // 任意异常 -> S3Error：超时与网络错误视为后端暂不可用 (可重试)
+  // 桶配置错误 (ConfigError) 的详情只写入日志，不返回给客户端
+  static from(e: unknown): S3Error {
+    if (e instanceof S3Error) return e;
+    if (e instanceof Error) {
+      if (e.name === 'ConfigError') {
+        return new S3Error('InternalError', 'The gateway bucket configuration is invalid.');
+      }
+      if (e.name === 'AbortError' || e.name === 'TimeoutError' || e.message.includes('Network connection lost')) {
+        return new S3Error('ServiceUnavailable', `Backend unavailable: ${e.message}`);
+      }
+      return new S3Error('InternalError', e.message);
+    }
+    return new S3Error('InternalError', String(e));
+  }
+}
+
+// 渲染错误响应 (HEAD 请求不带响应体)
+export function errorResponse(e: unknown, request: Request, key?: string): Response {
+  const err = S3Error.from(e);
+  if (err.status >= 500) console.error('Worker Error:', e);
+
+  const requestId = request.headers.get('cf-ray') || crypto.randomUUID();
+  const headers = new Headers({ 'Content-Type': 'application/xml', 'x-amz-request-id': requestId });
+  if (request.method === 'HEAD') {
+    return new Response(null, { status: err.status, headers });
+  }
+
+  const body = `<?xml version="1.0" encoding="UTF-8"?>
+<Error>
+  <Code>${escapeXml(err.code)}</Code>
+  <Message>${escapeXml(err.message)}</Message>${key ? `
+  <Key>${escapeXml(key)}</Key>` : ''}
+  <RequestId>${escapeXml(requestId)}</RequestId>
+</Error>`;
+  return new Response(body, { status: err.status, headers });
+}
@@ -0,0 +1,234 @@
+// src/core/health.ts
+import { Env } from './config';
+
+// 熔断状态：closed 正常；open 熔断中 (不再接收新上传)；half-open 冷却结束，等待探测结果
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface BucketHealth {
+  bucket: string;
+  state: CircuitState;
+  windowStart: number; // 当前统计窗口的起点
+  requests: number; // 窗口内请求数
+  errors: number; // 窗口内失败数 (5xx / 超时 / 网络错误)
+  latencyMs: number; // 平滑后的平均延迟 (EWMA)
+  consecutiveFailures: number;
+  openedAt?: number;
+  probeAt?: number; // 最近一次半开探测时间
+  lastFailure?: { at: number; reason: string };
+  updatedAt: number;
+}
+
+// 尚未写入 KV 的本地统计
+interface PendingStats {
+  requests: number;
+  errors: number;
+  latencySum: number;
+  consecutiveFailures: number; // 最近一次成功之后的连续失败
+  sawSuccess: boolean;
+  urgent: boolean; // 连续失败已达阈值，下次 flush 时立即写入
+  lastFailure?: { at: number; reason: string };
+}
+
+// 每个 isolate 内先在内存中累计，按间隔合并写入 KV (KV 同一 Key 每秒最多写一次)
+// 写入由请求结束后的 waitUntil 执行，不占用请求本身的耗时
+const pending = new Map<string, PendingStats>();
+// 各桶上次写入时间；首次记录时以当时为起点 (global scope 中 Date.now() 为 0，不能在模块加载时取值)
+const lastFlush = new Map<string, number>();
+const cached = new Map<string, { at: number; health: BucketHealth }>();
+
+/**
+ * 后端桶健康跟踪与熔断
+ * 窗口内错误率过高或连续失败时熔断，冷却后通过一次探测请求决定是否恢复
+ */
+export class HealthTracker {
+  private kv: KVNamespace;
+  private cooldownMs: number;
+
+  private readonly PREFIX = 'HEALTH:';
+  private readonly WINDOW_MS = 60000;
+  private readonly FLUSH_INTERVAL_MS = 10000;
+  private readonly CACHE_MS = 5000;
+  private readonly MIN_REQUESTS = 5;
+  private readonly ERROR_RATE_THRESHOLD = 0.5;
+  private readonly CONSECUTIVE_FAILURE_THRESHOLD = 5;
+
+  constructor(env: Env) {
+    this.kv = env.BUCKET_STATE_KV;
+    this.cooldownMs = parseInt(env.HEALTH_COOLDOWN_MS || '') || 30000;
+  }
+
+  // === 查询 ===
+
+  async get(bucket: string): Promise<BucketHealth> {
+    const hit = cached.get(bucket);
+    if (hit && Date.now() - hit.at < this.CACHE_MS) return hit.health;
+    return await this.load(bucket);
+  }
+
+  async getAll(buckets: string[]): Promise<BucketHealth[]> {
+    return await Promise.all(buckets.map(b => this.get(b)));
+  }
+
+  // 可接收新上传的桶：closed 直接可用；熔断冷却结束后先探测，成功才恢复
+  // 全部不可用时不做过滤，避免熔断器误判导致整个集群拒绝写入
+  async filterAvailable(buckets: string[], probe: (bucket: string) => Promise<boolean>): Promise<string[]> {
+    const available: string[] = [];
+    const now = Date.now();
+
+    for (const bucket of buckets) {
+      const health = await this.get(bucket);
+      if (health.state === 'closed') {
+        available.push(bucket);
+        continue;
+      }
+
+      const cooledDown = now - (health.openedAt || 0) >= this.cooldownMs &&
+        now - (health.probeAt || 0) >= this.cooldownMs;
+      if (!cooledDown) continue;
+
+      // 先标记半开，避免其他请求同时探测
+      await this.save({ ...health, state: 'half-open', probeAt: now, updatedAt: now });
+      const start = Date.now();
+      const ok = await probe(bucket).catch(() => false);
+      // 探测结果立即写入，其他请求据此恢复或继续熔断
+      if (ok) {
+        this.recordSuccess(bucket, Date.now() - start);
+        available.push(bucket);
+      } else {
+        this.recordFailure(bucket, Date.now() - start, 'Half-open probe failed');
+      }
+      await this.flushBucket(bucket);
+    }
+
+    if (available.length === 0) {
+      console.warn('No healthy buckets available, ignoring circuit breaker');
+      return buckets;
+    }
+    return available;
+  }
+
+  // 读取时的副本顺序：健康的桶优先，其余保持原顺序作为兜底
+  async orderForRead(buckets: string[]): Promise<string[]> {
+    if (buckets.length <= 1) return buckets;
+    const states = await this.getAll(buckets);
+    const healthy = buckets.filter((_, i) => states[i].state === 'closed');
+    const unhealthy = buckets.filter((_, i) => states[i].state !== 'closed');
+    return [...healthy, ...unhealthy];
+  }
+
+  // === 记录 ===
+
+  // 只在内存中累计，由 flush 写入 KV
+  recordSuccess(bucket: string, latencyMs: number) {
+    const stats = this.pendingFor(bucket);
+    stats.requests++;
+    stats.latencySum += latencyMs;
+    stats.consecutiveFailures = 0;
+    stats.sawSuccess = true;
+  }
+
+  recordFailure(bucket: string, latencyMs: number, reason: string) {
+    const stats = this.pendingFor(bucket);
+    stats.requests++;
+    stats.errors++;
+    stats.latencySum += latencyMs;
+    stats.consecutiveFailures++;
+    stats.lastFailure = { at: Date.now(), reason };
+    // 连续失败 (含已写入的部分) 达到阈值时不等待间隔，尽快熔断
+    const known = stats.sawSuccess ? 0 : cached.get(bucket)?.health.consecutiveFailures || 0;
+    if (known + stats.consecutiveFailures >= this.CONSECUTIVE_FAILURE_THRESHOLD) stats.urgent = true;
+  }
+
+  private pendingFor(bucket: string): PendingStats {
+    let stats = pending.get(bucket);
+    if (!stats) {
+      stats = { requests: 0, errors: 0, latencySum: 0, consecutiveFailures: 0, sawSuccess: false, urgent: false };
+      pending.set(bucket, stats);
+    }
+    if (!lastFlush.has(bucket)) lastFlush.set(bucket, Date.now());
+    return stats;
+  }
+
+  // 写入距上次写入超过间隔 (或需要立即熔断) 的桶；force 时全部写入
+  // 由 fetch / scheduled 通过 ctx.waitUntil 调用
+  async flush(force = false) {
+    const now = Date.now();
+    const due = [...pending.entries()]
+      .filter(([bucket, stats]) => force || stats.urgent || now - (lastFlush.get(bucket) || 0) >= this.FLUSH_INTERVAL_MS)
+      .map(([bucket]) => bucket);
+    await Promise.all(due.map(bucket => this.flushBucket(bucket)));
+  }
+
+  // 将本地统计合并进 KV 中的记录，并计算状态转换
+  private async flushBucket(bucket: string) {
+    const stats = pending.get(bucket);
+    if (!stats) return;
+    pending.delete(bucket);
+
+    const now = Date.now();
+    lastFlush.set(bucket, now);
+    const health = await this.load(bucket);
+
+    if (now - health.windowStart > this.WINDOW_MS) {
+      health.windowStart = now;
+      health.requests = 0;
+      health.errors = 0;
+    }
+    health.requests += stats.requests;
+    health.errors += stats.errors;
+
+    const avgLatency = stats.latencySum / stats.requests;
+    health.latencyMs = health.latencyMs > 0 ? Math.round(health.latencyMs * 0.7 + avgLatency * 0.3) : Math.round(avgLatency);
+    health.consecutiveFailures = stats.sawSuccess
+      ? stats.consecutiveFailures
+      : health.consecutiveFailures + stats.consecutiveFailures;
+    if (stats.lastFailure) health.lastFailure = stats.lastFailure;
+
+    if (health.state === 'closed') {
+      const tripped = health.consecutiveFailures >= this.CONSECUTIVE_FAILURE_THRESHOLD ||
+        (health.requests >= this.MIN_REQUESTS && health.errors / health.requests >= this.ERROR_RATE_THRESHOLD);
+      if (tripped) {
+        health.state = 'open';
+        health.openedAt = now;
+        console.warn(`Circuit opened for bucket ${bucket}: ${health.lastFailure?.reason || 'error rate too high'}`);
+      }
+    } else if (stats.errors > 0) {
+      // 熔断 / 半开期间仍然失败：重新计时
+      health.state = 'open';
+      health.openedAt = now;
+    } else if (stats.sawSuccess) {
+      health.state = 'closed';
+      health.windowStart = now;
+      health.requests = 0;
+      health.errors = 0;
+      health.consecutiveFailures = 0;
+      console.log(`Circuit closed for bucket ${bucket}`);
+    }
+
+    health.updatedAt = now;
+    await this.save(health);
+  }
+
+  // === 存储 ===
+
+  private async load(bucket: string): Promise<BucketHealth> {
+    const stored = await this.kv.get<BucketHealth>(this.PREFIX + bucket, 'json');
+    const health = stored || {
+      bucket,
+      state: 'closed',
+      windowStart: Date.now(),
+      requests: 0,
+      errors: 0,
+      latencyMs: 0,
+      consecutiveFailures: 0,
+      updatedAt: Date.now()
+    };
+    cached.set(bucket, { at: Date.now(), health });
+    return health;
+  }
+
+  private async save(health: BucketHealth) {
+    cached.set(health.bucket, { at: Date.now(), health });
+    await this.kv.put(this.PREFIX + health.bucket, JSON.stringify(health));
+  }
+}
@@ -0,0 +1,570 @@
+// src/core/index-store.ts
+import { Env } from './config';
+
+// 定义索引项结构
+export interface FileMetadata {
+  bucket: string;
+  size: number;
+  lastModified: number; // timestamp
+  etag: string;
+  versionId?: string; // 新增：记录 S3/B2 的 Version ID
+  replicas?: ReplicaInfo[]; // 多副本时的全部副本 (含主副本，主副本在首位)
+  contentType?: string; // 未记录时 (旧记录 / 对账新增) 为 undefined，HEAD 时回源补全
+  httpHeaders?: Record<string, string>; // 标准对象头 (OBJECT_HEADERS)，键为小写
+  userMetadata?: Record<string, string>; // x-amz-meta-* (去掉前缀，小写)
+}
+
+// 对象元数据部分 (随对象保存，HEAD / GET 时返回)
+export type ObjectMetadata = Pick<FileMetadata, 'contentType' | 'httpHeaders' | 'userMetadata'>;
+
+// 随对象保存的标准头 (Content-Type 单独记录)
+export const OBJECT_HEADERS = ['cache-control', 'content-disposition', 'content-encoding', 'content-language', 'expires'];
+const USER_META_PREFIX = 'x-amz-meta-';
+
+// 从请求 / 后端响应头中提取对象元数据
+export function metadataFromHeaders(headers: Headers): ObjectMetadata {
+  const meta: ObjectMetadata = {};
+  const contentType = headers.get('Content-Type');
+  if (contentType) meta.contentType = contentType;
+
+  headers.forEach((value, name) => {
+    const lower = name.toLowerCase();
+    if (OBJECT_HEADERS.includes(lower)) {
+      (meta.httpHeaders || (meta.httpHeaders = {}))[lower] = value;
+    } else if (lower.startsWith(USER_META_PREFIX)) {
+      (meta.userMetadata || (meta.userMetadata = {}))[lower.substring(USER_META_PREFIX.length)] = value;
+    }
+  });
+  return meta;
+}
+
+// 还原为 HTTP 头 (上传到后端、返回给客户端)
+export function metadataToHeaders(meta: ObjectMetadata): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (meta.contentType) headers['content-type'] = meta.contentType;
+  Object.entries(meta.httpHeaders || {}).forEach(([name, value]) => headers[name] = value);
+  Object.entries(meta.userMetadata || {}).forEach(([name, value]) => headers[USER_META_PREFIX + name] = value);
+  return headers;
+}
+
+// 取出 FileMetadata 中的对象元数据字段
+export function pickObjectMetadata(meta: FileMetadata): ObjectMetadata {
+  return { contentType: meta.contentType, httpHeaders: meta.httpHeaders, userMetadata: meta.userMetadata };
+}
+
+// 单个副本的位置
+export interface ReplicaInfo {
+  bucket: string;
+  etag: string;
+  versionId?: string;
+}
+
+// 返回文件的全部副本 (单副本的旧记录只有主副本字段)
+export function replicasOf(meta: FileMetadata): ReplicaInfo[] {
+  if (meta.replicas && meta.replicas.length > 0) return meta.replicas;
+  return [{ bucket: meta.bucket, etag: meta.etag, versionId: meta.versionId }];
+}
+
+// 列表用的索引摘要 (直接来自 KV list 的 metadata，无需逐个读取)
+export interface IndexEntry {
+  key: string;
+  bucket: string;
+  size: number;
+  lastModified: number;
+  etag: string;
+  versionId?: string;
+  replicaBuckets?: string[]; // 主副本以外的其他副本所在桶
+}
+
+// 单个桶的用量计数
+export interface BucketUsage {
+  bytes: number;
+  objects: number;
+}
+
+// 索引清单：只保存各桶的用量计数，体积与文件数量无关
+export interface IndexManifest {
+  version: number;
+  builtAt: number; // 最近一次全量重建的时间
+  buckets: Record<string, BucketUsage>;
+  through?: string; // 已计入 buckets 的用量增量 (不大于该 KV Key 的增量记录)
+}
+
+// 用于条件更新的记录版本
+export interface IndexVersion {
+  etag: string;
+  lastModified: number;
+}
+
+// 一次索引变更：meta 为 null 表示删除
+// expected 未提供时无条件写入；为 null 时要求记录不存在；否则要求现有记录的 ETag 与修改时间一致
+// 条件更新为尽力而为：只有经协调器串行执行时比较与写入之间不会插入其他写入
+export interface IndexChange {
+  key: string;
+  meta: FileMetadata | null;
+  expected?: IndexVersion | null;
+}
+
+// 现有记录是否满足变更的前置条件
+export function matchesExpected(change: IndexChange, current: Partial<IndexVersion> | null): boolean {
+  if (change.expected === undefined) return true;
+  if (change.expected === null || current === null) return change.expected === current;
+  return current.etag === change.expected.etag && current.lastModified === change.expected.lastModified;
+}
+
+// KV metadata 中的压缩字段 (KV metadata 上限 1024 字节)
+interface EntryMetadata {
+  b: string;
+  s: number;
+  m: number;
+  e: string;
+  v?: string;
+  r?: string[]; // 其他副本所在桶
+  l?: 1; // 长 Key：KV Key 被截断，完整 Key 需读取 value
+}
+
+// 存入 value 的完整记录 (长 Key 时需要还原原始 Key)
+interface StoredEntry extends FileMetadata {
+  key: string;
+}
+
+// 用量增量记录的 KV metadata：桶名 -> [字节数, 对象数]
+type UsageDelta = Record<string, [number, number]>;
+
+// 旧版单一 JSON 索引：filepath -> metadata
+type LegacyIndex = Record<string, FileMetadata>;
+
+// 旧版索引已删除后不会再出现，同一 isolate 内不再读取
+let legacyGone = false;
+
+// KV Key 上限 512 字节，为前缀和哈希后缀预留空间
+const MAX_KEY_BYTES = 400;
+
+// 超长 Key 截断后附加哈希，保证 KV Key 唯一且不超过上限
+export async function kvKeyFor(prefix: string, key: string): Promise<string> {
+  const truncated = truncateKey(key);
+  if (truncated === key) return prefix + key;
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  const hash = Array.from(new Uint8Array(digest).slice(0, 8))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  return `${prefix}${truncated}#${hash}`;
+}
+
+// 按 UTF-8 字节数截断 (不拆分多字节字符)
+export function truncateKey(str: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(str).length <= MAX_KEY_BYTES) return str;
+
+  let bytes = 0;
+  let result = '';
+  for (const ch of str) {
+    bytes += encoder.encode(ch).length;
+    if (bytes > MAX_KEY_BYTES) break;
+    result += ch;
+  }
+  return result;
+}
+
+/**
+ * 按 Unicode 码点比较两个 Key，与 KV / S3 列表使用的 UTF-8 字节序一致
+ * (直接用 < 比较的是 UTF-16 码元，对代理对字符的排序不同)
+ */
+export function compareKeys(a: string, b: string): number {
+  const ia = a[Symbol.iterator]();
+  const ib = b[Symbol.iterator]();
+  while (true) {
+    const ca = ia.next();
+    const cb = ib.next();
+    if (ca.done || cb.done) return ca.done && cb.done ? 0 : ca.done ? -1 : 1;
+    const diff = ca.value.codePointAt(0)! - cb.value.codePointAt(0)!;
+    if (diff !== 0) return diff;
+  }
+}
+
+/**
+ * 分片索引存储
+ * 每个文件一条 KV 记录 (IDX:<key>)，另有一个小体积的清单 (IDX_MANIFEST) 记录各桶用量。
+ * 读写单个文件只涉及自身的记录，列表通过 KV 的前缀 list 完成。
+ * KV 同一个 Key 每秒只能写入约一次，因此写入时不修改清单，而是各自追加一条用量增量 (IDX_USAGE:<时间>:<随机>)，
+ * 读取时与清单相加，由定时任务定期并入清单。
+ */
+export class IndexStore {
+  private kv: KVNamespace;
+  private manifest: IndexManifest | null = null;
+  private legacy: LegacyIndex | null | undefined = undefined;
+
+  static readonly ENTRY_PREFIX = 'IDX:';
+  // 升级前的单一 JSON 索引，首轮对账完成前作为按 Key 读取 / 列表的回退
+  private readonly LEGACY_KEY = 'CLUSTER_INDEX';
+  // 回退期间删除的旧版记录 (旧版索引本身不再改写)；旧版索引写入时带 1 天 TTL，标记同样 1 天后过期
+  private readonly LEGACY_DELETED_PREFIX = 'IDX_LEGACY_DELETED:';
+  private readonly LEGACY_TTL = 86400;
+  // 列表游标：V1 请求只回传 marker，按 (prefix, marker) 找回上一页结束时的 KV 游标
+  private readonly LIST_CURSOR_PREFIX = 'LIST_CURSOR:';
+  private readonly LIST_CURSOR_TTL = 600;
+  private readonly MANIFEST_KEY = 'IDX_MANIFEST';
+  private readonly MANIFEST_VERSION = 1;
+  private readonly USAGE_PREFIX = 'IDX_USAGE:';
+  // KV list 最终一致 (约 60 秒)，只合并足够早的增量，避免尚未出现在列表中的记录被水位线跳过
+  private readonly USAGE_COMPACT_DELAY_MS = 5 * 60 * 1000;
+  private readonly BATCH_SIZE = 50;
+  private readonly BULK_GET_SIZE = 100;
+
+  constructor(env: Env) {
+    this.kv = env.BUCKET_STATE_KV;
+  }
+
+  // === 清单 ===
+
+  async getManifest(): Promise<IndexManifest | null> {
+    if (this.manifest) return this.manifest;
+    const stored = await this.kv.get<IndexManifest>(this.MANIFEST_KEY, 'json');
+    if (stored && stored.version === this.MANIFEST_VERSION) {
+      this.manifest = stored;
+    }
+    return this.manifest;
+  }
+
+  async saveManifest(manifest: IndexManifest) {
+    this.manifest = manifest;
+    await this.kv.put(this.MANIFEST_KEY, JSON.stringify(manifest));
+  }
+
+  // 新清单的计数视为截至当前时间，此前的增量不再计入
+  createManifest(): IndexManifest {
+    return { version: this.MANIFEST_VERSION, builtAt: Date.now(), buckets: {}, through: this.usageKeyAt(Date.now()) };
+  }
+
+  // === 用量计数 ===
+
+  // 各桶当前用量：清单 + 水位线之后的增量
+  async getUsage(): Promise<Record<string, BucketUsage>> {
+    const manifest = await this.getManifest();
+    const usage: Record<string, BucketUsage> = manifest ? structuredClone(manifest.buckets) : {};
+    const { pending } = await this.listUsageDeltas(manifest?.through);
+    pending.forEach(([, delta]) => this.addDelta(usage, delta));
+    return usage;
+  }
+
+  // 把足够早的增量并入清单，并删除已计入清单的增量 (由 scheduled 调用)
+  async compactUsage() {
+    const manifest = (await this.getManifest()) || { ...this.createManifest(), through: undefined };
+    const cutoff = this.usageKeyAt(Date.now() - this.USAGE_COMPACT_DELAY_MS);
+    const { folded, pending } = await this.listUsageDeltas(manifest.through);
+    const ready = pending.filter(([name]) => name < cutoff);
+
+    if (ready.length > 0) {
+      const buckets = structuredClone(manifest.buckets);
+      ready.forEach(([, delta]) => this.addDelta(buckets, delta));
+      await this.saveManifest({ ...manifest, buckets, through: ready[ready.length - 1][0] });
+    }
+    await this.deleteKeys([...folded, ...ready.map(([name]) => name)]);
+  }
+
+  // 用量增量：folded 为不大于水位线 (已计入清单或被重置) 的 Key，pending 为其后的增量 (按写入时间顺序)
+  private async listUsageDeltas(through?: string): Promise<{ folded: string[]; pending: [string, UsageDelta][] }> {
+    const folded: string[] = [];
+    const pending: [string, UsageDelta][] = [];
+    let cursor: string | undefined = undefined;
+    do {
+      const page: KVNamespaceListResult<UsageDelta> = await this.kv.list<UsageDelta>({ prefix: this.USAGE_PREFIX, cursor });
+      for (const item of page.keys) {
+        if (through !== undefined && item.name <= through) {
+          folded.push(item.name);
+          continue;
+        }
+        // 桶很多时 metadata 放不下，增量只在 value 中
+        const delta = item.metadata || await this.kv.get<UsageDelta>(item.name, 'json');
+        if (delta) pending.push([item.name, delta]);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return { folded, pending };
+  }
+
+  // 追加一条增量；计数写入失败只记录日志，不影响已完成的对象写入 (下一轮对账会重置计数)
+  private async recordUsageDelta(delta: UsageDelta) {
+    const entries = Object.entries(delta).filter(([, [bytes, objects]]) => bytes !== 0 || objects !== 0);
+    if (entries.length === 0) return;
+
+    const value = JSON.stringify(Object.fromEntries(entries));
+    const name = `${this.usageKeyAt(Date.now())}:${crypto.randomUUID()}`;
+    try {
+      await this.kv.put(name, value, value.length <= 1000 ? { metadata: Object.fromEntries(entries) } : undefined);
+    } catch (e) {
+      console.error('Failed to record index usage delta:', e);
+    }
+  }
+
+  // 按时间排序的增量 Key (时间补齐为固定位数)
+  private usageKeyAt(time: number): string {
+    return this.USAGE_PREFIX + time.toString().padStart(15, '0');
+  }
+
+  private addDelta(usage: Record<string, BucketUsage>, delta: UsageDelta) {
+    for (const [bucket, [bytes, objects]] of Object.entries(delta)) {
+      const u = usage[bucket] || (usage[bucket] = { bytes: 0, objects: 0 });
+      u.bytes = Math.max(0, u.bytes + bytes);
+      u.objects = Math.max(0, u.objects + objects);
+    }
+  }
+
+  private async deleteKeys(names: string[]) {
+    for (let i = 0; i < names.length; i += this.BATCH_SIZE) {
+      await Promise.all(names.slice(i, i + this.BATCH_SIZE).map(name => this.kv.delete(name)));
+    }
+  }
+
+  // === 单条记录 ===
+
+  async get(key: string): Promise<FileMetadata | null> {
+    const stored = await this.kv.get<StoredEntry>(await this.kvKeyFor(key), 'json');
+    if (!stored || stored.key !== key) return null;
+    const { key: _, ...meta } = stored;
+    return meta;
+  }
+
+  // 读取记录；分片索引中没有时回退到旧版索引 (升级后首轮对账完成前)
+  async lookup(key: string): Promise<FileMetadata | null> {
+    const meta = await this.get(key);
+    if (meta) return meta;
+    const legacy = await this.getLegacy();
+    if (!legacy || !Object.prototype.hasOwnProperty.call(legacy, key)) return null;
+    const deleted = await this.kv.get(await kvKeyFor(this.LEGACY_DELETED_PREFIX, key));
+    return deleted === null ? legacy[key] : null;
+  }
+
+  // 批量读取 (KV 批量 get 每次最多 100 个 Key，只计一次操作)
+  async getMany(keys: string[]): Promise<Map<string, FileMetadata | null>> {
+    const result = new Map<string, FileMetadata | null>();
+    const kvKeys = await Promise.all(keys.map(key => this.kvKeyFor(key)));
+
+    for (let i = 0; i < keys.length; i += this.BULK_GET_SIZE) {
+      const stored = await this.kv.get<StoredEntry>(kvKeys.slice(i, i + this.BULK_GET_SIZE), 'json');
+      keys.slice(i, i + this.BULK_GET_SIZE).forEach((key, j) => {
+        const entry = stored.get(kvKeys[i + j]);
+        if (!entry || entry.key !== key) {
+          result.set(key, null);
+          return;
+        }
+        const { key: _, ...meta } = entry;
+        result.set(key, meta);
+      });
+    }
+    return result;
+  }
+
+  // === 旧版索引 ===
+
+  async getLegacy(): Promise<LegacyIndex | null> {
+    if (legacyGone) return null;
+    if (this.legacy === undefined) {
+      this.legacy = await this.kv.get<LegacyIndex>(this.LEGACY_KEY, 'json');
+      if (!this.legacy) legacyGone = true;
+    }
+    return this.legacy;
+  }
+
+  // 旧版索引中指定前缀下的记录 (按 Key 排序)；旧版索引不存在时返回 null
+  async legacyEntries(prefix = ''): Promise<IndexEntry[] | null> {
+    const legacy = await this.getLegacy();
+    if (!legacy) return null;
+
+    const deleted = new Set<string>();
+    let cursor: string | undefined = undefined;
+    do {
+      const page: KVNamespaceListResult<unknown> = await this.kv.list({ prefix: this.LEGACY_DELETED_PREFIX, cursor });
+      page.keys.forEach(item => deleted.add(item.name));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    const keys: string[] = [];
+    for (const key of Object.keys(legacy)) {
+      if (!key.startsWith(prefix)) continue;
+      if (deleted.size > 0 && deleted.has(await kvKeyFor(this.LEGACY_DELETED_PREFIX, key))) continue;
+      keys.push(key);
+    }
+    return keys.sort(compareKeys).map(key => ({
+      key,
+      bucket: legacy[key].bucket,
+      size: legacy[key].size,
+      lastModified: legacy[key].lastModified,
+      etag: legacy[key].etag,
+      versionId: legacy[key].versionId
+    }));
+  }
+
+  // 标记已删除的旧版记录，避免回退读取时重新出现
+  async forgetLegacy(keys: string[]) {
+    const legacy = await this.getLegacy();
+    if (!legacy) return;
+    const names = keys.filter(key => Object.prototype.hasOwnProperty.call(legacy, key));
+    for (let i = 0; i < names.length; i += this.BATCH_SIZE) {
+      await Promise.all(names.slice(i, i + this.BATCH_SIZE).map(async key =>
+        this.kv.put(await kvKeyFor(this.LEGACY_DELETED_PREFIX, key), '1', { expirationTtl: this.LEGACY_TTL })
+      ));
+    }
+  }
+
+  // 首轮对账完成后删除 (此时分片索引已包含后端的全部文件)
+  async deleteLegacy() {
+    await this.kv.delete(this.LEGACY_KEY);
+    this.legacy = null;
+    legacyGone = true;
+  }
+
+  // === 写入 ===
+
+  async put(key: string, meta: FileMetadata) {
+    await this.apply([{ key, meta }]);
+  }
+
+  async delete(key: string) {
+    await this.apply([{ key, meta: null }]);
+  }
+
+  // 批量应用变更，整批的用量变化合并为一条增量；返回因前置条件不满足而跳过的变更
+  // KV 上先读后写，并发请求仍可能在比较之后改写同一个 Key (未绑定协调器时的已知限制)
+  async apply(changes: IndexChange[]): Promise<IndexChange[]> {
+    const delta: UsageDelta = {};
+    const existing = await this.getMany(changes.map(c => c.key));
+    const conflicts: IndexChange[] = [];
+
+    for (const change of changes) {
+      const previous = existing.get(change.key) || null;
+      if (!matchesExpected(change, previous)) {
+        conflicts.push(change);
+        continue;
+      }
+      if (previous) this.adjustUsage(delta, previous, -1);
+
+      if (change.meta) {
+        await this.writeEntry(change.key, change.meta);
+        this.adjustUsage(delta, change.meta, 1);
+      } else if (previous) {
+        await this.deleteEntry(change.key);
+      }
+      existing.set(change.key, change.meta);
+    }
+
+    await this.recordUsageDelta(delta);
+    return conflicts;
+  }
+
+  // 每个副本都占用所在桶的空间
+  private adjustUsage(delta: UsageDelta, meta: FileMetadata, sign: 1 | -1) {
+    for (const replica of replicasOf(meta)) {
+      const d = delta[replica.bucket] || (delta[replica.bucket] = [0, 0]);
+      d[0] += sign * meta.size;
+      d[1] += sign;
+    }
+  }
+
+  // 写入记录但不调整清单 (由调用方统一维护计数)
+  async writeEntry(key: string, meta: FileMetadata) {
+    const kvKey = await this.kvKeyFor(key);
+    const metadata: EntryMetadata = { b: meta.bucket, s: meta.size, m: meta.lastModified, e: meta.etag };
+    if (meta.versionId) metadata.v = meta.versionId;
+    const others = replicasOf(meta).slice(1).map(r => r.bucket);
+    if (others.length > 0) metadata.r = others;
+    if (kvKey !== IndexStore.ENTRY_PREFIX + key) metadata.l = 1;
+
+    const stored: StoredEntry = { key, ...meta };
+    await this.kv.put(kvKey, JSON.stringify(stored), { metadata });
+  }
+
+  async deleteEntry(key: string) {
+    await this.kv.delete(await this.kvKeyFor(key));
+  }
+
+  // 批量写入 / 删除记录 (分批并发，避免一次发出过多子请求)
+  async writeEntries(entries: [string, FileMetadata][]) {
+    for (let i = 0; i < entries.length; i += this.BATCH_SIZE) {
+      await Promise.all(entries.slice(i, i + this.BATCH_SIZE).map(([key, meta]) => this.writeEntry(key, meta)));
+    }
+  }
+
+  async deleteEntries(keys: string[]) {
+    for (let i = 0; i < keys.length; i += this.BATCH_SIZE) {
+      await Promise.all(keys.slice(i, i + this.BATCH_SIZE).map(key => this.deleteEntry(key)));
+    }
+  }
+
+  // === 列表 ===
+
+  // 按 Key 的字节序遍历指定前缀下的所有记录
+  async *list(prefix = ''): AsyncGenerator<IndexEntry> {
+    let cursor: string | undefined = undefined;
+
+    do {
+      const page = await this.listPage(prefix, cursor);
+      yield* page.entries;
+      cursor = page.cursor;
+    } while (cursor);
+  }
+
+  // 读取一页记录；cursor 为 undefined 表示已列完
+  // 超长 Key 以 截断前缀#哈希 存储，KV 顺序与原始 Key 不一致，页内按原始 Key 重新排序
+  // 已知限制：共享同一截断前缀的一组 Key 跨越 KV 分页 (每页 1000 个) 时，跨页的部分仍可能乱序
+  async listPage(prefix = '', cursor?: string): Promise<{ entries: IndexEntry[]; cursor?: string }> {
+    const listPrefix = IndexStore.ENTRY_PREFIX + truncateKey(prefix);
+    const page: KVNamespaceListResult<EntryMetadata> = await this.kv.list<EntryMetadata>({ prefix: listPrefix, cursor });
+
+    const entries: IndexEntry[] = [];
+    for (const item of page.keys) {
+      const entry = await this.toEntry(item);
+      if (entry && entry.key.startsWith(prefix)) entries.push(entry);
+    }
+    entries.sort((a, b) => compareKeys(a.key, b.key));
+    return { entries, cursor: page.list_complete ? undefined : page.cursor };
+  }
+
+  // 保存 / 查找某一页结束时的 KV 游标 (after 为该页最后一项)
+  async saveListCursor(prefix: string, after: string, cursor: string) {
+    await this.kv.put(await this.listCursorKey(prefix, after), cursor, { expirationTtl: this.LIST_CURSOR_TTL });
+  }
+
+  async getListCursor(prefix: string, after: string): Promise<string | undefined> {
+    return (await this.kv.get(await this.listCursorKey(prefix, after))) ?? undefined;
+  }
+
+  private async listCursorKey(prefix: string, after: string): Promise<string> {
+    return await kvKeyFor(this.LIST_CURSOR_PREFIX, JSON.stringify([prefix, after]));
+  }
+
+  private async toEntry(item: KVNamespaceListKey<EntryMetadata>): Promise<IndexEntry | null> {
+    const md = item.metadata;
+    if (md && !md.l) {
+      return {
+        key: item.name.substring(IndexStore.ENTRY_PREFIX.length),
+        bucket: md.b,
+        size: md.s,
+        lastModified: md.m,
+        etag: md.e,
+        versionId: md.v,
+        replicaBuckets: md.r
+      };
+    }
+
+    // 长 Key 或缺少 metadata 的旧记录：读取 value
+    const stored = await this.kv.get<StoredEntry>(item.name, 'json');
+    if (!stored) return null;
+    return {
+      key: stored.key,
+      bucket: stored.bucket,
+      size: stored.size,
+      lastModified: stored.lastModified,
+      etag: stored.etag,
+      versionId: stored.versionId,
+      replicaBuckets: stored.replicas ? stored.replicas.slice(1).map(r => r.bucket) : undefined
+    };
+  }
+
+  // === KV Key 映射 ===
+
+  private async kvKeyFor(key: string): Promise<string> {
+    return await kvKeyFor(IndexStore.ENTRY_PREFIX, key);
+  }
+}
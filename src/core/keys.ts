@@ -0,0 +1,203 @@
+// src/core/keys.ts
+import { Env } from './config';
+import { S3Error } from './errors';
+
+// 访问密钥可授予的操作
+export type Operation = 'read' | 'list' | 'write' | 'delete' | 'admin';
+
+export const OPERATIONS: Operation[] = ['read', 'list', 'write', 'delete', 'admin'];
+
+export interface AccessKey {
+  accessKeyId: string;
+  secretAccessKey: string;
+  operations: Operation[];
+  prefixes?: string[]; // 允许访问的 Key 前缀 (按路径段匹配，见 withinPrefix)，缺省表示全部
+  expiresAt?: number; // 过期时间 (毫秒时间戳)
+  description?: string;
+  source?: 'root' | 'config' | 'kv'; // 由 KeyStore 填写
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// 校验并规范化一条密钥记录 (来自请求体、ACCESS_KEYS 或 KV)，格式不合法时抛出 InvalidArgument
+export function normalizeAccessKey(input: unknown): AccessKey {
+  if (!isRecord(input)) throw new S3Error('InvalidArgument', 'Access key must be an object');
+  const { accessKeyId, secretAccessKey, operations, prefixes, expiresAt, description } = input;
+
+  if (typeof accessKeyId !== 'string' || !/^[A-Za-z0-9_-]{4,128}$/.test(accessKeyId)) {
+    throw new S3Error('InvalidArgument', 'accessKeyId must be 4-128 characters of [A-Za-z0-9_-]');
+  }
+  if (typeof secretAccessKey !== 'string' || secretAccessKey.length < 8) {
+    throw new S3Error('InvalidArgument', `secretAccessKey of ${accessKeyId} must be at least 8 characters`);
+  }
+  if (!Array.isArray(operations) || operations.length === 0 || operations.some(op => !OPERATIONS.includes(op as Operation))) {
+    throw new S3Error('InvalidArgument', `operations of ${accessKeyId} must be a non-empty subset of ${OPERATIONS.join(', ')}`);
+  }
+  if (prefixes !== undefined && (!Array.isArray(prefixes) || prefixes.some(p => typeof p !== 'string'))) {
+    throw new S3Error('InvalidArgument', `prefixes of ${accessKeyId} must be an array of strings`);
+  }
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    throw new S3Error('InvalidArgument', `description of ${accessKeyId} must be a string`);
+  }
+
+  let expires: number | undefined = undefined;
+  if (expiresAt !== undefined && expiresAt !== null) {
+    expires = typeof expiresAt === 'number' ? expiresAt : typeof expiresAt === 'string' ? Date.parse(expiresAt) : NaN;
+    if (!Number.isFinite(expires)) throw new S3Error('InvalidArgument', `expiresAt of ${accessKeyId} is not a valid date`);
+  }
+
+  return {
+    accessKeyId,
+    secretAccessKey,
+    operations: [...new Set(operations as Operation[])],
+    prefixes: prefixes && prefixes.length > 0 ? (prefixes as string[]) : undefined,
+    expiresAt: expires,
+    description: typeof description === 'string' ? description : undefined
+  };
+}
+
+// 前缀按 / 分隔的路径段匹配：前缀 foo 覆盖 foo 本身及 foo/ 下的 Key，但不包括 foobar
+// 列表前缀以 foo 开头时可能列出 foobar，因此列表 (exact 为 false) 要求落在 foo/ 之内
+export function withinPrefix(objectKey: string, prefix: string, exact = true): boolean {
+  if (prefix === '') return true;
+  const dir = prefix.endsWith('/') ? prefix : prefix + '/';
+  return (exact && objectKey === prefix) || objectKey.startsWith(dir);
+}
+
+// 密钥是否允许对 objectKey 执行 op
+// 列表操作传入列表前缀：前缀本身需落在允许的范围内
+export function isAllowed(key: AccessKey, op: Operation, objectKey = ''): boolean {
+  if (!key.operations.includes(op)) return false;
+  if (op === 'admin' || !key.prefixes) return true;
+  return key.prefixes.some(p => withinPrefix(objectKey, p, op !== 'list'));
+}
+
+export function isExpired(key: AccessKey, now = Date.now()): boolean {
+  return key.expiresAt !== undefined && now > key.expiresAt;
+}
+
+// 脱敏后的密钥信息 (管理接口返回)
+export function describeAccessKey(key: AccessKey) {
+  const { secretAccessKey, ...rest } = key;
+  return rest;
+}
+
+/**
+ * 访问密钥存储
+ * 来源依次为：VIRTUAL_ACCESS_KEY_ID (根密钥，拥有全部权限)、ACCESS_KEYS 配置 (JSON 数组，只读)、
+ * KV 中由管理接口维护的 ACCESS_KEY:<id> 记录
+ */
+export class KeyStore {
+  private env: Env;
+  private readonly PREFIX = 'ACCESS_KEY:';
+
+  constructor(env: Env) {
+    this.env = env;
+  }
+
+  async get(accessKeyId: string): Promise<AccessKey | null> {
+    const root = this.rootKey();
+    if (root && root.accessKeyId === accessKeyId) return root;
+
+    const configured = this.configKeys().find(k => k.accessKeyId === accessKeyId);
+    if (configured) return configured;
+
+    return this.fromKv(accessKeyId, await this.env.BUCKET_STATE_KV.get(this.PREFIX + accessKeyId, 'json'));
+  }
+
+  async list(): Promise<AccessKey[]> {
+    const keys: AccessKey[] = [];
+    const root = this.rootKey();
+    if (root) keys.push(root);
+    keys.push(...this.configKeys());
+
+    let cursor: string | undefined = undefined;
+    do {
+      const page: KVNamespaceListResult<unknown> = await this.env.BUCKET_STATE_KV.list({ prefix: this.PREFIX, cursor });
+      for (const item of page.keys) {
+        const stored = this.fromKv(item.name.substring(this.PREFIX.length), await this.env.BUCKET_STATE_KV.get(item.name, 'json'));
+        if (stored) keys.push(stored);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return keys;
+  }
+
+  // 新建或更新 KV 中的密钥 (未提供 secretAccessKey 时随机生成)
+  async put(input: unknown): Promise<AccessKey> {
+    const key = normalizeAccessKey(isRecord(input) ? { ...input, secretAccessKey: input.secretAccessKey ?? this.randomSecret() } : input);
+    const existing = await this.get(key.accessKeyId);
+    if (existing && existing.source !== 'kv') {
+      throw new S3Error('InvalidArgument', `Access key ${key.accessKeyId} is defined in configuration and cannot be modified`);
+    }
+    await this.env.BUCKET_STATE_KV.put(this.PREFIX + key.accessKeyId, JSON.stringify(key));
+    return { ...key, source: 'kv' };
+  }
+
+  async delete(accessKeyId: string): Promise<boolean> {
+    const existing = await this.get(accessKeyId);
+    if (!existing) return false;
+    if (existing.source !== 'kv') {
+      throw new S3Error('InvalidArgument', `Access key ${accessKeyId} is defined in configuration and cannot be deleted`);
+    }
+    await this.env.BUCKET_STATE_KV.delete(this.PREFIX + accessKeyId);
+    return true;
+  }
+
+  // 根密钥：未设置 VIRTUAL_SECRET_ACCESS_KEY 时为宽松模式 (secret 为空，不校验签名)
+  private rootKey(): AccessKey | null {
+    if (!this.env.VIRTUAL_ACCESS_KEY_ID) return null;
+    return {
+      accessKeyId: this.env.VIRTUAL_ACCESS_KEY_ID,
+      secretAccessKey: (this.env.VIRTUAL_SECRET_ACCESS_KEY || '').trim(),
+      operations: [...OPERATIONS],
+      source: 'root'
+    };
+  }
+
+  // 格式错误的条目打印警告后跳过，不影响其他密钥
+  private configKeys(): AccessKey[] {
+    if (!this.env.ACCESS_KEYS) return [];
+    let entries: unknown;
+    try {
+      entries = JSON.parse(this.env.ACCESS_KEYS);
+    } catch {
+      console.warn('Invalid ACCESS_KEYS: not valid JSON');
+      return [];
+    }
+    if (!Array.isArray(entries)) {
+      console.warn('Invalid ACCESS_KEYS: expected a JSON array');
+      return [];
+    }
+
+    const keys: AccessKey[] = [];
+    for (const entry of entries) {
+      try {
+        keys.push({ ...normalizeAccessKey(entry), source: 'config' });
+      } catch (e: unknown) {
+        console.warn(`Invalid ACCESS_KEYS entry: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    return keys;
+  }
+
+  // KV 中的记录同样校验，格式错误 (或与 Key 名不符) 时视为不存在
+  private fromKv(accessKeyId: string, stored: unknown): AccessKey | null {
+    if (stored === null) return null;
+    try {
+      const key = normalizeAccessKey(stored);
+      if (key.accessKeyId !== accessKeyId) throw new S3Error('InvalidArgument', `record is stored under ${accessKeyId}`);
+      return { ...key, source: 'kv' };
+    } catch (e: unknown) {
+      console.warn(`Invalid ${this.PREFIX}${accessKeyId} record: ${e instanceof Error ? e.message : String(e)}`);
+      return null;
+    }
+  }
+
+  private randomSecret(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(30));
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, 'A').replace(/\//g, 'B');
+  }
+}
@@ -0,0 +1,345 @@
+// src/core/lifecycle.ts
+import { Env } from './config';
+import { ClusterManager } from './cluster';
+import { S3Error } from './errors';
+import { IndexStore, IndexEntry } from './index-store';
+import { VersionStore, VersionRecord } from './versions';
+
+// 生命周期规则 (对应 S3 LifecycleConfiguration 中的 Rule，只支持按天数的动作)
+export interface LifecycleRule {
+  id: string;
+  enabled: boolean;
+  prefix: string;
+  minSize?: number; // ObjectSizeGreaterThan：大小需大于该值
+  maxSize?: number; // ObjectSizeLessThan：大小需小于该值
+  expirationDays?: number; // 当前版本创建后的天数，到期删除 (开启版本控制时写入删除标记)
+  expiredDeleteMarker?: boolean; // 删除已没有其他版本的删除标记
+  noncurrentDays?: number; // 历史版本成为历史版本后的天数，到期永久删除
+  abortIncompleteDays?: number; // 分片上传初始化后的天数，到期取消
+}
+
+// 执行的动作
+// expired: 删除当前版本；noncurrentExpired: 永久删除历史版本
+// deleteMarkerRemoved: 删除孤立的删除标记；uploadAborted: 取消未完成的分片上传
+type LifecycleAction = 'expired' | 'noncurrentExpired' | 'deleteMarkerRemoved' | 'uploadAborted';
+
+export interface LifecycleItem {
+  key: string;
+  rule: string;
+  size?: number;
+  versionId?: string;
+  uploadId?: string;
+}
+
+export interface LifecycleReport {
+  startedAt: number;
+  completedAt?: number;
+  dryRun: boolean; // 只报告，不删除
+  scanned: number;
+  bytes: number; // 已删除 (或转为历史版本) 的数据量
+  counts: Record<LifecycleAction, number>;
+  samples: Record<LifecycleAction, LifecycleItem[]>; // 每类最多保留 MAX_SAMPLES 条
+  failed: number;
+  errors: { key: string; reason: string }[]; // 最多保留 MAX_ERRORS 条
+}
+
+// 一轮按 uploads -> current -> versions 的顺序执行，跨多次 cron 保存进度
+type LifecyclePhase = 'uploads' | 'current' | 'versions';
+
+interface LifecycleState {
+  phase: LifecyclePhase;
+  cursor?: string; // 当前阶段 KV 列表的游标
+  report: LifecycleReport;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 与 S3 一致：从创建时间起算的天数取整到下一个 UTC 零点
+function isDue(since: number, days: number, now: number): boolean {
+  return now >= Math.ceil(since / DAY_MS) * DAY_MS + days * DAY_MS;
+}
+
+// 校验规则，返回全部问题 (为空表示有效)
+function validateLifecycleRules(rules: LifecycleRule[]): string[] {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  if (rules.length > 1000) problems.push('at most 1000 rules are allowed');
+
+  for (const rule of rules) {
+    const label = `rule "${rule.id}"`;
+    if (!rule.id || rule.id.length > 255) problems.push(`${label}: ID must be 1-255 characters`);
+    if (ids.has(rule.id)) problems.push(`${label}: duplicate ID`);
+    ids.add(rule.id);
+
+    const days = { expirationDays: rule.expirationDays, noncurrentDays: rule.noncurrentDays, abortIncompleteDays: rule.abortIncompleteDays };
+    for (const [field, value] of Object.entries(days)) {
+      if (value !== undefined && !(Number.isInteger(value) && value > 0)) problems.push(`${label}: ${field} must be a positive integer`);
+    }
+    for (const value of [rule.minSize, rule.maxSize]) {
+      if (value !== undefined && !(Number.isInteger(value) && value >= 0)) problems.push(`${label}: object size must be a non-negative integer`);
+    }
+    if (rule.minSize !== undefined && rule.maxSize !== undefined && rule.minSize >= rule.maxSize) {
+      problems.push(`${label}: ObjectSizeGreaterThan must be less than ObjectSizeLessThan`);
+    }
+    if (rule.expirationDays === undefined && !rule.expiredDeleteMarker && rule.noncurrentDays === undefined && rule.abortIncompleteDays === undefined) {
+      problems.push(`${label}: at least one action is required`);
+    }
+    if (rule.expirationDays !== undefined && rule.expiredDeleteMarker) {
+      problems.push(`${label}: Days and ExpiredObjectDeleteMarker cannot be specified together`);
+    }
+    if (rule.abortIncompleteDays !== undefined && (rule.minSize !== undefined || rule.maxSize !== undefined)) {
+      problems.push(`${label}: AbortIncompleteMultipartUpload cannot be combined with an object size filter`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * 生命周期管理
+ * 规则保存在 KV (LIFECYCLE_RULES，可通过 PutBucketLifecycleConfiguration 设置或直接写入 JSON)。
+ * 由 scheduled 触发，按索引、历史版本与分片上传会话判定到期的对象并删除，
+ * 每次执行最多处理 LIFECYCLE_PAGES_PER_RUN 页，一轮结束后生成报告。
+ */
+export class LifecycleManager {
+  private env: Env;
+  private cluster: ClusterManager;
+  private index: IndexStore;
+  private versions: VersionStore;
+
+  private readonly RULES_KEY = 'LIFECYCLE_RULES';
+  private readonly STATE_KEY = 'LIFECYCLE_STATE';
+  private readonly REPORT_KEY = 'LIFECYCLE_REPORT';
+  private readonly MAX_SAMPLES = 1000;
+  private readonly MAX_ERRORS = 100;
+
+  constructor(env: Env, cluster?: ClusterManager) {
+    this.env = env;
+    this.cluster = cluster || new ClusterManager(env);
+    this.index = new IndexStore(env);
+    this.versions = new VersionStore(env);
+  }
+
+  // === 规则管理 ===
+
+  // 未配置时返回 null
+  async getRules(): Promise<LifecycleRule[] | null> {
+    const stored = await this.env.BUCKET_STATE_KV.get<{ rules: LifecycleRule[] }>(this.RULES_KEY, 'json');
+    return stored ? stored.rules : null;
+  }
+
+  async putRules(rules: LifecycleRule[]) {
+    const problems = validateLifecycleRules(rules);
+    if (problems.length > 0) throw new S3Error('InvalidArgument', problems.join('; '));
+    await this.env.BUCKET_STATE_KV.put(this.RULES_KEY, JSON.stringify({ rules }));
+  }
+
+  // 删除规则，同时放弃进行中的一轮
+  async deleteRules() {
+    await this.env.BUCKET_STATE_KV.delete(this.RULES_KEY);
+    await this.env.BUCKET_STATE_KV.delete(this.STATE_KEY);
+  }
+
+  // 最近一次完成的报告 + 进行中的进度
+  async getReport(): Promise<{ last: LifecycleReport | null; inProgress: (LifecycleReport & { phase: LifecyclePhase }) | null }> {
+    const last = await this.env.BUCKET_STATE_KV.get<LifecycleReport>(this.REPORT_KEY, 'json');
+    const state = await this.env.BUCKET_STATE_KV.get<LifecycleState>(this.STATE_KEY, 'json');
+    return {
+      last,
+      inProgress: state ? { ...state.report, phase: state.phase } : null
+    };
+  }
+
+  // === 执行 ===
+
+  // 执行一段；一轮完成时返回报告
+  async run(): Promise<LifecycleReport | null> {
+    const rules = await this.activeRules();
+    if (rules.length === 0) return null;
+
+    const state = (await this.env.BUCKET_STATE_KV.get<LifecycleState>(this.STATE_KEY, 'json')) || this.newState();
+    const pagesPerRun = parseInt(this.env.LIFECYCLE_PAGES_PER_RUN || '') || 3;
+    const now = Date.now();
+    let done = false;
+
+    for (let pages = 0; pages < pagesPerRun && !done; pages++) {
+      if (state.phase === 'uploads') {
+        // 会话记录数量有限，一次处理完
+        await this.abortUploads(state.report, rules, now);
+        state.phase = 'current';
+        continue;
+      }
+
+      if (state.phase === 'current') {
+        if (!rules.some(r => r.expirationDays !== undefined)) {
+          state.phase = 'versions';
+          continue;
+        }
+        const page = await this.index.listPage('', state.cursor);
+        for (const entry of page.entries) {
+          state.report.scanned++;
+          await this.expireCurrent(state.report, rules, entry, now);
+        }
+        state.cursor = page.cursor;
+        if (!page.cursor) state.phase = 'versions';
+        continue;
+      }
+
+      if (!rules.some(r => r.noncurrentDays !== undefined || r.expiredDeleteMarker)) {
+        done = true;
+        continue;
+      }
+      const page = await this.versions.listPage('', state.cursor);
+      for (const entry of page.entries) {
+        state.report.scanned++;
+        await this.expireVersions(state.report, rules, entry.key, entry.versions, now);
+      }
+      state.cursor = page.cursor;
+      done = !page.cursor;
+    }
+
+    // 推进进度；历史版本也处理完则结束本轮
+    if (!done) {
+      await this.env.BUCKET_STATE_KV.put(this.STATE_KEY, JSON.stringify(state));
+      return null;
+    }
+
+    const report = state.report;
+    report.completedAt = Date.now();
+    await this.env.BUCKET_STATE_KV.put(this.REPORT_KEY, JSON.stringify(report));
+    await this.env.BUCKET_STATE_KV.delete(this.STATE_KEY);
+    console.log(`Lifecycle run finished${report.dryRun ? ' (dry run)' : ''}: ${report.scanned} scanned, ${JSON.stringify(report.counts)}, ${report.bytes} bytes, ${report.failed} failed`);
+    return report;
+  }
+
+  // 启用的规则；直接写入 KV 的配置无效时不执行任何规则，避免误删
+  private async activeRules(): Promise<LifecycleRule[]> {
+    const rules = await this.getRules();
+    if (!rules) return [];
+    const problems = validateLifecycleRules(rules);
+    if (problems.length > 0) {
+      console.error(`Invalid lifecycle rules, skipping: ${problems.join('; ')}`);
+      return [];
+    }
+    return rules.filter(r => r.enabled);
+  }
+
+  // 第一个满足条件的规则 (size 为 undefined 时不比较大小)
+  private match(rules: LifecycleRule[], key: string, size: number | undefined, due: (rule: LifecycleRule) => boolean): LifecycleRule | undefined {
+    return rules.find(r =>
+      key.startsWith(r.prefix) &&
+      (size === undefined || r.minSize === undefined || size > r.minSize) &&
+      (size === undefined || r.maxSize === undefined || size < r.maxSize) &&
+      due(r)
+    );
+  }
+
+  private async abortUploads(report: LifecycleReport, rules: LifecycleRule[], now: number) {
+    if (!rules.some(r => r.abortIncompleteDays !== undefined)) return;
+
+    for (const upload of await this.cluster.listMultipartUploads()) {
+      const rule = this.match(rules, upload.key, undefined, r => r.abortIncompleteDays !== undefined && isDue(upload.initiated.getTime(), r.abortIncompleteDays, now));
+      if (!rule) continue;
+      try {
+        if (!report.dryRun) {
+          const session = await this.cluster.getMultipartSession(upload.uploadId);
+          if (!session) continue;
+          await this.cluster.abortMultipartUpload(session);
+        }
+        this.record(report, 'uploadAborted', { key: upload.key, rule: rule.id, uploadId: upload.uploadId });
+      } catch (e: unknown) {
+        this.fail(report, upload.key, e instanceof Error ? e.message : String(e));
+      }
+    }
+  }
+
+  private async expireCurrent(report: LifecycleReport, rules: LifecycleRule[], entry: IndexEntry, now: number) {
+    const rule = this.match(rules, entry.key, entry.size, r => r.expirationDays !== undefined && isDue(entry.lastModified, r.expirationDays, now));
+    if (!rule) return;
+
+    try {
+      if (!report.dryRun) {
+        // 列表之后被覆盖的文件以新版本为准，不删除
+        const meta = await this.cluster.locateFile(entry.key);
+        if (!meta || meta.etag !== entry.etag || meta.lastModified !== entry.lastModified) return;
+        if (this.cluster.isVersioningEnabled()) {
+          await this.cluster.createDeleteMarker(entry.key);
+        } else {
+          await this.cluster.removeObject(entry.key, meta);
+        }
+      }
+      this.record(report, 'expired', { key: entry.key, rule: rule.id, size: entry.size });
+      report.bytes += entry.size;
+    } catch (e: unknown) {
+      this.fail(report, entry.key, e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  // 历史版本 (新的在前) 自下一个版本写入时起成为历史版本；当前版本为删除标记时 history[0] 即为最新版本
+  private async expireVersions(report: LifecycleReport, rules: LifecycleRule[], key: string, history: VersionRecord[], now: number) {
+    const current = await this.cluster.locateFile(key);
+    let successor = current ? current.lastModified : undefined;
+    const remaining: VersionRecord[] = [];
+
+    for (const version of history) {
+      const since = successor;
+      successor = version.lastModified;
+      const rule = since === undefined ? undefined : this.match(rules, key, version.deleteMarker ? undefined : version.size,
+        r => r.noncurrentDays !== undefined && isDue(since, r.noncurrentDays, now));
+      if (!rule) {
+        remaining.push(version);
+        continue;
+      }
+      if (await this.removeVersion(report, key, version)) {
+        this.record(report, 'noncurrentExpired', { key, rule: rule.id, size: version.size, versionId: version.versionId });
+        if (!version.deleteMarker) report.bytes += version.size;
+      } else {
+        remaining.push(version);
+      }
+    }
+
+    // 只剩删除标记时它已没有意义
+    const marker = remaining[0];
+    if (current || remaining.length !== 1 || !marker.deleteMarker) return;
+    const rule = this.match(rules, key, undefined, r => r.expiredDeleteMarker === true);
+    if (rule && await this.removeVersion(report, key, marker)) {
+      this.record(report, 'deleteMarkerRemoved', { key, rule: rule.id, versionId: marker.versionId });
+    }
+  }
+
+  private async removeVersion(report: LifecycleReport, key: string, version: VersionRecord): Promise<boolean> {
+    if (report.dryRun) return true;
+    try {
+      return (await this.cluster.deleteVersion(key, version.versionId)) !== null;
+    } catch (e: unknown) {
+      this.fail(report, key, e instanceof Error ? e.message : String(e));
+      return false;
+    }
+  }
+
+  private newState(): LifecycleState {
+    return {
+      phase: 'uploads',
+      report: {
+        startedAt: Date.now(),
+        dryRun: this.env.LIFECYCLE_MODE === 'report',
+        scanned: 0,
+        bytes: 0,
+        counts: { expired: 0, noncurrentExpired: 0, deleteMarkerRemoved: 0, uploadAborted: 0 },
+        samples: { expired: [], noncurrentExpired: [], deleteMarkerRemoved: [], uploadAborted: [] },
+        failed: 0,
+        errors: []
+      }
+    };
+  }
+
+  private record(report: LifecycleReport, action: LifecycleAction, item: LifecycleItem) {
+    report.counts[action]++;
+    if (report.samples[action].length < this.MAX_SAMPLES) report.samples[action].push(item);
+  }
+
+  private fail(report: LifecycleReport, key: string, reason: string) {
+    console.error(`Lifecycle action failed for ${key}: ${reason}`);
+    report.failed++;
+    if (report.errors.length < this.MAX_ERRORS) report.errors.push({ key, reason });
+  }
+}
@@ -0,0 +1,389 @@
+// src/core/metrics.ts
+import { Env } from './config';
+import { BucketUsage } from './index-store';
+
+// 后端延迟直方图的区间上界 (毫秒)，最后一格为 +Inf
+export const LATENCY_BOUNDS_MS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+// 按状态码计数：操作 -> 状态码 (或 error) -> 次数
+export type RequestCounts = Record<string, Record<string, number>>;
+
+export interface CacheCounts {
+  hits: number;
+  misses: number;
+  hitBytes: number; // 由 Edge Cache 直接返回的字节数 (未产生后端出口流量)
+}
+
+export interface BucketMetrics {
+  bytesUploaded: number;
+  bytesDownloaded: number; // 从后端读取的字节数 (按响应的 Content-Length 计，即后端出口流量的上限)
+  cache: CacheCounts;
+  requests: RequestCounts; // 发往后端的请求
+  latency: number[]; // 各延迟区间的请求数 (与 LATENCY_BOUNDS_MS 对应，多一格 +Inf)
+  latencySum: number;
+}
+
+// 一天内的统计 (单个 isolate 的累计值，或多个 isolate 合并后的结果)
+export interface MetricsData {
+  day: string; // UTC 日期 YYYY-MM-DD
+  requests: RequestCounts; // 客户端请求：S3 操作 -> 状态码 -> 次数
+  cache: CacheCounts;
+  buckets: Record<string, BucketMetrics>;
+}
+
+export interface LatencySummary {
+  count: number;
+  avg: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface MetricsReport {
+  from: string;
+  to: string;
+  requests: RequestCounts;
+  cache: CacheCounts & { hitRatio: number | null };
+  buckets: Record<string, {
+    objects: number;
+    bytesStored: number;
+    bytesUploaded: number;
+    bytesDownloaded: number;
+    cache: CacheCounts & { hitRatio: number | null };
+    requests: RequestCounts;
+    latencyMs: LatencySummary;
+  }>;
+}
+
+// 每个 isolate 内先在内存中累计当天的统计，按间隔整体写入 KV 中属于本 isolate 的记录
+// 各 isolate 只覆盖自己的记录，无需读-改-写；定时任务再按天合并为一条汇总记录
+let isolateId: string | null = null;
+let current: MetricsData | null = null;
+let unflushed: MetricsData | null = null; // 跨天时尚未写入的前一天统计
+let dirty = false;
+let lastFlush = 0;
+
+/**
+ * 运行统计
+ * 记录客户端请求、Edge Cache 命中、各桶的后端请求 / 延迟 / 上传与下载字节数。
+ * isolate 被回收时最近一次写入之后的统计会丢失，因此数值是近似值 (偏低)
+ */
+export class MetricsRecorder {
+  private kv: KVNamespace;
+  private flushIntervalMs: number;
+
+  private readonly PREFIX = 'METRICS:';
+  private readonly DAY_PREFIX = 'METRICS_DAY:'; // 按天汇总 (由 rollup 写入)
+  private readonly BULK_GET_SIZE = 100;
+  private readonly RETENTION_SECONDS = 40 * 24 * 3600;
+
+  constructor(env: Env) {
+    this.kv = env.BUCKET_STATE_KV;
+    const interval = parseInt(env.METRICS_FLUSH_INTERVAL_MS || '');
+    this.flushIntervalMs = isNaN(interval) ? 60000 : interval;
+  }
+
+  // 0 表示不记录统计
+  get enabled(): boolean {
+    return this.flushIntervalMs > 0;
+  }
+
+  // === 记录 ===
+
+  recordRequest(operation: string, status: number) {
+    if (!this.enabled) return;
+    increment(this.data().requests, operation, String(status));
+  }
+
+  // status 为 error 表示超时或网络错误 (未收到响应)
+  recordBackendRequest(bucket: string, operation: string, status: number | 'error', latencyMs: number) {
+    if (!this.enabled) return;
+    const metrics = this.bucketFor(bucket);
+    increment(metrics.requests, operation, String(status));
+    const slot = LATENCY_BOUNDS_MS.findIndex(bound => latencyMs <= bound);
+    metrics.latency[slot === -1 ? LATENCY_BOUNDS_MS.length : slot]++;
+    metrics.latencySum += latencyMs;
+  }
+
+  recordUpload(bucket: string, bytes: number) {
+    if (!this.enabled || !(bytes > 0)) return;
+    this.bucketFor(bucket).bytesUploaded += bytes;
+  }
+
+  recordDownload(bucket: string, bytes: number) {
+    if (!this.enabled || !(bytes > 0)) return;
+    this.bucketFor(bucket).bytesDownloaded += bytes;
+  }
+
+  // 命中的缓存响应带有 X-Served-By，可以归属到原先提供该文件的桶
+  recordCacheHit(bucket: string | null, bytes: number) {
+    if (!this.enabled) return;
+    const data = this.data();
+    data.cache.hits++;
+    data.cache.hitBytes += bytes || 0;
+    if (bucket) {
+      const metrics = this.bucketFor(bucket);
+      metrics.cache.hits++;
+      metrics.cache.hitBytes += bytes || 0;
+    }
+  }
+
+  recordCacheMiss(bucket: string) {
+    if (!this.enabled) return;
+    this.data().cache.misses++;
+    this.bucketFor(bucket).cache.misses++;
+  }
+
+  // 距上次写入超过间隔时写入 KV (force 时立即写入)
+  async flush(force = false) {
+    if (!this.enabled) return;
+    if (!force && Date.now() - lastFlush < this.flushIntervalMs) return;
+    lastFlush = Date.now();
+
+    const pending = [unflushed, dirty ? current : null].filter((d): d is MetricsData => d !== null);
+    unflushed = null;
+    dirty = false;
+    if (!isolateId) isolateId = crypto.randomUUID();
+    for (const data of pending) {
+      await this.kv.put(`${this.PREFIX}${data.day}:${isolateId}`, JSON.stringify(data), {
+        expirationTtl: this.RETENTION_SECONDS
+      });
+    }
+  }
+
+  // === 查询 ===
+
+  // 最近 days 天 (含今天) 的统计：每天读取一条汇总记录，尚未汇总 (定时任务未运行) 时才合并各 isolate 的记录
+  async load(days = 1): Promise<MetricsData[]> {
+    const names = Array.from({ length: days }, (_, i) => utcDay(Date.now() - (days - 1 - i) * 86400000));
+    const rolled = await this.kv.get<MetricsData>(names.map(day => this.DAY_PREFIX + day), 'json');
+
+    const result: MetricsData[] = [];
+    for (const day of names) {
+      result.push(rolled.get(this.DAY_PREFIX + day) || (await this.mergeShards(day)) || emptyData(day));
+    }
+    return result;
+  }
+
+  // 把今天与昨天各 isolate 的记录合并为汇总记录 (由 scheduled 调用)
+  // isolate 记录是当天的累计值，每次重新合并即可；跨天后迟到的前一天记录在次日仍会被计入
+  async rollup() {
+    const now = Date.now();
+    for (const day of [utcDay(now - 86400000), utcDay(now)]) {
+      const merged = await this.mergeShards(day);
+      if (merged) {
+        await this.kv.put(this.DAY_PREFIX + day, JSON.stringify(merged), { expirationTtl: this.RETENTION_SECONDS });
+      }
+    }
+  }
+
+  // 合并某一天全部 isolate 的记录 (批量读取)；没有记录时返回 null
+  private async mergeShards(day: string): Promise<MetricsData | null> {
+    const names: string[] = [];
+    let cursor: string | undefined = undefined;
+    do {
+      const page: KVNamespaceListResult<unknown> = await this.kv.list({ prefix: `${this.PREFIX}${day}:`, cursor });
+      page.keys.forEach(item => names.push(item.name));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    if (names.length === 0) return null;
+
+    const merged = emptyData(day);
+    for (let i = 0; i < names.length; i += this.BULK_GET_SIZE) {
+      const shards = await this.kv.get<MetricsData>(names.slice(i, i + this.BULK_GET_SIZE), 'json');
+      shards.forEach(shard => {
+        if (shard) mergeData(merged, shard);
+      });
+    }
+    return merged;
+  }
+
+  // === 内部 ===
+
+  private data(): MetricsData {
+    const day = utcDay(Date.now());
+    if (!current || current.day !== day) {
+      if (current && dirty) unflushed = current;
+      current = emptyData(day);
+    }
+    dirty = true;
+    return current;
+  }
+
+  private bucketFor(bucket: string): BucketMetrics {
+    const data = this.data();
+    return data.buckets[bucket] || (data.buckets[bucket] = emptyBucket());
+  }
+}
+
+// === 汇总与输出 ===
+
+// JSON 报告：请求计数与字节数为区间内的合计，对象数与存储量为当前值 (来自索引清单)
+export function buildMetricsReport(days: MetricsData[], usage: Record<string, BucketUsage>): MetricsReport {
+  const total = emptyData(days[days.length - 1]?.day || utcDay(Date.now()));
+  days.forEach(d => mergeData(total, d));
+
+  const report: MetricsReport = {
+    from: days[0]?.day || total.day,
+    to: total.day,
+    requests: total.requests,
+    cache: withRatio(total.cache),
+    buckets: {}
+  };
+  const names = new Set([...Object.keys(usage), ...Object.keys(total.buckets)]);
+  for (const name of names) {
+    const metrics = total.buckets[name] || emptyBucket();
+    report.buckets[name] = {
+      objects: usage[name]?.objects || 0,
+      bytesStored: usage[name]?.bytes || 0,
+      bytesUploaded: metrics.bytesUploaded,
+      bytesDownloaded: metrics.bytesDownloaded,
+      cache: withRatio(metrics.cache),
+      requests: metrics.requests,
+      latencyMs: summarizeLatency(metrics)
+    };
+  }
+  return report;
+}
+
+// Prometheus 文本格式：计数器为当天 (UTC) 的累计值，每天零点归零
+export function metricsToPrometheus(today: MetricsData, usage: Record<string, BucketUsage>): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string, samples: [Record<string, string>, number][]) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    samples.forEach(([labels, value]) => lines.push(`${name}${formatLabels(labels)} ${value}`));
+  };
+  const names = Array.from(new Set([...Object.keys(usage), ...Object.keys(today.buckets)])).sort();
+  const bucketOf = (name: string) => today.buckets[name] || emptyBucket();
+
+  metric('b2tocf_bucket_objects', 'gauge', 'Objects stored per bucket (from the index).',
+    names.map(b => [{ bucket: b }, usage[b]?.objects || 0]));
+  metric('b2tocf_bucket_stored_bytes', 'gauge', 'Bytes stored per bucket (from the index).',
+    names.map(b => [{ bucket: b }, usage[b]?.bytes || 0]));
+  metric('b2tocf_bucket_uploaded_bytes_total', 'counter', 'Bytes written to the backend today.',
+    names.map(b => [{ bucket: b }, bucketOf(b).bytesUploaded]));
+  metric('b2tocf_bucket_downloaded_bytes_total', 'counter', 'Bytes read from the backend (egress) today.',
+    names.map(b => [{ bucket: b }, bucketOf(b).bytesDownloaded]));
+  metric('b2tocf_cache_hits_total', 'counter', 'Edge cache hits today.',
+    names.map(b => [{ bucket: b }, bucketOf(b).cache.hits]));
+  metric('b2tocf_cache_misses_total', 'counter', 'Edge cache misses today.',
+    names.map(b => [{ bucket: b }, bucketOf(b).cache.misses]));
+  metric('b2tocf_cache_hit_bytes_total', 'counter', 'Bytes served from the edge cache today.',
+    names.map(b => [{ bucket: b }, bucketOf(b).cache.hitBytes]));
+
+  metric('b2tocf_backend_requests_total', 'counter', 'Backend requests today by operation and status.',
+    names.flatMap(b => flattenCounts(bucketOf(b).requests).map(([operation, status, count]) =>
+      [{ bucket: b, operation, status }, count] as [Record<string, string>, number])));
+
+  lines.push('# HELP b2tocf_backend_latency_ms Backend request latency today.', '# TYPE b2tocf_backend_latency_ms histogram');
+  for (const b of names) {
+    const metrics = bucketOf(b);
+    let cumulative = 0;
+    LATENCY_BOUNDS_MS.forEach((bound, i) => {
+      cumulative += metrics.latency[i];
+      lines.push(`b2tocf_backend_latency_ms_bucket${formatLabels({ bucket: b, le: String(bound) })} ${cumulative}`);
+    });
+    cumulative += metrics.latency[LATENCY_BOUNDS_MS.length];
+    lines.push(`b2tocf_backend_latency_ms_bucket${formatLabels({ bucket: b, le: '+Inf' })} ${cumulative}`);
+    lines.push(`b2tocf_backend_latency_ms_sum${formatLabels({ bucket: b })} ${metrics.latencySum}`);
+    lines.push(`b2tocf_backend_latency_ms_count${formatLabels({ bucket: b })} ${cumulative}`);
+  }
+
+  metric('b2tocf_requests_total', 'counter', 'Client requests today by S3 operation and status.',
+    flattenCounts(today.requests).map(([operation, status, count]) => [{ operation, status }, count]));
+  return lines.join('\n') + '\n';
+}
+
+// 由直方图估算百分位 (区间内线性插值，落在 +Inf 区间时取最大的有限上界)
+function summarizeLatency(metrics: BucketMetrics): LatencySummary {
+  const count = metrics.latency.reduce((a, b) => a + b, 0);
+  const percentile = (p: number): number => {
+    if (count === 0) return 0;
+    const target = p * count;
+    let cumulative = 0;
+    for (let i = 0; i < metrics.latency.length; i++) {
+      const inSlot = metrics.latency[i];
+      if (cumulative + inSlot >= target && inSlot > 0) {
+        if (i >= LATENCY_BOUNDS_MS.length) return LATENCY_BOUNDS_MS[LATENCY_BOUNDS_MS.length - 1];
+        const lower = i === 0 ? 0 : LATENCY_BOUNDS_MS[i - 1];
+        return Math.round(lower + (LATENCY_BOUNDS_MS[i] - lower) * (target - cumulative) / inSlot);
+      }
+      cumulative += inSlot;
+    }
+    return LATENCY_BOUNDS_MS[LATENCY_BOUNDS_MS.length - 1];
+  };
+  return {
+    count,
+    avg: count > 0 ? Math.round(metrics.latencySum / count) : 0,
+    p50: percentile(0.5),
+    p90: percentile(0.9),
+    p99: percentile(0.99)
+  };
+}
+
+function withRatio(cache: CacheCounts): CacheCounts & { hitRatio: number | null } {
+  const lookups = cache.hits + cache.misses;
+  return { ...cache, hitRatio: lookups > 0 ? Math.round(cache.hits / lookups * 10000) / 10000 : null };
+}
+
+function flattenCounts(counts: RequestCounts): [string, string, number][] {
+  return Object.entries(counts).flatMap(([operation, byStatus]) =>
+    Object.entries(byStatus).map(([status, count]) => [operation, status, count] as [string, string, number]));
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function increment(counts: RequestCounts, operation: string, status: string, by = 1) {
+  const byStatus = counts[operation] || (counts[operation] = {});
+  byStatus[status] = (byStatus[status] || 0) + by;
+}
+
+function mergeCounts(into: RequestCounts, from: RequestCounts) {
+  for (const [operation, byStatus] of Object.entries(from || {})) {
+    for (const [status, count] of Object.entries(byStatus)) increment(into, operation, status, count);
+  }
+}
+
+function mergeCache(into: CacheCounts, from?: CacheCounts) {
+  into.hits += from?.hits || 0;
+  into.misses += from?.misses || 0;
+  into.hitBytes += from?.hitBytes || 0;
+}
+
+function mergeData(into: MetricsData, from: MetricsData) {
+  mergeCounts(into.requests, from.requests);
+  mergeCache(into.cache, from.cache);
+  for (const [name, metrics] of Object.entries(from.buckets || {})) {
+    const target = into.buckets[name] || (into.buckets[name] = emptyBucket());
+    target.bytesUploaded += metrics.bytesUploaded || 0;
+    target.bytesDownloaded += metrics.bytesDownloaded || 0;
+    mergeCache(target.cache, metrics.cache);
+    mergeCounts(target.requests, metrics.requests);
+    (metrics.latency || []).forEach((n, i) => {
+      if (i < target.latency.length) target.latency[i] += n;
+    });
+    target.latencySum += metrics.latencySum || 0;
+  }
+}
+
+function emptyData(day: string): MetricsData {
+  return { day, requests: {}, cache: { hits: 0, misses: 0, hitBytes: 0 }, buckets: {} };
+}
+
+function emptyBucket(): BucketMetrics {
+  return {
+    bytesUploaded: 0,
+    bytesDownloaded: 0,
+    cache: { hits: 0, misses: 0, hitBytes: 0 },
+    requests: {},
+    latency: new Array(LATENCY_BOUNDS_MS.length + 1).fill(0),
+    latencySum: 0
+  };
+}
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().substring(0, 10);
+}
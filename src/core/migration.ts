@@ -0,0 +1,248 @@
+// src/core/migration.ts
+import { Env } from './config';
+import { ClusterManager, pickUploadBuckets } from './cluster';
+import { S3Error } from './errors';
+import { IndexStore, ReplicaInfo, FileMetadata, compareKeys, replicasOf } from './index-store';
+
+export type MigrationStatus = 'running' | 'completed' | 'cancelled';
+
+// 迁移任务：把 source 桶中的副本逐个搬到其他桶
+export interface MigrationJob {
+  id: string;
+  source: string;
+  target?: string; // 未指定时按选桶策略为每个文件挑选目标桶
+  prefix: string;
+  status: MigrationStatus;
+  cursor?: string; // 当前索引列表页的游标
+  lastKey?: string; // 已处理到的 Key，恢复时跳过不大于它的记录
+  scanned: number;
+  moved: number;
+  bytes: number;
+  skipped: number; // 迁移期间被覆盖 / 删除的文件
+  failed: number;
+  errors: { key: string; reason: string }[]; // 最多保留 MAX_ERRORS 条
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+  leaseUntil?: number; // 正在执行的批次持有的租约，避免 cron 与手动触发重复处理
+}
+
+/**
+ * 桶间迁移
+ * 按索引顺序分批处理：复制 -> 校验 -> 改写索引 -> 删除源副本。
+ * 每批结束后保存进度，由 scheduled 或管理 API 继续执行，中断后可从上次的位置恢复。
+ */
+export class BucketMigrator {
+  private env: Env;
+  private cluster: ClusterManager;
+  private index: IndexStore;
+
+  private readonly PREFIX = 'MIGRATION:';
+  private readonly LEASE_MS = 5 * 60 * 1000;
+  private readonly MAX_ERRORS = 100;
+
+  constructor(env: Env, cluster?: ClusterManager) {
+    this.env = env;
+    this.cluster = cluster || new ClusterManager(env);
+    this.index = new IndexStore(env);
+  }
+
+  // === 任务管理 ===
+
+  async start(source: string, target?: string, prefix = ''): Promise<MigrationJob> {
+    const names = this.cluster.getBucketNames();
+    if (!names.includes(source)) throw new S3Error('InvalidArgument', `Bucket ${source} not found`);
+    if (target && (!names.includes(target) || target === source)) throw new S3Error('InvalidArgument', `Invalid target bucket ${target}`);
+
+    const now = Date.now();
+    const job: MigrationJob = {
+      id: crypto.randomUUID(),
+      source,
+      target,
+      prefix,
+      status: 'running',
+      scanned: 0,
+      moved: 0,
+      bytes: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.save(job);
+    return job;
+  }
+
+  async get(id: string): Promise<MigrationJob | null> {
+    return await this.env.BUCKET_STATE_KV.get<MigrationJob>(this.PREFIX + id, 'json');
+  }
+
+  async list(): Promise<MigrationJob[]> {
+    const jobs: MigrationJob[] = [];
+    let cursor: string | undefined = undefined;
+    do {
+      const page: KVNamespaceListResult<unknown> = await this.env.BUCKET_STATE_KV.list({ prefix: this.PREFIX, cursor });
+      for (const item of page.keys) {
+        const job = await this.env.BUCKET_STATE_KV.get<MigrationJob>(item.name, 'json');
+        if (job) jobs.push(job);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return jobs.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async cancel(id: string): Promise<MigrationJob | null> {
+    const job = await this.get(id);
+    if (!job || job.status !== 'running') return job;
+    job.status = 'cancelled';
+    await this.save(job);
+    return job;
+  }
+
+  // === 执行 ===
+
+  // 为每个进行中的任务执行一批
+  async run() {
+    const jobs = await this.list();
+    for (const job of jobs) {
+      if (job.status !== 'running') continue;
+      await this.runBatch(job.id);
+    }
+  }
+
+  // 执行一批迁移；租约未到期 (另一批仍在执行) 时跳过
+  async runBatch(id: string): Promise<MigrationJob | null> {
+    const job = await this.get(id);
+    if (!job || job.status !== 'running') return job;
+    if (job.leaseUntil && job.leaseUntil > Date.now()) return job;
+
+    job.leaseUntil = Date.now() + this.LEASE_MS;
+    await this.save(job);
+
+    const batchSize = parseInt(this.env.MIGRATION_BATCH_SIZE || '') || 20;
+    const usage = await this.cluster.getBucketsUsage();
+    const writable = await this.cluster.getAvailableBuckets();
+    let processed = 0;
+
+    try {
+      scan: while (true) {
+        const page = await this.index.listPage(job.prefix, job.cursor);
+        for (const entry of page.entries) {
+          if (job.lastKey !== undefined && compareKeys(entry.key, job.lastKey) <= 0) continue;
+          if (processed >= batchSize) break scan;
+
+          job.scanned++;
+          if (entry.bucket === job.source || (entry.replicaBuckets || []).includes(job.source)) {
+            processed++;
+            await this.migrateOne(job, entry.key, usage, writable);
+          }
+          job.lastKey = entry.key;
+        }
+
+        if (!page.cursor) {
+          job.status = 'completed';
+          job.completedAt = Date.now();
+          console.log(`Migration ${job.id} from ${job.source} finished: ${job.moved} moved, ${job.failed} failed`);
+          break;
+        }
+        job.cursor = page.cursor;
+      }
+    } finally {
+      // 期间被取消时保留取消状态
+      const latest = await this.get(job.id);
+      if (latest && latest.status === 'cancelled') job.status = 'cancelled';
+      job.leaseUntil = undefined;
+      await this.save(job);
+    }
+    return job;
+  }
+
+  // 迁移单个文件在源桶中的副本
+  private async migrateOne(job: MigrationJob, key: string, usage: Record<string, number>, writable: string[]) {
+    const meta = await this.cluster.locateFile(key);
+    const replicas = meta ? replicasOf(meta) : [];
+    const from = replicas.find(r => r.bucket === job.source);
+    if (!meta || !from) {
+      job.skipped++;
+      return;
+    }
+
+    const holders = replicas.map(r => r.bucket);
+    let target = job.target;
+    if (!target) {
+      const candidates: Record<string, number> = {};
+      writable
+        .filter(b => b !== job.source && !holders.includes(b))
+        .forEach(b => candidates[b] = usage[b] || 0);
+      target = pickUploadBuckets(candidates, meta.size, this.env, 1)?.[0];
+    }
+    if (!target) {
+      this.fail(job, key, 'No target bucket with enough free space');
+      return;
+    }
+
+    let copy: ReplicaInfo | null = null;
+    let committed = false; // 索引已指向新副本，之后出错也不能删除它
+    try {
+      // 目标桶已有该文件的另一个副本时无需复制，只移除源副本
+      if (!holders.includes(target)) {
+        copy = await this.cluster.replicateTo(target, key, meta);
+        await this.verify(target, key, meta, copy);
+      }
+
+      // 保持副本顺序，源副本原位替换为新副本
+      const next = replicas.flatMap(r => (r.bucket === job.source ? (copy ? [copy] : []) : [r]));
+      const moved: FileMetadata = {
+        ...meta,
+        bucket: next[0].bucket,
+        etag: next[0].etag,
+        versionId: next[0].versionId,
+        replicas: next.length > 1 ? next : undefined
+      };
+
+      // 以迁移开始时读到的记录为条件尽力更新索引 (未绑定协调器时不是原子操作)；期间文件被覆盖或删除时放弃本次复制，保留源副本
+      const expected = { etag: meta.etag, lastModified: meta.lastModified };
+      const conflicts = await this.cluster.applyIndexChanges([{ key, meta: moved, expected }]);
+      if (conflicts.length > 0) {
+        if (copy) await this.cluster.deleteObject(target, key, copy.versionId, false);
+        job.skipped++;
+        return;
+      }
+      committed = true;
+      await this.cluster.deleteObject(job.source, key, from.versionId, false);
+
+      if (copy) usage[target] = (usage[target] || 0) + meta.size;
+      job.moved++;
+      job.bytes += meta.size;
+    } catch (e: unknown) {
+      if (copy && !committed) {
+        await this.cluster.deleteObject(target, key, copy.versionId, false).catch(() => undefined);
+      }
+      this.fail(job, key, e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  // 校验复制结果：大小一致；源 ETag 为 MD5 (非分片上传) 时 ETag 也需一致
+  private async verify(bucket: string, key: string, meta: FileMetadata, copy: ReplicaInfo) {
+    const head = await this.cluster.headObject(bucket, key, copy.versionId);
+    if (!head.ok) throw new Error(`Verification HEAD returned ${head.status}`);
+
+    const size = parseInt(head.headers.get('Content-Length') || '-1');
+    if (size !== meta.size) throw new Error(`Size mismatch after copy: ${size} != ${meta.size}`);
+    if (!meta.etag.includes('-') && copy.etag !== meta.etag) {
+      throw new Error(`ETag mismatch after copy: ${copy.etag} != ${meta.etag}`);
+    }
+  }
+
+  private fail(job: MigrationJob, key: string, reason: string) {
+    console.error(`Migration ${job.id} failed for ${key}: ${reason}`);
+    job.failed++;
+    if (job.errors.length < this.MAX_ERRORS) job.errors.push({ key, reason });
+  }
+
+  private async save(job: MigrationJob) {
+    job.updatedAt = Date.now();
+    await this.env.BUCKET_STATE_KV.put(this.PREFIX + job.id, JSON.stringify(job));
+  }
+}
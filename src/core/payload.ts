@@ -0,0 +1,392 @@
+// src/core/payload.ts
+import { S3Error } from './errors';
+
+// 流式签名上传 (aws-chunked) 校验分块签名所需的上下文，取自请求头签名
+export interface ChunkSigningContext {
+  signingKey: ArrayBuffer;
+  datetime: string;
+  scope: string; // <date>/<region>/s3/aws4_request
+  seedSignature: string; // 请求头中的签名，即第一个分块的 previous signature
+}
+
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+const STREAMING_SIGNED = 'STREAMING-AWS4-HMAC-SHA256-PAYLOAD';
+const STREAMING_SIGNED_TRAILER = 'STREAMING-AWS4-HMAC-SHA256-PAYLOAD-TRAILER';
+const STREAMING_UNSIGNED_TRAILER = 'STREAMING-UNSIGNED-PAYLOAD-TRAILER';
+const EMPTY_SHA256 = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+// 分块头 / 尾部行的长度上限，超过视为格式错误
+const MAX_LINE_LENGTH = 4096;
+// 单个块的大小上限：块在校验签名前需整体缓存在内存中
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+// 校验 x-amz-content-sha256 的取值
+export function checkPayloadHashClaim(claim: string) {
+  if (/^[0-9a-f]{64}$/.test(claim) || claim === UNSIGNED_PAYLOAD) return;
+  if (claim === STREAMING_SIGNED || claim === STREAMING_SIGNED_TRAILER || claim === STREAMING_UNSIGNED_TRAILER) return;
+  if (claim.startsWith('STREAMING-AWS4-ECDSA-P256-SHA256-PAYLOAD')) {
+    throw new S3Error('NotImplemented', 'SigV4a streaming uploads are not supported');
+  }
+  throw new S3Error('InvalidArgument', 'x-amz-content-sha256 must be UNSIGNED-PAYLOAD, STREAMING-* or a valid sha256 value.');
+}
+
+// 定长比较签名，避免逐字节比较的提前返回泄露签名内容
+export function signaturesEqual(a: string, b: string): boolean {
+  const enc = new TextEncoder();
+  const x = enc.encode(a);
+  const y = enc.encode(b);
+  if (x.byteLength !== y.byteLength) return false;
+  return crypto.subtle.timingSafeEqual(x, y);
+}
+
+/**
+ * 经过校验的请求体
+ * - 声明了 SHA256 的请求体边转发边计算摘要
+ * - aws-chunked 请求体解码为原始数据，并逐块校验签名与尾部校验和
+ * 最后一段数据在校验通过后才放行，校验失败时后端收到的是不完整的请求体，不会写入对象
+ */
+export class RequestPayload {
+  readonly body: ReadableStream<Uint8Array> | null;
+  readonly headers: Headers; // 转发给后端的请求头 (Content-Length 为解码后的长度)
+  private failure: S3Error | null = null;
+
+  constructor(request: Request, payloadHash: string, signing: ChunkSigningContext | null) {
+    this.headers = new Headers(request.headers);
+    let body: ReadableStream<Uint8Array> | null = request.body;
+
+    if (body && payloadHash.startsWith('STREAMING-')) {
+      const decoded = parseInt(request.headers.get('x-amz-decoded-content-length') || '');
+      if (!(decoded >= 0)) throw new S3Error('MissingContentLength', 'You must provide the x-amz-decoded-content-length header.');
+
+      const trailers = (request.headers.get('x-amz-trailer') || '')
+        .split(',')
+        .map(t => t.trim().toLowerCase())
+        .filter(t => t);
+      const chunkSigning = payloadHash === STREAMING_UNSIGNED_TRAILER ? null : signing;
+      body = this.decodeChunked(body, chunkSigning, trailers, decoded);
+
+      // 去掉 aws-chunked 相关的头，后端看到的是普通上传
+      this.headers.set('Content-Length', decoded.toString());
+      const encoding = (request.headers.get('Content-Encoding') || '')
+        .split(',')
+        .map(e => e.trim())
+        .filter(e => e && e.toLowerCase() !== 'aws-chunked');
+      if (encoding.length > 0) this.headers.set('Content-Encoding', encoding.join(','));
+      else this.headers.delete('Content-Encoding');
+      this.headers.delete('x-amz-decoded-content-length');
+      this.headers.delete('x-amz-trailer');
+    } else if (body && /^[0-9a-f]{64}$/.test(payloadHash)) {
+      body = this.verifyDigest(body, payloadHash);
+    }
+    this.headers.delete('x-amz-content-sha256');
+
+    // 经过转换的流需要显式的长度，否则会以 chunked 编码发往后端
+    const length = parseInt(this.headers.get('Content-Length') || '');
+    if (body && body !== request.body && length >= 0) {
+      body = body.pipeThrough(new FixedLengthStream(length));
+    }
+    this.body = body;
+  }
+
+  // 执行读取请求体的操作；请求体校验失败时以校验错误代替后端返回的错误
+  async run<T>(fn: (body: ReadableStream<Uint8Array> | null) => Promise<T>): Promise<T> {
+    try {
+      return await fn(this.body);
+    } catch (e) {
+      throw this.failure || e;
+    }
+  }
+
+  async text(): Promise<string> {
+    return await this.run(body => new Response(body).text());
+  }
+
+  private fail(e: S3Error): S3Error {
+    this.failure = this.failure || e;
+    return this.failure;
+  }
+
+  // 声明了 SHA256 的请求体：转发的同时计算摘要，结束时比对
+  private verifyDigest(body: ReadableStream<Uint8Array>, expected: string): ReadableStream<Uint8Array> {
+    const digest = new crypto.DigestStream('SHA-256');
+    const writer = digest.getWriter();
+    let held: Uint8Array | null = null;
+
+    return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform: async (chunk, controller) => {
+        await writer.write(chunk);
+        if (held) controller.enqueue(held);
+        held = chunk;
+      },
+      flush: async controller => {
+        await writer.close();
+        const actual = toHex(await digest.digest);
+        if (actual !== expected) {
+          throw this.fail(new S3Error('XAmzContentSHA256Mismatch', 'The provided \'x-amz-content-sha256\' header does not match what was computed.'));
+        }
+        if (held) controller.enqueue(held);
+      }
+    }));
+  }
+
+  // 解码 aws-chunked：<hex-size>[;chunk-signature=<sig>]\r\n<data>\r\n ... 0[;chunk-signature=<sig>]\r\n<trailers>\r\n
+  private decodeChunked(
+    body: ReadableStream<Uint8Array>,
+    signing: ChunkSigningContext | null,
+    trailerNames: string[],
+    decodedLength: number
+  ): ReadableStream<Uint8Array> {
+    const queue = new ByteQueue();
+    const checksums = new ChecksumSet(trailerNames);
+    let previous = signing?.seedSignature || '';
+    let pendingSize: number | null = null; // 已读到分块头、等待数据的分块大小
+    let pendingSignature = '';
+    let inTrailer = false;
+    let done = false;
+    const trailers: [string, string][] = [];
+    let trailerSignature = '';
+    let emitted = 0;
+    let held: Uint8Array | null = null;
+
+    const malformed = (detail: string) => this.fail(new S3Error('IncompleteBody', `Malformed aws-chunked body: ${detail}`));
+    const readLine = (): string | null => {
+      const line = queue.readLine(MAX_LINE_LENGTH);
+      if (line === undefined) throw malformed('line too long');
+      return line;
+    };
+
+    const process = async (controller: TransformStreamDefaultController<Uint8Array>) => {
+      while (!done) {
+        if (inTrailer) {
+          const line = readLine();
+          if (line === null) return;
+          if (line === '') {
+            done = true;
+            break;
+          }
+          const sep = line.indexOf(':');
+          if (sep <= 0) throw malformed('invalid trailer');
+          const name = line.substring(0, sep).trim().toLowerCase();
+          const value = line.substring(sep + 1).trim();
+          if (name === 'x-amz-trailer-signature') trailerSignature = value;
+          else trailers.push([name, value]);
+          continue;
+        }
+
+        if (pendingSize === null) {
+          const line = readLine();
+          if (line === null) return;
+          const [sizeHex, ...exts] = line.split(';');
+          if (!/^[0-9a-fA-F]{1,16}$/.test(sizeHex)) throw malformed('invalid chunk size');
+          pendingSize = parseInt(sizeHex, 16);
+          // 解析到块头即检查大小，避免先缓存超出声明长度的数据
+          if (pendingSize > MAX_CHUNK_SIZE) throw malformed('chunk size exceeds limit');
+          if (pendingSize > decodedLength - emitted) throw malformed('body exceeds x-amz-decoded-content-length');
+          pendingSignature = exts.find(e => e.startsWith('chunk-signature='))?.substring('chunk-signature='.length) || '';
+          if (signing && !pendingSignature) throw malformed('missing chunk signature');
+        }
+
+        // 结束块 (0 字节) 之后没有数据与换行，直接进入尾部
+        const needed = pendingSize > 0 ? pendingSize + 2 : 0;
+        if (queue.length < needed) return;
+        const data = pendingSize > 0 ? queue.take(pendingSize) : new Uint8Array(0);
+        if (pendingSize > 0 && !queue.takeCRLF()) throw malformed('missing chunk terminator');
+
+        if (signing) {
+          const stringToSign = [
+            'AWS4-HMAC-SHA256-PAYLOAD',
+            signing.datetime,
+            signing.scope,
+            previous,
+            EMPTY_SHA256,
+            toHex(await crypto.subtle.digest('SHA-256', data))
+          ].join('\n');
+          const expected = toHex(await hmac(signing.signingKey, stringToSign));
+          if (!signaturesEqual(expected, pendingSignature)) {
+            throw this.fail(new S3Error('SignatureDoesNotMatch', 'The chunk signature we calculated does not match the signature you provided.'));
+          }
+          previous = pendingSignature;
+        }
+
+        if (pendingSize === 0) {
+          inTrailer = true;
+        } else {
+          emitted += data.byteLength;
+          await checksums.update(data);
+          if (held) controller.enqueue(held);
+          held = data;
+        }
+        pendingSize = null;
+      }
+    };
+
+    return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform: async (chunk, controller) => {
+        if (done) return; // 结束后的多余字节忽略
+        queue.push(chunk);
+        await process(controller);
+      },
+      flush: async controller => {
+        await process(controller);
+        if (!done) throw this.fail(new S3Error('IncompleteBody', 'The request body terminated unexpectedly'));
+        if (emitted !== decodedLength) {
+          throw this.fail(new S3Error('IncompleteBody', 'You did not provide the number of bytes specified by the x-amz-decoded-content-length header.'));
+        }
+
+        // 尾部签名覆盖全部尾部头 (不含签名本身)
+        if (signing && trailerNames.length > 0) {
+          const canonical = trailers.map(([name, value]) => `${name}:${value}\n`).join('');
+          const stringToSign = [
+            'AWS4-HMAC-SHA256-TRAILER',
+            signing.datetime,
+            signing.scope,
+            previous,
+            toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical)))
+          ].join('\n');
+          const expected = toHex(await hmac(signing.signingKey, stringToSign));
+          if (!trailerSignature || !signaturesEqual(expected, trailerSignature)) {
+            throw this.fail(new S3Error('SignatureDoesNotMatch', 'The trailer signature we calculated does not match the signature you provided.'));
+          }
+        }
+
+        for (const name of trailerNames) {
+          const claimed = trailers.find(([n]) => n === name)?.[1];
+          if (claimed === undefined) throw this.fail(new S3Error('IncompleteBody', `Missing trailing header ${name}`));
+          const actual = await checksums.result(name);
+          if (actual !== null && actual !== claimed) {
+            throw this.fail(new S3Error('BadDigest', `The ${name} you specified did not match the calculated checksum.`));
+          }
+        }
+
+        if (held) controller.enqueue(held);
+      }
+    }));
+  }
+}
+
+// 按需拼接的字节队列，避免每次收到数据都复制整个缓冲区
+class ByteQueue {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  push(chunk: Uint8Array) {
+    if (chunk.byteLength === 0) return;
+    this.chunks.push(chunk);
+    this.length += chunk.byteLength;
+  }
+
+  take(n: number): Uint8Array {
+    const out = new Uint8Array(n);
+    let offset = 0;
+    while (offset < n) {
+      const head = this.chunks[0];
+      const count = Math.min(head.byteLength, n - offset);
+      out.set(head.subarray(0, count), offset);
+      offset += count;
+      if (count === head.byteLength) this.chunks.shift();
+      else this.chunks[0] = head.subarray(count);
+    }
+    this.length -= n;
+    return out;
+  }
+
+  takeCRLF(): boolean {
+    const crlf = this.take(2);
+    return crlf[0] === 0x0d && crlf[1] === 0x0a;
+  }
+
+  // 读取一行 (不含 \r\n)；数据不足时返回 null，超过 limit 仍未换行时返回 undefined
+  readLine(limit: number): string | null | undefined {
+    let index = 0;
+    for (const chunk of this.chunks) {
+      const lf = chunk.indexOf(0x0a);
+      if (lf !== -1) {
+        index += lf;
+        if (index > limit) return undefined;
+        const bytes = this.take(index + 1);
+        const end = index > 0 && bytes[index - 1] === 0x0d ? index - 1 : index;
+        return new TextDecoder().decode(bytes.subarray(0, end));
+      }
+      index += chunk.byteLength;
+      if (index > limit) return undefined;
+    }
+    return null;
+  }
+}
+
+// 尾部校验和 (x-amz-checksum-*) 的增量计算
+class ChecksumSet {
+  private crc32: number | null = null;
+  private crc32c: number | null = null;
+  private digests = new Map<string, { stream: DigestStream; writer: WritableStreamDefaultWriter<ArrayBufferView> }>();
+
+  constructor(names: string[]) {
+    for (const name of names) {
+      if (name === 'x-amz-checksum-crc32') this.crc32 = 0;
+      else if (name === 'x-amz-checksum-crc32c') this.crc32c = 0;
+      else if (name === 'x-amz-checksum-sha1' || name === 'x-amz-checksum-sha256') {
+        const stream = new crypto.DigestStream(name === 'x-amz-checksum-sha1' ? 'SHA-1' : 'SHA-256');
+        this.digests.set(name, { stream, writer: stream.getWriter() });
+      }
+    }
+  }
+
+  async update(data: Uint8Array) {
+    if (this.crc32 !== null) this.crc32 = crc(CRC32_TABLE, this.crc32, data);
+    if (this.crc32c !== null) this.crc32c = crc(CRC32C_TABLE, this.crc32c, data);
+    for (const { writer } of this.digests.values()) await writer.write(data);
+  }
+
+  // Base64 编码的校验和；不支持的算法 (如 crc64nvme) 返回 null，不做校验
+  async result(name: string): Promise<string | null> {
+    if (name === 'x-amz-checksum-crc32' && this.crc32 !== null) return crcToBase64(this.crc32);
+    if (name === 'x-amz-checksum-crc32c' && this.crc32c !== null) return crcToBase64(this.crc32c);
+    const digest = this.digests.get(name);
+    if (digest) {
+      await digest.writer.close();
+      return toBase64(await digest.stream.digest);
+    }
+    return null;
+  }
+}
+
+function makeCrcTable(poly: number): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) c = c & 1 ? (c >>> 1) ^ poly : c >>> 1;
+    table[i] = c >>> 0;
+  }
+  return table;
+}
+
+const CRC32_TABLE = makeCrcTable(0xedb88320);
+const CRC32C_TABLE = makeCrcTable(0x82f63b78);
+
+function crc(table: Uint32Array, current: number, data: Uint8Array): number {
+  let c = ~current >>> 0;
+  for (let i = 0; i < data.byteLength; i++) c = table[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return ~c >>> 0;
+}
+
+function crcToBase64(value: number): string {
+  return toBase64(new Uint8Array([value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]));
+}
+
+async function hmac(key: ArrayBuffer, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function toBase64(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = '';
+  bytes.forEach(b => binary += String.fromCharCode(b));
+  return btoa(binary);
+}
@@ -0,0 +1,181 @@
+// src/core/range.ts
+import { FileMetadata } from './index-store';
+
+// 闭区间 [start, end]，已按对象大小截断
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// 单个请求最多接受的区间数，超过时忽略 Range 返回完整内容 (RFC 7233 允许)
+const MAX_RANGES = 16;
+
+/**
+ * 解析 Range 头 (RFC 7233)：
+ * null 表示按完整内容响应 (无 Range、语法无效或 If-Range 不匹配)，空数组表示区间均无法满足 (416)
+ */
+export function readRange(headers: Headers, meta: Pick<FileMetadata, 'etag' | 'lastModified' | 'size'>): ByteRange[] | null {
+  const header = headers.get('range');
+  if (!header) return null;
+
+  // If-Range 不匹配时忽略 Range (ETag 为强比较，日期只精确到秒)
+  const ifRange = headers.get('if-range');
+  if (ifRange !== null) {
+    const trimmed = ifRange.trim();
+    if (trimmed.startsWith('"') || trimmed.startsWith('W/')) {
+      if (trimmed.startsWith('W/') || trimmed.replace(/"/g, '') !== meta.etag) return null;
+    } else if (Date.parse(trimmed) !== Math.floor(meta.lastModified / 1000) * 1000) {
+      return null;
+    }
+  }
+
+  const match = header.match(/^\s*bytes\s*=\s*(.+)$/i);
+  if (!match) return null;
+  const specs = match[1].split(',').map(s => s.trim()).filter(s => s !== '');
+  if (specs.length === 0 || specs.length > MAX_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = spec.match(/^(\d*)\s*-\s*(\d*)$/);
+    if (!parts || (parts[1] === '' && parts[2] === '')) return null;
+
+    if (parts[1] === '') {
+      // 后缀区间：最后 N 个字节
+      const suffix = parseInt(parts[2]);
+      if (suffix > 0 && meta.size > 0) ranges.push({ start: Math.max(0, meta.size - suffix), end: meta.size - 1 });
+      continue;
+    }
+    const start = parseInt(parts[1]);
+    // 开放区间的终点取对象末尾，只有显式给出的终点小于起点才算语法无效
+    const end = parts[2] === '' ? Infinity : parseInt(parts[2]);
+    if (end < start) return null;
+    if (start < meta.size) ranges.push({ start, end: Math.min(end, meta.size - 1) });
+  }
+  return ranges;
+}
+
+export function rangeLength(range: ByteRange): number {
+  return range.end - range.start + 1;
+}
+
+export function contentRange(range: ByteRange, size: number): string {
+  return `bytes ${range.start}-${range.end}/${size}`;
+}
+
+/**
+ * 构造 206 响应：单个区间直接返回，多个区间返回 multipart/byteranges
+ * first 为第一个区间的响应 (提供响应头)，其余区间在输出到对应位置时才通过 open 读取
+ */
+export function rangeResponse(ranges: ByteRange[], size: number, first: Response, open: (range: ByteRange) => Promise<Response>): Response {
+  const headers = new Headers(first.headers);
+  headers.delete('Content-Range');
+  headers.delete('Content-Length');
+
+  if (ranges.length === 1) {
+    const length = rangeLength(ranges[0]);
+    headers.set('Content-Range', contentRange(ranges[0], size));
+    headers.set('Content-Length', length.toString());
+    return new Response(withLength(first.body || emptyStream(), length), { status: 206, headers });
+  }
+
+  const boundary = crypto.randomUUID().replace(/-/g, '');
+  const partType = headers.get('Content-Type') || 'application/octet-stream';
+  const encoder = new TextEncoder();
+  const sources: Array<() => Promise<ReadableStream<Uint8Array>>> = [];
+  let length = 0;
+  const text = (value: string) => {
+    const bytes = encoder.encode(value);
+    length += bytes.byteLength;
+    sources.push(async () => new Blob([bytes]).stream());
+  };
+
+  ranges.forEach((range, i) => {
+    text(`${i > 0 ? '\r\n' : ''}--${boundary}\r\nContent-Type: ${partType}\r\nContent-Range: ${contentRange(range, size)}\r\n\r\n`);
+    length += rangeLength(range);
+    sources.push(async () => (i === 0 ? first : await open(range)).body || emptyStream());
+  });
+  text(`\r\n--${boundary}--\r\n`);
+
+  headers.set('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+  headers.set('Content-Length', length.toString());
+  return new Response(withLength(concatStreams(sources), length), { status: 206, headers });
+}
+
+// 从流中截取 [offset, offset + length) 部分，取够后取消上游
+export function sliceStream(source: ReadableStream<Uint8Array>, offset: number, length: number): ReadableStream<Uint8Array> {
+  const reader = source.getReader();
+  let skip = offset;
+  let remaining = length;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        if (remaining <= 0) {
+          controller.close();
+          await reader.cancel();
+          return;
+        }
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.error(new Error('Stream ended before the requested range was read'));
+          return;
+        }
+        let chunk = value;
+        if (skip > 0) {
+          if (chunk.byteLength <= skip) {
+            skip -= chunk.byteLength;
+            continue;
+          }
+          chunk = chunk.subarray(skip);
+          skip = 0;
+        }
+        if (chunk.byteLength > remaining) chunk = chunk.subarray(0, remaining);
+        remaining -= chunk.byteLength;
+        controller.enqueue(chunk);
+        return;
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+}
+
+// 依次输出多个流，后面的流在前一个读完后才打开
+export function concatStreams(sources: Array<() => Promise<ReadableStream<Uint8Array>>>): ReadableStream<Uint8Array> {
+  let index = 0;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        if (!reader) {
+          if (index >= sources.length) {
+            controller.close();
+            return;
+          }
+          reader = (await sources[index++]()).getReader();
+        }
+        const { done, value } = await reader.read();
+        if (done) {
+          reader = null;
+          continue;
+        }
+        controller.enqueue(value);
+        return;
+      }
+    },
+    async cancel(reason) {
+      if (reader) await reader.cancel(reason);
+    }
+  });
+}
+
+// 拼接 / 截取后的流没有长度信息，需要显式指定才能带上 Content-Length
+function withLength(body: ReadableStream, length: number): ReadableStream {
+  return body.pipeThrough(new FixedLengthStream(length));
+}
+
+function emptyStream(): ReadableStream<Uint8Array> {
+  return new Blob([]).stream();
+}
@@ -0,0 +1,266 @@
+// src/core/reconcile.ts
+import { Env } from './config';
+import { ClusterManager } from './cluster';
+import { IndexStore, IndexEntry, IndexChange, FileMetadata, BucketUsage, compareKeys, replicasOf, pickObjectMetadata } from './index-store';
+
+// 漂移类型
+// added: 后端存在但索引缺失 (绕过代理写入)
+// removed: 索引存在但后端已不存在 (绕过代理删除)
+// mismatched: 两边都有，但所在桶 / 大小 / ETag / 版本 / 副本集合不一致
+// duplicated: 同一个 Key 还存在于副本集合以外的桶
+type DriftKind = 'added' | 'removed' | 'mismatched' | 'duplicated';
+
+export interface DriftItem {
+  key: string;
+  indexed?: { bucket: string; size: number; etag: string };
+  actual?: { bucket: string; size: number; etag: string }[];
+}
+
+export interface DriftReport {
+  startedAt: number;
+  completedAt?: number;
+  repair: boolean; // 是否已自动修正索引
+  scanned: number;
+  counts: Record<DriftKind, number>;
+  samples: Record<DriftKind, DriftItem[]>; // 每类最多保留 MAX_SAMPLES 条
+  usage: Record<string, BucketUsage>; // 本轮统计出的各桶实际用量
+}
+
+// 跨多次 cron 执行的对账进度
+interface ReconcileState {
+  watermark?: string; // 不大于该 Key 的部分已完成对账
+  indexCursor?: string; // 索引列表中包含 watermark 之后首个 Key 的页游标
+  report: DriftReport;
+}
+
+/**
+ * 索引对账
+ * 由 scheduled 触发，每次只处理一段 Key 区间：
+ * 各桶从 watermark 之后列出若干页 ?versions，取所有未列完的桶中最小的末尾 Key 作为本次上界，
+ * 与索引中同一区间的记录逐一比对。一轮走完后生成漂移报告，并以实际用量重置计数。
+ * 列表开始后写入的记录跳过不比对；修正以读到的记录为前置条件尽力写入，期间被其他请求改写的 Key 留待下一轮
+ * (未绑定协调器时比较与写入之间仍有窗口，极少数情况下修正可能覆盖并发写入)。
+ */
+export class IndexReconciler {
+  private env: Env;
+  private cluster: ClusterManager;
+  private index: IndexStore;
+
+  private readonly STATE_KEY = 'RECONCILE_STATE';
+  private readonly REPORT_KEY = 'DRIFT_REPORT';
+  private readonly MAX_SAMPLES = 1000;
+
+  constructor(env: Env, cluster?: ClusterManager) {
+    this.env = env;
+    this.cluster = cluster || new ClusterManager(env);
+    this.index = new IndexStore(env);
+  }
+
+  // 最近一次完成的报告 + 进行中的进度
+  async getReport(): Promise<{ last: DriftReport | null; inProgress: (DriftReport & { watermark?: string }) | null }> {
+    const last = await this.env.BUCKET_STATE_KV.get<DriftReport>(this.REPORT_KEY, 'json');
+    const state = await this.env.BUCKET_STATE_KV.get<ReconcileState>(this.STATE_KEY, 'json');
+    return {
+      last,
+      inProgress: state ? { ...state.report, watermark: state.watermark } : null
+    };
+  }
+
+  // 放弃当前进度，下次执行从头开始新一轮
+  async restart() {
+    await this.env.BUCKET_STATE_KV.delete(this.STATE_KEY);
+  }
+
+  // 执行一段对账；一轮完成时返回报告
+  async run(): Promise<DriftReport | null> {
+    const state = (await this.env.BUCKET_STATE_KV.get<ReconcileState>(this.STATE_KEY, 'json')) || this.newState();
+    const pagesPerRun = parseInt(this.env.RECONCILE_PAGES_PER_RUN || '') || 3;
+    const listedAt = Date.now();
+
+    // 1. 后端：各桶从 watermark 之后列出若干页 (任一桶失败则整段放弃，避免误判为已删除)
+    const actual = new Map<string, FileMetadata[]>();
+    let bound: string | null = null; // null 表示所有桶都已列完
+
+    await Promise.all(this.cluster.getBucketNames().map(async (bucket) => {
+      let keyMarker = state.watermark;
+      let versionIdMarker: string | undefined = undefined;
+      let truncated = true;
+
+      for (let pages = 0; truncated && pages < pagesPerRun; pages++) {
+        const page = await this.cluster.listVersionsPage(bucket, keyMarker, versionIdMarker);
+        for (const [key, meta] of page.entries) {
+          const list = actual.get(key);
+          if (list) list.push(meta); else actual.set(key, [meta]);
+        }
+        truncated = page.isTruncated;
+        keyMarker = page.nextKeyMarker;
+        versionIdMarker = page.nextVersionIdMarker;
+      }
+
+      if (truncated && keyMarker !== undefined && (bound === null || compareKeys(keyMarker, bound) < 0)) {
+        bound = keyMarker;
+      }
+    }));
+    const upper: string | null = bound;
+
+    // 2. 索引：读取 (watermark, upper] 区间内的记录
+    const indexed = new Map<string, IndexEntry>();
+    let cursor = state.indexCursor;
+    let nextCursor: string | undefined = undefined;
+
+    scan: while (true) {
+      const page = await this.index.listPage('', cursor);
+      for (const entry of page.entries) {
+        if (state.watermark !== undefined && compareKeys(entry.key, state.watermark) <= 0) continue;
+        if (upper !== null && compareKeys(entry.key, upper) > 0) {
+          nextCursor = cursor;
+          break scan;
+        }
+        indexed.set(entry.key, entry);
+      }
+      if (!page.cursor) break;
+      cursor = page.cursor;
+    }
+
+    // 3. 比对
+    const report = state.report;
+    const changes: IndexChange[] = [];
+    const keys = new Set<string>(indexed.keys());
+    for (const key of actual.keys()) {
+      if (upper === null || compareKeys(key, upper) <= 0) keys.add(key);
+    }
+
+    for (const key of keys) {
+      const candidates = actual.get(key) || [];
+      const current = indexed.get(key);
+      report.scanned++;
+
+      // 列表开始后写入的记录不一定出现在后端列表中，按索引计入用量
+      if (current && current.lastModified >= listedAt) {
+        this.addUsage(report, [current.bucket, ...(current.replicaBuckets || [])], current.size);
+        continue;
+      }
+      const expected = current ? { etag: current.etag, lastModified: current.lastModified } : null;
+
+      const next = this.resolve(current, candidates);
+      if (next && candidates.length > replicasOf(next).length) {
+        // 副本集合以外的桶中也有同名文件
+        this.record(report, 'duplicated', key, current, candidates);
+      }
+
+      if (!next && current) {
+        this.record(report, 'removed', key, current, candidates);
+        changes.push({ key, meta: null, expected });
+      } else if (next && !current) {
+        this.record(report, 'added', key, current, candidates);
+        changes.push({ key, meta: next, expected });
+      } else if (next && current && (
+        next.bucket !== current.bucket || next.size !== current.size ||
+        next.etag !== current.etag || next.versionId !== current.versionId ||
+        replicasOf(next).slice(1).map(r => r.bucket).join('|') !== (current.replicaBuckets || []).join('|')
+      )) {
+        this.record(report, 'mismatched', key, current, candidates);
+        changes.push({ key, meta: next, expected });
+      }
+
+      if (next) this.addUsage(report, replicasOf(next).map(r => r.bucket), next.size);
+    }
+
+    if (report.repair && changes.length > 0) {
+      await this.mergeMetadata(changes);
+      const conflicts = await this.cluster.applyIndexChanges(changes);
+      if (conflicts.length > 0) console.log(`Index reconciliation skipped ${conflicts.length} keys changed during the scan`);
+    }
+
+    // 4. 推进进度；全部列完则结束本轮
+    if (upper !== null) {
+      state.watermark = upper;
+      state.indexCursor = nextCursor;
+      await this.env.BUCKET_STATE_KV.put(this.STATE_KEY, JSON.stringify(state));
+      return null;
+    }
+
+    report.completedAt = Date.now();
+    if (report.repair) {
+      await this.cluster.resetIndexUsage(report.usage);
+      await this.index.deleteLegacy();
+    }
+    await this.env.BUCKET_STATE_KV.put(this.REPORT_KEY, JSON.stringify(report));
+    await this.env.BUCKET_STATE_KV.delete(this.STATE_KEY);
+    console.log(`Index reconciliation finished: ${report.scanned} keys, drift ${JSON.stringify(report.counts)}`);
+    return report;
+  }
+
+  // 根据后端实际情况确定应有的索引记录
+  // 索引中的副本桶仍存在文件时，保留其中仍存在的副本 (保持原顺序，主副本优先)；
+  // 否则取最新的一份，并把 ETag 相同的其他桶视为它的副本
+  private resolve(current: IndexEntry | undefined, candidates: FileMetadata[]): FileMetadata | null {
+    if (candidates.length === 0) return null;
+
+    let replicas: FileMetadata[] = [];
+    if (current) {
+      const wanted = [current.bucket, ...(current.replicaBuckets || [])];
+      replicas = wanted
+        .map(b => candidates.find(c => c.bucket === b))
+        .filter((c): c is FileMetadata => c !== undefined);
+    }
+    if (replicas.length === 0) {
+      const newest = candidates.reduce((a, b) => (b.lastModified > a.lastModified ? b : a));
+      replicas = [newest, ...candidates.filter(c => c !== newest && c.etag === newest.etag)];
+    }
+
+    const primary = replicas[0];
+    return {
+      ...primary,
+      replicas: replicas.length > 1
+        ? replicas.map(r => ({ bucket: r.bucket, etag: r.etag, versionId: r.versionId }))
+        : undefined
+    };
+  }
+
+  // 列表结果不含对象元数据：内容未变 (ETag 相同) 的记录沿用索引中已有的元数据，
+  // 其余保持未知，由下一次 HEAD 回源补全
+  private async mergeMetadata(changes: IndexChange[]) {
+    const updates = changes.filter(c => c.meta);
+    if (updates.length === 0) return;
+
+    const previous = await this.index.getMany(updates.map(c => c.key));
+    for (const change of updates) {
+      const prev = previous.get(change.key);
+      if (prev && prev.etag === change.meta!.etag) {
+        Object.assign(change.meta!, pickObjectMetadata(prev));
+      }
+    }
+  }
+
+  private newState(): ReconcileState {
+    return {
+      report: {
+        startedAt: Date.now(),
+        repair: this.env.RECONCILE_MODE !== 'report',
+        scanned: 0,
+        counts: { added: 0, removed: 0, mismatched: 0, duplicated: 0 },
+        samples: { added: [], removed: [], mismatched: [], duplicated: [] },
+        usage: {}
+      }
+    };
+  }
+
+  private addUsage(report: DriftReport, buckets: string[], size: number) {
+    for (const bucket of buckets) {
+      const usage = report.usage[bucket] || (report.usage[bucket] = { bytes: 0, objects: 0 });
+      usage.bytes += size;
+      usage.objects += 1;
+    }
+  }
+
+  private record(report: DriftReport, kind: DriftKind, key: string, current: IndexEntry | undefined, candidates: FileMetadata[]) {
+    report.counts[kind]++;
+    if (report.samples[kind].length >= this.MAX_SAMPLES) return;
+
+    const item: DriftItem = { key };
+    if (current) item.indexed = { bucket: current.bucket, size: current.size, etag: current.etag };
+    if (candidates.length > 0) item.actual = candidates.map(c => ({ bucket: c.bucket, size: c.size, etag: c.etag }));
+    report.samples[kind].push(item);
+  }
+}
@@ -0,0 +1,66 @@
+// src/core/response.ts
+import { FileMetadata } from './index-store';
+
+// 条件请求的判定结果
+export type ConditionResult = 'ok' | 'not-modified' | 'precondition-failed';
+
+// 条件请求头 (GET / HEAD 使用标准头，CopyObject 使用 x-amz-copy-source-if-* )
+export interface Conditions {
+  ifMatch: string | null;
+  ifNoneMatch: string | null;
+  ifModifiedSince: string | null;
+  ifUnmodifiedSince: string | null;
+}
+
+export function readConditions(headers: Headers, prefix = ''): Conditions {
+  return {
+    ifMatch: headers.get(`${prefix}if-match`),
+    ifNoneMatch: headers.get(`${prefix}if-none-match`),
+    ifModifiedSince: headers.get(`${prefix}if-modified-since`),
+    ifUnmodifiedSince: headers.get(`${prefix}if-unmodified-since`)
+  };
+}
+
+/**
+ * 按索引中的 ETag / LastModified 判定条件请求 (RFC 7232 的判定顺序)：
+ * If-Match 存在时忽略 If-Unmodified-Since，If-None-Match 存在时忽略 If-Modified-Since
+ */
+export function evaluateConditions(c: Conditions, meta: Pick<FileMetadata, 'etag' | 'lastModified'>): ConditionResult {
+  const matches = (list: string) => list.split(',')
+    .map(t => t.trim().replace(/^W\//, '').replace(/"/g, ''))
+    .some(t => t === '*' || t === meta.etag);
+  // HTTP 日期只精确到秒
+  const modified = Math.floor(meta.lastModified / 1000) * 1000;
+
+  if (c.ifMatch !== null) {
+    if (!matches(c.ifMatch)) return 'precondition-failed';
+  } else if (c.ifUnmodifiedSince !== null) {
+    const since = Date.parse(c.ifUnmodifiedSince);
+    if (!isNaN(since) && modified > since) return 'precondition-failed';
+  }
+
+  if (c.ifNoneMatch !== null) {
+    if (matches(c.ifNoneMatch)) return 'not-modified';
+  } else if (c.ifModifiedSince !== null) {
+    const since = Date.parse(c.ifModifiedSince);
+    if (!isNaN(since) && modified <= since) return 'not-modified';
+  }
+  return 'ok';
+}
+
+// S3 的 response-* 查询参数：覆盖下载响应中对应的头
+const RESPONSE_OVERRIDES: Record<string, string> = {
+  'response-content-type': 'Content-Type',
+  'response-content-language': 'Content-Language',
+  'response-expires': 'Expires',
+  'response-cache-control': 'Cache-Control',
+  'response-content-disposition': 'Content-Disposition',
+  'response-content-encoding': 'Content-Encoding'
+};
+
+export function applyResponseOverrides(params: URLSearchParams, headers: Headers) {
+  for (const [param, header] of Object.entries(RESPONSE_OVERRIDES)) {
+    const value = params.get(param);
+    if (value !== null) headers.set(header, value);
+  }
+}
@@ -0,0 +1,81 @@
+// src/core/resume.ts
+import { S3Error } from './errors';
+
+export interface ResumeOptions {
+  start: number; // 上游响应在对象中的起始偏移 (Range 请求的起点，否则为 0)
+  length: number; // 上游响应应有的字节数 (Content-Length)
+  retries: number; // 整个下载过程中最多续传的次数
+  timeoutMs: number; // 单次读取等待数据的超时，超时视为连接中断
+  // 从 offset (对象中的绝对偏移) 起重新请求剩余内容，对象已变化时应抛出 4xx 的 S3Error
+  resume(offset: number): Promise<ReadableStream<Uint8Array>>;
+}
+
+/**
+ * 可续传的下载流
+ * 上游出错、停滞或在 Content-Length 之前结束时，从已输出的位置重新请求剩余部分并无缝拼接，
+ * 客户端看到的仍是一个完整的响应体。续传次数用尽或对象已变化时以错误结束
+ */
+export function resumableStream(body: ReadableStream<Uint8Array>, options: ResumeOptions): ReadableStream<Uint8Array> {
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = body.getReader();
+  let delivered = 0;
+  let attempts = 0;
+
+  const readWithTimeout = async (current: ReadableStreamDefaultReader<Uint8Array>) => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`No data received within ${options.timeoutMs}ms`)), options.timeoutMs);
+    });
+    try {
+      return await Promise.race([current.read(), timeout]);
+    } finally {
+      if (timer !== null) clearTimeout(timer);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (true) {
+        let failure: unknown;
+        try {
+          if (!reader) reader = (await options.resume(options.start + delivered)).getReader();
+          const { done, value } = await readWithTimeout(reader);
+          if (!done) {
+            // 续传的响应不会超出剩余长度，这里只防御上游多发数据
+            const chunk = value.byteLength > options.length - delivered ? value.subarray(0, options.length - delivered) : value;
+            delivered += chunk.byteLength;
+            if (chunk.byteLength > 0) controller.enqueue(chunk);
+            if (delivered < options.length) return;
+          }
+          if (delivered >= options.length) {
+            controller.close();
+            if (!done) await reader.cancel();
+            return;
+          }
+          failure = new Error(`Upstream ended after ${delivered} of ${options.length} bytes`);
+        } catch (e) {
+          failure = e;
+        }
+
+        if (reader) {
+          reader.cancel().catch(() => {});
+          reader = null;
+        }
+        // 对象已被覆盖 (If-Match 不成立) 等客户端类错误无法通过重试恢复
+        if (failure instanceof S3Error && failure.status < 500) {
+          controller.error(failure);
+          return;
+        }
+        if (attempts >= options.retries) {
+          controller.error(failure);
+          return;
+        }
+        attempts++;
+        console.warn(`Resuming download at byte ${options.start + delivered} (attempt ${attempts}/${options.retries}):`, failure);
+        await new Promise(resolve => setTimeout(resolve, 200 * attempts));
+      }
+    },
+    cancel(reason) {
+      return reader?.cancel(reason);
+    }
+  });
+}
@@ -0,0 +1,122 @@
+// src/core/versions.ts
+import { Env } from './config';
+import { FileMetadata, ReplicaInfo, kvKeyFor, truncateKey, replicasOf, compareKeys } from './index-store';
+
+// 没有后端版本 ID 的对象 (未开启版本控制的 S3 兼容桶) 与 S3 一致使用 "null"
+export const NULL_VERSION_ID = 'null';
+
+// 历史版本：被覆盖 / 删除的旧版本，或删除标记
+export interface VersionRecord extends FileMetadata {
+  versionId: string; // 对外的版本 ID
+  deleteMarker?: boolean; // 删除标记没有内容，replicas 为各桶中对应的物理删除标记
+}
+
+// ListObjectVersions 中的一项
+export interface VersionListItem {
+  key: string;
+  versionId: string;
+  isLatest: boolean;
+  lastModified: Date;
+  etag: string;
+  size: number;
+  deleteMarker: boolean;
+}
+
+// 历史版本的增量修改：remove 按版本 ID 删除，prepend 插入到最前面 (新的在前)
+export interface VersionChange {
+  prepend?: VersionRecord[];
+  remove?: string[];
+}
+
+// 存入 value 的完整记录 (长 Key 时需要还原原始 Key)
+interface StoredHistory {
+  key: string;
+  versions: VersionRecord[];
+}
+
+export function versionIdOf(meta: FileMetadata): string {
+  return meta.versionId || NULL_VERSION_ID;
+}
+
+// 当前版本 -> 历史版本：显式记录副本列表，副本的版本 ID 不受对外版本 ID ("null") 影响
+export function toVersionRecord(meta: FileMetadata, replicas: ReplicaInfo[] = replicasOf(meta)): VersionRecord {
+  return { ...meta, bucket: replicas[0].bucket, etag: replicas[0].etag, versionId: versionIdOf(meta), replicas };
+}
+
+// 历史版本 -> 当前版本 (恢复为索引记录)
+export function toFileMetadata(record: VersionRecord): FileMetadata {
+  const { deleteMarker: _, ...meta } = record;
+  const replicas = replicasOf(record);
+  return {
+    ...meta,
+    versionId: replicas[0].versionId,
+    replicas: replicas.length > 1 ? replicas : undefined
+  };
+}
+
+/**
+ * 历史版本存储
+ * 当前版本仍保存在索引 (IDX:<key>) 中；被覆盖 / 删除的版本与删除标记按 Key 保存在 VER:<key>，新的在前。
+ * 当前版本为删除标记时索引中没有记录，历史中的第一项即为该删除标记
+ * 修改为 KV 上的读-改-写：绑定 INDEX_COORDINATOR 时由协调器串行执行 update；
+ * 未绑定时同一个 Key 的并发修改可能互相覆盖 (丢失的历史版本无法再按版本 ID 访问，对账也不会恢复)
+ */
+export class VersionStore {
+  private kv: KVNamespace;
+
+  static readonly PREFIX = 'VER:';
+
+  constructor(env: Env) {
+    this.kv = env.BUCKET_STATE_KV;
+  }
+
+  async get(key: string): Promise<VersionRecord[]> {
+    const stored = await this.kv.get<StoredHistory>(await kvKeyFor(VersionStore.PREFIX, key), 'json');
+    if (!stored || stored.key !== key) return [];
+    return stored.versions;
+  }
+
+  // 应用增量修改并返回修改后的历史版本
+  async update(key: string, change: VersionChange): Promise<VersionRecord[]> {
+    const remove = new Set(change.remove || []);
+    const versions = [...(change.prepend || []), ...(await this.get(key)).filter(v => !remove.has(v.versionId))];
+    await this.save(key, versions);
+    return versions;
+  }
+
+  // 没有历史版本时删除记录
+  async save(key: string, versions: VersionRecord[]) {
+    const kvKey = await kvKeyFor(VersionStore.PREFIX, key);
+    if (versions.length === 0) {
+      await this.kv.delete(kvKey);
+      return;
+    }
+    const stored: StoredHistory = { key, versions };
+    await this.kv.put(kvKey, JSON.stringify(stored));
+  }
+
+  // 按 Key 的字节序遍历指定前缀下有历史版本的 Key
+  async *list(prefix = ''): AsyncGenerator<{ key: string; versions: VersionRecord[] }> {
+    let cursor: string | undefined = undefined;
+
+    do {
+      const page = await this.listPage(prefix, cursor);
+      yield* page.entries;
+      cursor = page.cursor;
+    } while (cursor);
+  }
+
+  // 读取一页记录；cursor 为 undefined 表示已列完 (超长 Key 的页内排序同 IndexStore.listPage)
+  async listPage(prefix = '', cursor?: string): Promise<{ entries: { key: string; versions: VersionRecord[] }[]; cursor?: string }> {
+    const listPrefix = VersionStore.PREFIX + truncateKey(prefix);
+    const page: KVNamespaceListResult<unknown> = await this.kv.list({ prefix: listPrefix, cursor });
+
+    const entries: { key: string; versions: VersionRecord[] }[] = [];
+    for (const item of page.keys) {
+      const stored = await this.kv.get<StoredHistory>(item.name, 'json');
+      if (stored && stored.key.startsWith(prefix) && stored.versions.length > 0) entries.push(stored);
+    }
+    entries.sort((a, b) => compareKeys(a.key, b.key));
+    return { entries, cursor: page.list_complete ? undefined : page.cursor };
+  }
+}
@@ -0,0 +1,424 @@
+// src/core/xml.ts
+import { XMLParser } from 'fast-xml-parser';
+import type { LifecycleRule } from './lifecycle';
+
+// XML 文本转义，避免 Key 中的 & < > 等字符破坏客户端解析
+export function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+const S3_NS = 'http://s3.amazonaws.com/doc/2006-03-01/';
+
+// === Multipart Upload 响应 ===
+
+export function initiateMultipartUploadXml(bucket: string, key: string, uploadId: string): string {
+  return `${XML_HEADER}
+<InitiateMultipartUploadResult xmlns="${S3_NS}">
+  <Bucket>${escapeXml(bucket)}</Bucket>
+  <Key>${escapeXml(key)}</Key>
+  <UploadId>${escapeXml(uploadId)}</UploadId>
+</InitiateMultipartUploadResult>`;
+}
+
+export function completeMultipartUploadXml(location: string, bucket: string, key: string, etag: string): string {
+  return `${XML_HEADER}
+<CompleteMultipartUploadResult xmlns="${S3_NS}">
+  <Location>${escapeXml(location)}</Location>
+  <Bucket>${escapeXml(bucket)}</Bucket>
+  <Key>${escapeXml(key)}</Key>
+  <ETag>"${escapeXml(etag)}"</ETag>
+</CompleteMultipartUploadResult>`;
+}
+
+export function copyObjectResultXml(etag: string, lastModified: Date): string {
+  return `${XML_HEADER}
+<CopyObjectResult xmlns="${S3_NS}">
+  <LastModified>${lastModified.toISOString()}</LastModified>
+  <ETag>"${escapeXml(etag)}"</ETag>
+</CopyObjectResult>`;
+}
+
+export function copyPartResultXml(etag: string, lastModified: Date): string {
+  return `${XML_HEADER}
+<CopyPartResult xmlns="${S3_NS}">
+  <LastModified>${lastModified.toISOString()}</LastModified>
+  <ETag>"${escapeXml(etag)}"</ETag>
+</CopyPartResult>`;
+}
+
+export interface PartInfo {
+  partNumber: number;
+  lastModified: Date;
+  etag: string;
+  size: number;
+}
+
+export function listPartsXml(
+  bucket: string,
+  key: string,
+  uploadId: string,
+  parts: PartInfo[],
+  partNumberMarker: number,
+  nextPartNumberMarker: number,
+  maxParts: number,
+  isTruncated: boolean
+): string {
+  const items = parts.map(p => `
+  <Part>
+    <PartNumber>${p.partNumber}</PartNumber>
+    <LastModified>${p.lastModified.toISOString()}</LastModified>
+    <ETag>"${escapeXml(p.etag)}"</ETag>
+    <Size>${p.size}</Size>
+  </Part>`).join('');
+
+  return `${XML_HEADER}
+<ListPartsResult xmlns="${S3_NS}">
+  <Bucket>${escapeXml(bucket)}</Bucket>
+  <Key>${escapeXml(key)}</Key>
+  <UploadId>${escapeXml(uploadId)}</UploadId>
+  <StorageClass>STANDARD</StorageClass>
+  <PartNumberMarker>${partNumberMarker}</PartNumberMarker>
+  <NextPartNumberMarker>${nextPartNumberMarker}</NextPartNumberMarker>
+  <MaxParts>${maxParts}</MaxParts>
+  <IsTruncated>${isTruncated}</IsTruncated>${items}
+</ListPartsResult>`;
+}
+
+export interface UploadInfo {
+  key: string;
+  uploadId: string;
+  initiated: Date;
+}
+
+export function listMultipartUploadsXml(bucket: string, prefix: string, uploads: UploadInfo[]): string {
+  const items = uploads.map(u => `
+  <Upload>
+    <Key>${escapeXml(u.key)}</Key>
+    <UploadId>${escapeXml(u.uploadId)}</UploadId>
+    <StorageClass>STANDARD</StorageClass>
+    <Initiated>${u.initiated.toISOString()}</Initiated>
+  </Upload>`).join('');
+
+  return `${XML_HEADER}
+<ListMultipartUploadsResult xmlns="${S3_NS}">
+  <Bucket>${escapeXml(bucket)}</Bucket>
+  <Prefix>${escapeXml(prefix)}</Prefix>
+  <MaxUploads>1000</MaxUploads>
+  <IsTruncated>false</IsTruncated>${items}
+</ListMultipartUploadsResult>`;
+}
+
+// === ListObjects (V1 / V2) ===
+
+export interface ListObjectsParams {
+  version: 1 | 2;
+  bucket: string;
+  prefix: string;
+  delimiter: string;
+  maxKeys: number;
+  encodingType?: string; // 仅支持 url
+  contents: { Key: string; LastModified: Date; ETag: string; Size: number; StorageClass: string }[];
+  commonPrefixes: string[];
+  isTruncated: boolean;
+  owner?: { id: string; displayName: string }; // V1 总是返回；V2 仅在 fetch-owner=true 时返回
+  // V1
+  marker?: string;
+  nextMarker?: string;
+  // V2
+  continuationToken?: string;
+  nextContinuationToken?: string;
+  startAfter?: string;
+}
+
+export function listObjectsXml(p: ListObjectsParams): string {
+  // encoding-type=url 时对 Key / Prefix 等字段做 URL 编码，再做 XML 转义
+  const enc = (str: string) => escapeXml(p.encodingType === 'url' ? encodeURIComponent(str) : str);
+
+  const owner = p.owner ? `
+    <Owner>
+      <ID>${escapeXml(p.owner.id)}</ID>
+      <DisplayName>${escapeXml(p.owner.displayName)}</DisplayName>
+    </Owner>` : '';
+
+  const contents = p.contents.map(f => `
+  <Contents>
+    <Key>${enc(f.Key)}</Key>
+    <LastModified>${f.LastModified.toISOString()}</LastModified>
+    <ETag>"${escapeXml(f.ETag)}"</ETag>
+    <Size>${f.Size}</Size>${owner}
+    <StorageClass>${f.StorageClass}</StorageClass>
+  </Contents>`).join('');
+
+  const prefixes = p.commonPrefixes.map(cp => `
+  <CommonPrefixes>
+    <Prefix>${enc(cp)}</Prefix>
+  </CommonPrefixes>`).join('');
+
+  const fields: string[] = [
+    `<Name>${escapeXml(p.bucket)}</Name>`,
+    `<Prefix>${enc(p.prefix)}</Prefix>`
+  ];
+  if (p.version === 1) {
+    fields.push(`<Marker>${enc(p.marker || '')}</Marker>`);
+    if (p.isTruncated && p.nextMarker !== undefined) fields.push(`<NextMarker>${enc(p.nextMarker)}</NextMarker>`);
+  }
+  if (p.delimiter) fields.push(`<Delimiter>${enc(p.delimiter)}</Delimiter>`);
+  fields.push(`<MaxKeys>${p.maxKeys}</MaxKeys>`);
+  if (p.encodingType) fields.push(`<EncodingType>${escapeXml(p.encodingType)}</EncodingType>`);
+  if (p.version === 2) {
+    fields.push(`<KeyCount>${p.contents.length + p.commonPrefixes.length}</KeyCount>`);
+    if (p.continuationToken) fields.push(`<ContinuationToken>${escapeXml(p.continuationToken)}</ContinuationToken>`);
+    if (p.nextContinuationToken) fields.push(`<NextContinuationToken>${escapeXml(p.nextContinuationToken)}</NextContinuationToken>`);
+    if (p.startAfter) fields.push(`<StartAfter>${enc(p.startAfter)}</StartAfter>`);
+  }
+  fields.push(`<IsTruncated>${p.isTruncated}</IsTruncated>`);
+
+  return `${XML_HEADER}
+<ListBucketResult xmlns="${S3_NS}">
+  ${fields.join('\n  ')}${contents}${prefixes}
+</ListBucketResult>`;
+}
+
+// === ListObjectVersions ===
+
+export interface ListVersionsParams {
+  bucket: string;
+  prefix: string;
+  delimiter: string;
+  maxKeys: number;
+  encodingType?: string; // 仅支持 url
+  keyMarker?: string;
+  versionIdMarker?: string;
+  versions: { key: string; versionId: string; isLatest: boolean; lastModified: Date; etag: string; size: number; deleteMarker: boolean }[];
+  commonPrefixes: string[];
+  isTruncated: boolean;
+  nextKeyMarker?: string;
+  nextVersionIdMarker?: string;
+  owner: { id: string; displayName: string };
+}
+
+export function listObjectVersionsXml(p: ListVersionsParams): string {
+  const enc = (str: string) => escapeXml(p.encodingType === 'url' ? encodeURIComponent(str) : str);
+  const owner = `
+    <Owner>
+      <ID>${escapeXml(p.owner.id)}</ID>
+      <DisplayName>${escapeXml(p.owner.displayName)}</DisplayName>
+    </Owner>`;
+
+  const items = p.versions.map(v => v.deleteMarker ? `
+  <DeleteMarker>
+    <Key>${enc(v.key)}</Key>
+    <VersionId>${escapeXml(v.versionId)}</VersionId>
+    <IsLatest>${v.isLatest}</IsLatest>
+    <LastModified>${v.lastModified.toISOString()}</LastModified>${owner}
+  </DeleteMarker>` : `
+  <Version>
+    <Key>${enc(v.key)}</Key>
+    <VersionId>${escapeXml(v.versionId)}</VersionId>
+    <IsLatest>${v.isLatest}</IsLatest>
+    <LastModified>${v.lastModified.toISOString()}</LastModified>
+    <ETag>"${escapeXml(v.etag)}"</ETag>
+    <Size>${v.size}</Size>${owner}
+    <StorageClass>STANDARD</StorageClass>
+  </Version>`).join('');
+
+  const prefixes = p.commonPrefixes.map(cp => `
+  <CommonPrefixes>
+    <Prefix>${enc(cp)}</Prefix>
+  </CommonPrefixes>`).join('');
+
+  const fields: string[] = [
+    `<Name>${escapeXml(p.bucket)}</Name>`,
+    `<Prefix>${enc(p.prefix)}</Prefix>`,
+    `<KeyMarker>${enc(p.keyMarker || '')}</KeyMarker>`,
+    `<VersionIdMarker>${escapeXml(p.versionIdMarker || '')}</VersionIdMarker>`
+  ];
+  if (p.isTruncated && p.nextKeyMarker !== undefined) fields.push(`<NextKeyMarker>${enc(p.nextKeyMarker)}</NextKeyMarker>`);
+  if (p.isTruncated && p.nextVersionIdMarker !== undefined) fields.push(`<NextVersionIdMarker>${escapeXml(p.nextVersionIdMarker)}</NextVersionIdMarker>`);
+  if (p.delimiter) fields.push(`<Delimiter>${enc(p.delimiter)}</Delimiter>`);
+  fields.push(`<MaxKeys>${p.maxKeys}</MaxKeys>`);
+  if (p.encodingType) fields.push(`<EncodingType>${escapeXml(p.encodingType)}</EncodingType>`);
+  fields.push(`<IsTruncated>${p.isTruncated}</IsTruncated>`);
+
+  return `${XML_HEADER}
+<ListVersionsResult xmlns="${S3_NS}">
+  ${fields.join('\n  ')}${items}${prefixes}
+</ListVersionsResult>`;
+}
+
+export function versioningConfigurationXml(enabled: boolean): string {
+  return `${XML_HEADER}
+<VersioningConfiguration xmlns="${S3_NS}">${enabled ? `
+  <Status>Enabled</Status>` : ''}
+</VersioningConfiguration>`;
+}
+
+// === Lifecycle ===
+
+export function lifecycleConfigurationXml(rules: LifecycleRule[]): string {
+  const items = rules.map(r => {
+    const conditions = [
+      r.prefix ? `<Prefix>${escapeXml(r.prefix)}</Prefix>` : '',
+      r.minSize !== undefined ? `<ObjectSizeGreaterThan>${r.minSize}</ObjectSizeGreaterThan>` : '',
+      r.maxSize !== undefined ? `<ObjectSizeLessThan>${r.maxSize}</ObjectSizeLessThan>` : ''
+    ].filter(c => c !== '');
+    const filter = conditions.length > 1 ? `<And>${conditions.join('')}</And>` : conditions.join('');
+    return `
+  <Rule>
+    <ID>${escapeXml(r.id)}</ID>
+    <Filter>${filter}</Filter>
+    <Status>${r.enabled ? 'Enabled' : 'Disabled'}</Status>${r.expirationDays !== undefined ? `
+    <Expiration><Days>${r.expirationDays}</Days></Expiration>` : ''}${r.expiredDeleteMarker ? `
+    <Expiration><ExpiredObjectDeleteMarker>true</ExpiredObjectDeleteMarker></Expiration>` : ''}${r.noncurrentDays !== undefined ? `
+    <NoncurrentVersionExpiration><NoncurrentDays>${r.noncurrentDays}</NoncurrentDays></NoncurrentVersionExpiration>` : ''}${r.abortIncompleteDays !== undefined ? `
+    <AbortIncompleteMultipartUpload><DaysAfterInitiation>${r.abortIncompleteDays}</DaysAfterInitiation></AbortIncompleteMultipartUpload>` : ''}
+  </Rule>`;
+  }).join('');
+
+  return `${XML_HEADER}
+<LifecycleConfiguration xmlns="${S3_NS}">${items}
+</LifecycleConfiguration>`;
+}
+
+// 解析 PutBucketLifecycleConfiguration 请求体，格式错误时返回 null
+// 不支持的元素 (Transition、Tag 过滤、按日期过期等) 记录在 unsupported 中
+export function parseLifecycleConfiguration(xml: string): { rules: LifecycleRule[]; unsupported: string[] } | null {
+  try {
+    // Prefix 需原样保留
+    const parser = new XMLParser({ parseTagValue: false, trimValues: false });
+    const root = parser.parse(xml).LifecycleConfiguration;
+    if (!root || typeof root !== 'object') return null;
+
+    const text = (value: unknown) => (value === undefined ? undefined : String(value).trim());
+    const int = (value: unknown) => (value === undefined ? undefined : Number(text(value)));
+    const unsupported = new Set<string>();
+    const rules: LifecycleRule[] = [];
+
+    const items = root.Rule ? (Array.isArray(root.Rule) ? root.Rule : [root.Rule]) : [];
+    for (const item of items) {
+      if (!item || typeof item !== 'object') return null;
+      const status = text(item.Status);
+      if (status !== 'Enabled' && status !== 'Disabled') return null;
+
+      // Filter 为空字符串表示匹配全部对象；旧格式的 Prefix 直接位于 Rule 下
+      const filter = item.Filter && typeof item.Filter === 'object' ? item.Filter : {};
+      const conditions = filter.And && typeof filter.And === 'object' ? filter.And : filter;
+      if (conditions.Tag !== undefined) unsupported.add('Filter/Tag');
+      const expiration = item.Expiration && typeof item.Expiration === 'object' ? item.Expiration : undefined;
+      if (expiration?.Date !== undefined) unsupported.add('Expiration/Date');
+      if (item.Transition !== undefined || item.NoncurrentVersionTransition !== undefined) unsupported.add('Transition');
+      if (item.NoncurrentVersionExpiration?.NewerNoncurrentVersions !== undefined) unsupported.add('NewerNoncurrentVersions');
+
+      // 未设置的字段为 undefined (写入 KV 时省略)
+      const rule: LifecycleRule = {
+        id: item.ID !== undefined ? String(item.ID) : crypto.randomUUID(),
+        enabled: status === 'Enabled',
+        prefix: String(conditions.Prefix ?? item.Prefix ?? ''),
+        minSize: int(conditions.ObjectSizeGreaterThan),
+        maxSize: int(conditions.ObjectSizeLessThan),
+        expirationDays: int(expiration?.Days),
+        expiredDeleteMarker: text(expiration?.ExpiredObjectDeleteMarker) === 'true' || undefined,
+        noncurrentDays: int(item.NoncurrentVersionExpiration?.NoncurrentDays),
+        abortIncompleteDays: int(item.AbortIncompleteMultipartUpload?.DaysAfterInitiation)
+      };
+      rules.push(rule);
+    }
+    return { rules, unsupported: [...unsupported] };
+  } catch {
+    return null;
+  }
+}
+
+// === DeleteObjects ===
+
+// 解析客户端的 DeleteObjects 请求体，格式错误时返回 null
+export function parseDeleteObjectsRequest(xml: string): { quiet: boolean; objects: { key: string; versionId?: string }[] } | null {
+  try {
+    // 不解析数值、不裁剪空白，Key 需原样保留
+    const parser = new XMLParser({ parseTagValue: false, trimValues: false });
+    const root = parser.parse(xml).Delete;
+    if (!root || typeof root !== 'object') return null;
+
+    const objects = root.Object ? (Array.isArray(root.Object) ? root.Object : [root.Object]) : [];
+    const result: { key: string; versionId?: string }[] = [];
+    for (const obj of objects) {
+      if (!obj || obj.Key === undefined) return null;
+      result.push(obj.VersionId !== undefined ? { key: String(obj.Key), versionId: String(obj.VersionId).trim() } : { key: String(obj.Key) });
+    }
+    return { quiet: String(root.Quiet || '').trim().toLowerCase() === 'true', objects: result };
+  } catch {
+    return null;
+  }
+}
+
+// 发往后端的 DeleteObjects 请求体
+export function deleteObjectsRequestXml(items: { key: string; versionId?: string }[], quiet: boolean): string {
+  const objects = items.map(i => `
+  <Object>
+    <Key>${escapeXml(i.key)}</Key>${i.versionId ? `
+    <VersionId>${escapeXml(i.versionId)}</VersionId>` : ''}
+  </Object>`).join('');
+
+  return `${XML_HEADER}
+<Delete xmlns="${S3_NS}">
+  <Quiet>${quiet}</Quiet>${objects}
+</Delete>`;
+}
+
+// 删除成功的对象：带 versionId 删除时回显版本；deleteMarker 表示删除的是 / 新建了删除标记
+export interface DeletedObject {
+  key: string;
+  versionId?: string;
+  deleteMarker?: boolean;
+  deleteMarkerVersionId?: string;
+}
+
+export function deleteResultXml(deleted: DeletedObject[], errors: { key: string; code: string; message: string }[], quiet: boolean): string {
+  // Quiet 模式只返回失败项
+  const deletedItems = quiet ? '' : deleted.map(d => `
+  <Deleted>
+    <Key>${escapeXml(d.key)}</Key>${d.versionId ? `
+    <VersionId>${escapeXml(d.versionId)}</VersionId>` : ''}${d.deleteMarker ? `
+    <DeleteMarker>true</DeleteMarker>` : ''}${d.deleteMarkerVersionId ? `
+    <DeleteMarkerVersionId>${escapeXml(d.deleteMarkerVersionId)}</DeleteMarkerVersionId>` : ''}
+  </Deleted>`).join('');
+
+  const errorItems = errors.map(e => `
+  <Error>
+    <Key>${escapeXml(e.key)}</Key>
+    <Code>${escapeXml(e.code)}</Code>
+    <Message>${escapeXml(e.message)}</Message>
+  </Error>`).join('');
+
+  return `${XML_HEADER}
+<DeleteResult xmlns="${S3_NS}">${deletedItems}${errorItems}
+</DeleteResult>`;
+}
+
+// === CompleteMultipartUpload ===
+
+// 解析 CompleteMultipartUpload 请求体中的分片列表，格式错误时返回 null
+export function parseCompleteMultipartUploadRequest(xml: string): { partNumber: number; etag: string }[] | null {
+  try {
+    const parser = new XMLParser({ parseTagValue: false });
+    const root = parser.parse(xml).CompleteMultipartUpload;
+    if (!root || typeof root !== 'object') return null;
+
+    const parts = root.Part ? (Array.isArray(root.Part) ? root.Part : [root.Part]) : [];
+    const result: { partNumber: number; etag: string }[] = [];
+    for (const part of parts) {
+      const partNumber = parseInt(part?.PartNumber);
+      if (!(partNumber >= 1) || part.ETag === undefined) return null;
+      result.push({ partNumber, etag: String(part.ETag).replace(/"/g, '') });
+    }
+    return result;
+  } catch {
+    return null;
+  }
+}
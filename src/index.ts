@@ -1,11 +1,47 @@
 // src/index.ts
-import { ClusterManager } from './core/cluster';
+import { ClusterManager, BucketMode, DeleteError, DeletedVersion, FileMetadata } from './core/cluster';
 import { ContentCache } from './core/cache';
 import { AuthMiddleware } from './core/auth';
+import { IndexReconciler } from './core/reconcile';
+import { BucketMigrator } from './core/migration';
+import { LifecycleManager } from './core/lifecycle';
+import { IndexStore, metadataToHeaders } from './core/index-store';
+import { versionIdOf } from './core/versions';
+import { evaluateConditions, readConditions, applyResponseOverrides } from './core/response';
+import { ByteRange, readRange, rangeResponse } from './core/range';
 import { Env } from './core/config';
+import { AccessKey, KeyStore, Operation, isAllowed, describeAccessKey } from './core/keys';
+import { S3Error, errorResponse } from './core/errors';
+import { MetricsRecorder, buildMetricsReport, metricsToPrometheus } from './core/metrics';
+import { HealthTracker } from './core/health';
+import { signaturesEqual } from './core/payload';
+
+// Durable Object 需要从入口模块导出
+export { IndexCoordinator } from './core/coordinator';
+import {
+  initiateMultipartUploadXml,
+  completeMultipartUploadXml,
+  copyObjectResultXml,
+  copyPartResultXml,
+  listPartsXml,
+  listMultipartUploadsXml,
+  listObjectsXml,
+  listObjectVersionsXml,
+  versioningConfigurationXml,
+  lifecycleConfigurationXml,
+  parseLifecycleConfiguration,
+  parseDeleteObjectsRequest,
+  deleteResultXml
+} from './core/xml';
 
 // export { Env };
 
+// 管理接口路径 (仅允许使用虚拟 Access Key 直接鉴权的请求访问)
+const ADMIN_PATHS = new Set(['/_cache', '/select_bucket', '/bucket_size', '/bucket_health', '/presign', '/share_token', '/drift_report', '/bucket_mode', '/migration', '/access_key', '/metrics', '/edge_cache', '/restore_version', '/lifecycle_report']);
+
+// 单次 PUT 的大小上限 (与 S3 / B2 相同)
+const MAX_PUT_SIZE = 5 * 1024 * 1024 * 1024;
+
 // 鲁棒解码函数：处理单次或多次 URL 编码
 function safeDecode(str: string): string {
   try {
@@ -25,36 +61,109 @@ function safeDecode(str: string): string {
   }
 }
 
-// 辅助：生成 S3 XML List 响应
-function generateXmlList(files: any[], commonPrefixes: string[], bucketName: string, prefix: string, delimiter: string): string {
-  const contents = files.map(f => `
-    <Contents>
-      <Key>${f.Key}</Key>
-      <LastModified>${f.LastModified.toISOString()}</LastModified>
-      <ETag>"${f.ETag}"</ETag>
-      <Size>${f.Size}</Size>
-      <StorageClass>STANDARD</StorageClass>
-    </Contents>`).join('');
-
-  const prefixes = commonPrefixes.map(p => `
-    <CommonPrefixes>
-      <Prefix>${p}</Prefix>
-    </CommonPrefixes>`).join('');
-    
-  return `<?xml version="1.0" encoding="UTF-8"?>
-<ListBucketResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">
-  <Name>${bucketName}</Name>
-  <Prefix>${prefix}</Prefix>
-  <Delimiter>${delimiter}</Delimiter>
-  <KeyCount>${files.length + commonPrefixes.length}</KeyCount>
-  <MaxKeys>1000</MaxKeys>
-  <IsTruncated>false</IsTruncated>
-  ${contents}
-  ${prefixes}
-</ListBucketResult>`;
+// 辅助：解析 x-amz-copy-source，格式为 [/]bucket/key[?versionId=xxx]
+function parseCopySource(header: string, virtualBucket: string): { key: string; versionId?: string } {
+  const [path, query] = header.split('?');
+  let source = safeDecode(path.replace(/^\//, ''));
+  if (source.startsWith(virtualBucket + '/')) {
+    source = source.substring(virtualBucket.length + 1);
+  }
+  const versionId = query ? new URLSearchParams(query).get('versionId') : null;
+  return versionId !== null ? { key: source, versionId } : { key: source };
 }
 
-export default {
+// 辅助：定位复制源 (指定 versionId 时为该版本，删除标记不能作为复制源)
+async function locateCopySource(cluster: ClusterManager, source: { key: string; versionId?: string }): Promise<FileMetadata> {
+  if (source.versionId === undefined) {
+    const info = await cluster.locateFile(source.key);
+    if (!info) throw new S3Error('NoSuchKey', 'The specified key does not exist.');
+    return info;
+  }
+  const version = await cluster.locateVersion(source.key, source.versionId);
+  if (!version) throw new S3Error('NoSuchVersion', 'The specified version does not exist.');
+  if (version.deleteMarker) throw new S3Error('InvalidRequest', 'The source of a copy request may not specifically refer to a delete marker by version id.');
+  return version;
+}
+
+// GET /share_token 的响应 (绑定单个 Key 时附带可直接访问的 URL)
+interface ShareTokenResponse {
+  token: string;
+  id: string; // 吊销时使用
+  expiresAt: string; // ISO 8601
+  url?: string;
+}
+
+// 辅助：ListObjectsV2 的 continuation-token (base64url 编码的上一页末尾 Key 与 KV 游标，对客户端不透明)
+interface ListToken {
+  m: string; // marker
+  c?: string; // KV cursor
+}
+
+function encodeListToken(token: ListToken): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(token));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// 辅助：请求对应的 S3 操作名 (运行统计用)
+function s3Operation(request: Request, url: URL, key: string): string {
+  const q = url.searchParams;
+  if (ADMIN_PATHS.has(url.pathname)) return 'Admin';
+  if (request.method === 'POST' && q.has('delete')) return 'DeleteObjects';
+  if (q.has('versioning')) return request.method === 'PUT' ? 'PutBucketVersioning' : 'GetBucketVersioning';
+  if (q.has('lifecycle')) {
+    if (request.method === 'PUT') return 'PutBucketLifecycleConfiguration';
+    if (request.method === 'DELETE') return 'DeleteBucketLifecycle';
+    return 'GetBucketLifecycleConfiguration';
+  }
+  if (request.method === 'GET' && q.has('versions')) return 'ListObjectVersions';
+  if (q.has('uploads')) return request.method === 'POST' ? 'CreateMultipartUpload' : 'ListMultipartUploads';
+  if (q.has('uploadId')) {
+    if (request.method === 'PUT') return request.headers.has('x-amz-copy-source') ? 'UploadPartCopy' : 'UploadPart';
+    if (request.method === 'GET') return 'ListParts';
+    if (request.method === 'POST') return 'CompleteMultipartUpload';
+    if (request.method === 'DELETE') return 'AbortMultipartUpload';
+  }
+  if (request.method === 'GET' && (key === '' || q.has('list-type') || q.has('prefix'))) {
+    return q.get('list-type') === '2' ? 'ListObjectsV2' : 'ListObjects';
+  }
+  if (request.method === 'GET') return 'GetObject';
+  if (request.method === 'HEAD') return 'HeadObject';
+  if (request.method === 'PUT') return request.headers.has('x-amz-copy-source') ? 'CopyObject' : 'PutObject';
+  if (request.method === 'DELETE') return 'DeleteObject';
+  return 'Other';
+}
+
+// 辅助：/metrics 响应，?format=prometheus (或 Accept: text/plain) 输出 Prometheus 文本格式，否则为 JSON
+// JSON 可用 ?days=N 汇总最近 N 天 (最多 31 天)，Prometheus 格式只输出当天的计数
+async function metricsResponse(request: Request, url: URL, env: Env, cluster: ClusterManager): Promise<Response> {
+  const metrics = new MetricsRecorder(env);
+  const usage = await cluster.getBucketsUsageStats();
+  const accept = request.headers.get('Accept') || '';
+  if (url.searchParams.get('format') === 'prometheus' || (!url.searchParams.has('format') && accept.includes('text/plain'))) {
+    const [today] = await metrics.load(1);
+    return new Response(metricsToPrometheus(today, usage), {
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' }
+    });
+  }
+
+  const days = Math.min(Math.max(parseInt(url.searchParams.get('days') || '1') || 1, 1), 31);
+  const report = buildMetricsReport(await metrics.load(days), usage);
+  return new Response(JSON.stringify(report), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+function decodeListToken(str: string): ListToken | null {
+  try {
+    const binary = atob(str.replace(/-/g, '+').replace(/_/g, '/'));
+    const token = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0))));
+    return typeof token.m === 'string' ? token : null;
+  } catch {
+    return null;
+  }
+}
+
+const handler = {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     
@@ -69,31 +178,111 @@ export default {
     }
 
     const key = safeDecode(path);
+
+    // Prometheus 等无法计算 SigV4 签名的抓取端：METRICS_TOKEN 只授权读取 /metrics
+    const bearer = request.headers.get('Authorization')?.match(/^Bearer (.+)$/)?.[1];
+    if (request.method === 'GET' && url.pathname === '/metrics' && env.METRICS_TOKEN && bearer) {
+      if (!signaturesEqual(bearer, env.METRICS_TOKEN)) {
+        return errorResponse(new S3Error('AccessDenied', 'Invalid metrics token'), request);
+      }
+      try {
+        return await metricsResponse(request, url, env, new ClusterManager(env));
+      } catch (e) {
+        return errorResponse(e, request);
+      }
+    }
     
-    // 2. 鉴权
+    // 2. 鉴权 (签名头 / 预签名 URL / 分享 Token)
     const auth = new AuthMiddleware(env);
-    const isAuth = await auth.verify(request);
-    
-    if (!isAuth && !url.searchParams.has('token')) {
-       return new Response('Unauthorized', { status: 403 });
+    let principal: AccessKey | null;
+    try {
+      principal = await auth.verify(request, key);
+    } catch (e) {
+      return errorResponse(e, request, key || undefined);
     }
 
-    const cache = new ContentCache(env);
-    const cluster = new ClusterManager(env);
+    // 按访问密钥的策略授权 (分享 Token 的路径与方法已在鉴权时校验)
+    const can = (op: Operation, target: string) => !principal || isAllowed(principal, op, target);
+    const authorize = (op: Operation, target = key) => {
+      if (!can(op, target)) throw new S3Error('AccessDenied', 'Access Denied');
+    };
+
+    // 预签名 URL 与分享 Token 仅用于对象访问，不可调用管理接口
+    const isDelegated = AuthMiddleware.isPresigned(request) || AuthMiddleware.hasShareToken(request);
+    if (isDelegated && ADMIN_PATHS.has(url.pathname)) {
+      return errorResponse(new S3Error('AccessDenied', 'Delegated credentials cannot call admin APIs'), request);
+    }
+    // 委托凭证只绑定目标路径，不能借复制读取其他文件，也不能批量删除
+    if (isDelegated && (request.headers.has('x-amz-copy-source') || url.searchParams.has('delete'))) {
+      return errorResponse(new S3Error('AccessDenied', 'Delegated credentials are bound to a single object'), request, key || undefined);
+    }
 
     try {
-      // === 管理 API: 清除 KV 索引 ===
+      // 桶配置有误时 ClusterManager 抛出 ConfigError，由下方统一返回 InternalError
+      const cache = new ContentCache(env);
+      const cluster = new ClusterManager(env);
+      const metrics = new MetricsRecorder(env);
+
+      if (ADMIN_PATHS.has(url.pathname)) authorize('admin');
+
+      // === 管理 API: 重新对账 KV 索引 ===
+      // 不再同步重建：放弃当前对账进度并在后台开始新一轮，之后由 cron 继续
       if (request.method === 'DELETE' && url.pathname === '/_cache') {
-        await cluster.clearIndex();
-        return new Response('Cache Cleared', { status: 200 });
+        const reconciler = new IndexReconciler(env, cluster);
+        await reconciler.restart();
+        ctx.waitUntil(reconciler.run());
+        return new Response('Index Reconciliation Restarted', { status: 202 });
+      }
+
+      // === 管理 API: 清除 Edge Cache (?key= 单个对象 / ?prefix= 前缀 / ?all=1 全部) ===
+      if (request.method === 'DELETE' && url.pathname === '/edge_cache') {
+        const purgeKey = url.searchParams.get('key');
+        const prefix = url.searchParams.get('prefix');
+        const all = url.searchParams.get('all') === '1';
+        if ([purgeKey !== null, prefix !== null, all].filter(Boolean).length !== 1) {
+          throw new S3Error('InvalidArgument', 'Exactly one of key, prefix or all=1 must be specified');
+        }
+        const state = purgeKey !== null
+          ? await cache.purge({ key: purgeKey })
+          : await cache.purge({ prefix: prefix || undefined });
+        return new Response(JSON.stringify({ purged: purgeKey !== null ? { key: purgeKey } : prefix ? { prefix } : 'all', generation: state.generation }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // === 管理 API: 恢复历史版本 (复制为新的当前版本) ===
+      if (request.method === 'POST' && url.pathname === '/restore_version') {
+        const targetKey = url.searchParams.get('key');
+        const versionId = url.searchParams.get('versionId');
+        if (!targetKey || !versionId) throw new S3Error('InvalidArgument', 'Both key and versionId are required');
+        const meta = await cluster.restoreVersion(targetKey, versionId);
+        return new Response(JSON.stringify({ key: targetKey, versionId: versionIdOf(meta), etag: meta.etag, size: meta.size }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // === 管理 API: 索引漂移报告 ===
+      if (request.method === 'GET' && url.pathname === '/drift_report') {
+        const report = await new IndexReconciler(env, cluster).getReport();
+        return new Response(JSON.stringify(report), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // === 管理 API: 生命周期执行报告 ===
+      if (request.method === 'GET' && url.pathname === '/lifecycle_report') {
+        const report = await new LifecycleManager(env, cluster).getReport();
+        return new Response(JSON.stringify(report), {
+          headers: { 'Content-Type': 'application/json' }
+        });
       }
 
       // === 新增 API: 选择桶 ===
       if (request.method === 'GET' && url.pathname === '/select_bucket') {
         const sizeParam = url.searchParams.get('size');
         const size = sizeParam ? parseInt(sizeParam) : 0;
-        const bucket = await cluster.selectBucketForUpload(size);
-        return new Response(JSON.stringify({ bucket }), {
+        const buckets = await cluster.selectBucketsForUpload(size);
+        return new Response(JSON.stringify({ bucket: buckets ? buckets[0] : null, buckets }), {
           headers: { 'Content-Type': 'application/json' }
         });
       }
@@ -106,6 +295,382 @@ export default {
         });
       }
 
+      // === 新增 API: 桶健康状态 (错误率 / 延迟 / 熔断状态) ===
+      if (request.method === 'GET' && url.pathname === '/bucket_health') {
+        const health = await cluster.getBucketsHealth();
+        return new Response(JSON.stringify(health), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // === 新增 API: 运行统计 (JSON / Prometheus) ===
+      if (request.method === 'GET' && url.pathname === '/metrics') {
+        return await metricsResponse(request, url, env, cluster);
+      }
+
+      // === 新增 API: 桶模式 (active / read-only / draining) ===
+      if (request.method === 'GET' && url.pathname === '/bucket_mode') {
+        const modes = await cluster.getBucketModes();
+        return new Response(JSON.stringify(modes), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // PUT /bucket_mode?bucket=xxx&mode=draining (draining 会自动开始迁出该桶)
+      if (request.method === 'PUT' && url.pathname === '/bucket_mode') {
+        const bucketName = url.searchParams.get('bucket');
+        const mode = url.searchParams.get('mode') as BucketMode | null;
+        if (!bucketName || !mode || !['active', 'read-only', 'draining'].includes(mode)) {
+          throw new S3Error('InvalidArgument', 'Missing bucket or invalid mode');
+        }
+        await cluster.setBucketMode(bucketName, mode);
+
+        let migration = null;
+        if (mode === 'draining') {
+          const migrator = new BucketMigrator(env, cluster);
+          const jobs = await migrator.list();
+          migration = jobs.find(j => j.status === 'running' && j.source === bucketName && !j.target && !j.prefix)
+            || await migrator.start(bucketName);
+          ctx.waitUntil(migrator.runBatch(migration.id));
+        }
+        return new Response(JSON.stringify({ bucket: bucketName, mode, migration }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // === 新增 API: 桶间迁移 ===
+      // GET /migration[?id=xxx] 查询进度
+      if (request.method === 'GET' && url.pathname === '/migration') {
+        const migrator = new BucketMigrator(env, cluster);
+        const id = url.searchParams.get('id');
+        const result = id ? await migrator.get(id) : await migrator.list();
+        if (!result) throw new S3Error('NoSuchKey', 'Migration not found');
+        return new Response(JSON.stringify(result), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // POST /migration?source=a&target=b&prefix=p 新建任务；POST /migration?id=xxx 立即执行下一批
+      // 之后的批次由 cron 继续执行
+      if (request.method === 'POST' && url.pathname === '/migration') {
+        const migrator = new BucketMigrator(env, cluster);
+        const id = url.searchParams.get('id');
+        let job;
+        if (id) {
+          job = await migrator.get(id);
+          if (!job) throw new S3Error('NoSuchKey', 'Migration not found');
+        } else {
+          const source = url.searchParams.get('source');
+          if (!source) throw new S3Error('InvalidArgument', 'Missing source');
+          job = await migrator.start(source, url.searchParams.get('target') || undefined, url.searchParams.get('prefix') || '');
+        }
+        ctx.waitUntil(migrator.runBatch(job.id));
+        return new Response(JSON.stringify(job), {
+          status: 202,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // DELETE /migration?id=xxx 取消任务 (已迁移的文件保持不变)
+      if (request.method === 'DELETE' && url.pathname === '/migration') {
+        const id = url.searchParams.get('id');
+        if (!id) throw new S3Error('InvalidArgument', 'Missing id');
+        const job = await new BucketMigrator(env, cluster).cancel(id);
+        if (!job) throw new S3Error('NoSuchKey', 'Migration not found');
+        return new Response(JSON.stringify(job), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // === 新增 API: 访问密钥管理 ===
+      // GET /access_key 列出全部密钥 (不含 Secret)
+      if (request.method === 'GET' && url.pathname === '/access_key') {
+        const keys = await new KeyStore(env).list();
+        return new Response(JSON.stringify(keys.map(describeAccessKey)), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // PUT /access_key  body: {"accessKeyId","secretAccessKey"?,"operations","prefixes"?,"expiresAt"?,"description"?}
+      // 未提供 secretAccessKey 时随机生成，仅在本次响应中返回
+      if (request.method === 'PUT' && url.pathname === '/access_key') {
+        const text = await auth.payload(request).text();
+        let body: unknown;
+        try {
+          body = JSON.parse(text);
+        } catch {
+          throw new S3Error('InvalidArgument', 'Request body must be JSON');
+        }
+        const created = await new KeyStore(env).put(body);
+        return new Response(JSON.stringify(created), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // DELETE /access_key?id=xxx
+      if (request.method === 'DELETE' && url.pathname === '/access_key') {
+        const id = url.searchParams.get('id');
+        if (!id) throw new S3Error('InvalidArgument', 'Missing id');
+        if (!(await new KeyStore(env).delete(id))) throw new S3Error('NoSuchKey', 'Access key not found');
+        return new Response(null, { status: 204 });
+      }
+
+      // === 新增 API: 生成预签名 URL ===
+      // GET /presign?key=path/to/file&method=GET|PUT&expires=3600
+      if (request.method === 'GET' && url.pathname === '/presign') {
+        const targetKey = url.searchParams.get('key');
+        if (!targetKey) throw new S3Error('InvalidArgument', 'Missing key');
+
+        const expires = parseInt(url.searchParams.get('expires') || '3600') || 3600;
+        const methodParam = url.searchParams.get('method');
+        const methods = methodParam ? [methodParam.toUpperCase()] : ['GET', 'PUT'];
+        if (methods.some(m => m !== 'GET' && m !== 'PUT')) {
+          throw new S3Error('InvalidArgument', 'Unsupported method');
+        }
+
+        const objectUrl = `${url.origin}/${virtualBucket}/${encodeURIComponent(targetKey).replace(/%2F/g, '/')}`;
+        const urls: Record<string, string> = {};
+        for (const m of methods) {
+          urls[m] = await auth.presign(objectUrl, m, expires, principal!);
+        }
+        return new Response(JSON.stringify({ key: targetKey, expires: Math.min(expires, AuthMiddleware.MAX_PRESIGN_EXPIRES), urls }), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // === 新增 API: 签发 / 吊销分享 Token ===
+      // GET /share_token?key=path&prefix=1&expires=3600&methods=GET,HEAD&max_size=&ip=
+      if (request.method === 'GET' && url.pathname === '/share_token') {
+        const targetKey = url.searchParams.get('key');
+        if (!targetKey) throw new S3Error('InvalidArgument', 'Missing key');
+
+        const expires = parseInt(url.searchParams.get('expires') || '3600') || 3600;
+        const methods = url.searchParams.get('methods');
+        const maxSize = url.searchParams.get('max_size');
+        const { token, claims } = await auth.mintShareToken({
+          path: targetKey,
+          prefix: url.searchParams.get('prefix') === '1' || undefined,
+          exp: Math.floor(Date.now() / 1000) + expires,
+          methods: methods ? methods.split(',').map(m => m.trim().toUpperCase()).filter(m => m) : undefined,
+          maxSize: maxSize ? parseInt(maxSize) : undefined,
+          ip: url.searchParams.get('ip') || undefined
+        });
+
+        const body: ShareTokenResponse = { token, id: claims.id, expiresAt: new Date(claims.exp * 1000).toISOString() };
+        if (!claims.prefix) {
+          body.url = `${url.origin}/${virtualBucket}/${encodeURIComponent(targetKey).replace(/%2F/g, '/')}?token=${token}`;
+        }
+        return new Response(JSON.stringify(body), {
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      // DELETE /share_token?id=xxx
+      if (request.method === 'DELETE' && url.pathname === '/share_token') {
+        const id = url.searchParams.get('id');
+        if (!id) throw new S3Error('InvalidArgument', 'Missing id');
+        await auth.revokeShareToken(id);
+        return new Response(null, { status: 204 });
+      }
+
+      // === DELETE OBJECTS (POST /?delete) ===
+      if (request.method === 'POST' && key === '' && url.searchParams.has('delete')) {
+        const parsed = parseDeleteObjectsRequest(await auth.payload(request).text());
+        if (!parsed || parsed.objects.length === 0 || parsed.objects.length > 1000) {
+          throw new S3Error('MalformedXML', 'The XML you provided was not well-formed or did not validate against our published schema.');
+        }
+
+        // 按密钥策略逐个授权 (未授予 delete 或在前缀之外)，不允许的 Key 报告 AccessDenied，其余照常删除
+        // 开启版本控制或指定了 VersionId 时逐个处理 (删除标记 / 永久删除版本)，否则按桶批量删除
+        const permitted = parsed.objects.filter(o => can('delete', o.key));
+        const denied = parsed.objects.filter(o => !permitted.includes(o));
+        let deleted: DeletedVersion[] = [];
+        let errors: DeleteError[] = [];
+        if (cluster.isVersioningEnabled() || permitted.some(o => o.versionId !== undefined)) {
+          ({ deleted, errors } = await cluster.deleteObjectVersions(permitted));
+        } else if (permitted.length > 0) {
+          const result = await cluster.deleteObjects(permitted.map(o => o.key));
+          deleted = result.deleted.map(k => ({ key: k }));
+          errors = result.errors;
+        }
+        denied.forEach(o => errors.push({ key: o.key, code: 'AccessDenied', message: 'Access Denied' }));
+        const xml = deleteResultXml(deleted, errors, parsed.quiet);
+        return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+      }
+
+      // === MULTIPART UPLOAD ===
+      const uploadId = url.searchParams.get('uploadId');
+
+      // ListMultipartUploads (GET /?uploads)
+      if (request.method === 'GET' && key === '' && url.searchParams.has('uploads')) {
+        const prefix = safeDecode(url.searchParams.get('prefix') || '');
+        authorize('list', prefix);
+        const uploads = await cluster.listMultipartUploads(prefix);
+        const xml = listMultipartUploadsXml(virtualBucket, prefix, uploads);
+        return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+      }
+
+      // CreateMultipartUpload (POST /key?uploads)
+      if (request.method === 'POST' && url.searchParams.has('uploads')) {
+        authorize('write');
+        // 客户端可通过 X-Total-Size 头或 size 参数声明总大小，用于选桶
+        const declared = request.headers.get('X-Total-Size') || url.searchParams.get('size');
+        const declaredSize = declared ? parseInt(declared) || 0 : 0;
+        const session = await cluster.createMultipartUpload(key, request.headers, declaredSize);
+        if (!session) {
+          throw new S3Error('InsufficientStorage', 'No bucket has enough space for this file.');
+        }
+        const xml = initiateMultipartUploadXml(virtualBucket, key, session.uploadId);
+        return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+      }
+
+      if (uploadId) {
+        authorize('write');
+        const session = await cluster.getMultipartSession(uploadId);
+        if (!session || session.key !== key) {
+          throw new S3Error('NoSuchUpload', 'The specified upload does not exist.');
+        }
+
+        // UploadPart / UploadPartCopy (PUT /key?partNumber=N&uploadId=X)
+        if (request.method === 'PUT') {
+          const partNumber = parseInt(url.searchParams.get('partNumber') || '');
+          if (!(partNumber >= 1 && partNumber <= 10000)) {
+            throw new S3Error('InvalidArgument', 'Part number must be an integer between 1 and 10000, inclusive');
+          }
+
+          const copySource = request.headers.get('x-amz-copy-source');
+          if (copySource) {
+            const source = parseCopySource(copySource, virtualBucket);
+            const sourceKey = source.key;
+            authorize('read', sourceKey);
+            const sourceInfo = await locateCopySource(cluster, source);
+
+            const range = request.headers.get('x-amz-copy-source-range') || undefined;
+            const result = await cluster.uploadPartCopy(session, partNumber, sourceKey, sourceInfo, range);
+            const xml = copyPartResultXml(result.etag, result.lastModified);
+            return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+          }
+
+          const payload = auth.payload(request);
+          const etag = await payload.run(body => cluster.uploadPart(session, partNumber, body, payload.headers));
+          const respHeaders = new Headers();
+          if (etag) respHeaders.set('ETag', `"${etag}"`);
+          return new Response(null, { status: 200, headers: respHeaders });
+        }
+
+        // ListParts (GET /key?uploadId=X)
+        if (request.method === 'GET') {
+          const maxParts = Math.min(parseInt(url.searchParams.get('max-parts') || '1000') || 1000, 1000);
+          const marker = parseInt(url.searchParams.get('part-number-marker') || '0') || 0;
+          const listing = await cluster.listParts(session, maxParts, marker);
+          const xml = listPartsXml(
+            virtualBucket, key, uploadId, listing.parts,
+            marker, listing.nextPartNumberMarker, maxParts, listing.isTruncated
+          );
+          return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+        }
+
+        // CompleteMultipartUpload (POST /key?uploadId=X)
+        if (request.method === 'POST') {
+          const meta = await cluster.completeMultipartUpload(session, await auth.payload(request).text());
+          const location = `${url.origin}/${virtualBucket}/${encodeURIComponent(key).replace(/%2F/g, '/')}`;
+          const xml = completeMultipartUploadXml(location, virtualBucket, key, meta.etag);
+          const respHeaders = new Headers({ 'Content-Type': 'application/xml', 'X-Served-By': meta.bucket });
+          if (cluster.isVersioningEnabled()) respHeaders.set('x-amz-version-id', versionIdOf(meta));
+          return new Response(xml, { headers: respHeaders });
+        }
+
+        // AbortMultipartUpload (DELETE /key?uploadId=X)
+        if (request.method === 'DELETE') {
+          await cluster.abortMultipartUpload(session);
+          return new Response(null, { status: 204 });
+        }
+      }
+
+      // === BUCKET VERSIONING (GET / PUT /?versioning) ===
+      // 版本控制由 OBJECT_VERSIONING 配置，不支持通过 API 修改
+      if (key === '' && url.searchParams.has('versioning')) {
+        if (request.method === 'GET') {
+          authorize('list');
+          return new Response(versioningConfigurationXml(cluster.isVersioningEnabled()), { headers: { 'Content-Type': 'application/xml' } });
+        }
+        if (request.method === 'PUT') {
+          authorize('admin');
+          throw new S3Error('NotImplemented', 'Versioning is configured by the OBJECT_VERSIONING setting.');
+        }
+      }
+
+      // === BUCKET LIFECYCLE (GET / PUT / DELETE /?lifecycle) ===
+      if (key === '' && url.searchParams.has('lifecycle')) {
+        const lifecycle = new LifecycleManager(env, cluster);
+        if (request.method === 'GET') {
+          authorize('list');
+          const rules = await lifecycle.getRules();
+          if (!rules) throw new S3Error('NoSuchLifecycleConfiguration', 'The lifecycle configuration does not exist.');
+          return new Response(lifecycleConfigurationXml(rules), { headers: { 'Content-Type': 'application/xml' } });
+        }
+        if (request.method === 'PUT') {
+          authorize('admin');
+          const parsed = parseLifecycleConfiguration(await auth.payload(request).text());
+          if (!parsed || parsed.rules.length === 0) {
+            throw new S3Error('MalformedXML', 'The XML you provided was not well-formed or did not validate against our published schema.');
+          }
+          if (parsed.unsupported.length > 0) {
+            throw new S3Error('NotImplemented', `Unsupported lifecycle configuration: ${parsed.unsupported.join(', ')}`);
+          }
+          await lifecycle.putRules(parsed.rules);
+          return new Response(null, { status: 200 });
+        }
+        if (request.method === 'DELETE') {
+          authorize('admin');
+          await lifecycle.deleteRules();
+          return new Response(null, { status: 204 });
+        }
+      }
+
+      // === LIST OBJECT VERSIONS (GET /?versions) ===
+      if (request.method === 'GET' && key === '' && url.searchParams.has('versions')) {
+        const prefix = safeDecode(url.searchParams.get('prefix') || '');
+        const delimiter = safeDecode(url.searchParams.get('delimiter') || '');
+        authorize('list', prefix);
+
+        const maxKeysParam = url.searchParams.get('max-keys');
+        const maxKeys = maxKeysParam !== null ? parseInt(maxKeysParam) : 1000;
+        if (isNaN(maxKeys) || maxKeys < 0) throw new S3Error('InvalidArgument', 'Invalid max-keys');
+        const encodingType = url.searchParams.get('encoding-type') || undefined;
+        if (encodingType && encodingType !== 'url') throw new S3Error('InvalidArgument', 'Invalid Encoding Method specified in Request');
+        const keyMarker = url.searchParams.get('key-marker') || undefined;
+        const versionIdMarker = url.searchParams.get('version-id-marker') || undefined;
+        if (versionIdMarker && !keyMarker) {
+          throw new S3Error('InvalidArgument', 'A version-id marker cannot be specified without a key marker.');
+        }
+
+        const page = await cluster.listObjectVersions(prefix, {
+          delimiter: delimiter || undefined,
+          keyMarker,
+          versionIdMarker,
+          maxKeys: Math.min(maxKeys, 1000)
+        });
+
+        const ownerId = principal?.accessKeyId || env.VIRTUAL_ACCESS_KEY_ID;
+        const xml = listObjectVersionsXml({
+          bucket: virtualBucket,
+          prefix,
+          delimiter,
+          maxKeys: Math.min(maxKeys, 1000),
+          encodingType,
+          keyMarker,
+          versionIdMarker,
+          versions: page.versions,
+          commonPrefixes: page.commonPrefixes,
+          isTruncated: page.isTruncated,
+          nextKeyMarker: page.nextKeyMarker,
+          nextVersionIdMarker: page.nextVersionIdMarker,
+          owner: { id: ownerId, displayName: ownerId }
+        });
+        return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+      }
+
       // === LIST OBJECTS (GET / or GET /?list-type=2) ===
       if (request.method === 'GET' && (key === '' || url.searchParams.has('list-type') || url.searchParams.has('prefix'))) {
         // 解码参数中的 prefix 和 delimiter
@@ -119,99 +684,330 @@ export default {
           const base = key.endsWith('/') ? key : key + '/';
           effectivePrefix = base + paramPrefix;
         }
+        authorize('list', effectivePrefix);
+
+        const isV2 = url.searchParams.get('list-type') === '2';
+        const maxKeysParam = url.searchParams.get('max-keys');
+        const maxKeys = maxKeysParam !== null ? parseInt(maxKeysParam) : 1000;
+        if (isNaN(maxKeys) || maxKeys < 0) throw new S3Error('InvalidArgument', 'Invalid max-keys');
+        const encodingType = url.searchParams.get('encoding-type') || undefined;
+        if (encodingType && encodingType !== 'url') throw new S3Error('InvalidArgument', 'Invalid Encoding Method specified in Request');
+
+        // V1 使用 marker；V2 优先使用 continuation-token，其次 start-after
+        const continuationToken = url.searchParams.get('continuation-token') || undefined;
+        const startAfter = url.searchParams.get('start-after') || undefined;
+        let marker = url.searchParams.get('marker') || undefined;
+        let cursor: string | undefined = undefined;
+        if (isV2) {
+          marker = startAfter;
+          if (continuationToken) {
+            const token = decodeListToken(continuationToken);
+            if (!token) throw new S3Error('InvalidArgument', 'The continuation token provided is incorrect');
+            marker = token.m;
+            cursor = token.c;
+          }
+        }
+
+        // 直接从 KV 索引聚合 (单页最多 1000 项)
+        const page = await cluster.aggregateList(effectivePrefix, {
+          delimiter: delimiter || undefined,
+          marker,
+          maxKeys: Math.min(maxKeys, 1000),
+          cursor,
+          keepCursor: !isV2
+        });
 
-        // 直接从 KV 索引聚合
-        const { contents, commonPrefixes } = await cluster.aggregateList(effectivePrefix, delimiter || undefined);
-        const xml = generateXmlList(contents, commonPrefixes, virtualBucket, effectivePrefix, delimiter);
+        const fetchOwner = !isV2 || url.searchParams.get('fetch-owner') === 'true';
+        const xml = listObjectsXml({
+          version: isV2 ? 2 : 1,
+          bucket: virtualBucket,
+          prefix: effectivePrefix,
+          delimiter,
+          maxKeys: Math.min(maxKeys, 1000),
+          encodingType,
+          contents: page.contents,
+          commonPrefixes: page.commonPrefixes,
+          isTruncated: page.isTruncated,
+          owner: fetchOwner ? { id: principal?.accessKeyId || env.VIRTUAL_ACCESS_KEY_ID, displayName: principal?.accessKeyId || env.VIRTUAL_ACCESS_KEY_ID } : undefined,
+          marker,
+          nextMarker: page.nextMarker,
+          continuationToken,
+          nextContinuationToken: isV2 && page.isTruncated && page.nextMarker !== undefined
+            ? encodeListToken({ m: page.nextMarker, c: page.cursor })
+            : undefined,
+          startAfter
+        });
         
         return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
       }
 
       // === GET / HEAD OBJECT (DOWNLOAD) ===
       if (request.method === 'GET' || request.method === 'HEAD') {
-        // 1. 检查 Edge Cache (仅 GET)
-        if (request.method === 'GET') {
-          const cachedRes = await cache.match(request);
-          if (cachedRes) return cachedRes;
-        }
+        authorize('read');
 
-        // 2. 查 KV 索引定位文件
-        const fileInfo = await cluster.locateFile(key);
+        // 1. 查 KV 索引定位文件 (缓存键依赖索引中的版本，已删除的文件不会再从缓存返回)
+        // 指定 versionId 时读取该版本，删除标记与 S3 一致返回 405
+        const versionId = url.searchParams.get('versionId');
+        let fileInfo: FileMetadata | null;
+        if (versionId !== null) {
+          const version = await cluster.locateVersion(key, versionId);
+          if (!version) throw new S3Error('NoSuchVersion', 'The specified version does not exist.');
+          if (version.deleteMarker) {
+            const res = errorResponse(new S3Error('MethodNotAllowed', 'The specified method is not allowed against this resource.'), request, key);
+            res.headers.set('x-amz-delete-marker', 'true');
+            res.headers.set('x-amz-version-id', versionId);
+            return res;
+          }
+          fileInfo = version;
+        } else {
+          fileInfo = await cluster.locateFile(key);
+        }
         
-        if (!fileInfo) return new Response('Not Found', { status: 404 });
+        if (!fileInfo) throw new S3Error('NoSuchKey', 'The specified key does not exist.');
+
+        // 开启版本控制或指定了版本时返回版本 ID (缓存中的响应可能来自同内容的其他版本，统一在返回前设置)
+        const responseVersionId = versionId !== null || cluster.isVersioningEnabled() ? versionIdOf(fileInfo) : null;
+        const withVersion = (res: Response): Response => {
+          if (responseVersionId !== null) res.headers.set('x-amz-version-id', responseVersionId);
+          return res;
+        };
+
+        // 条件请求直接由索引判定，无需回源
+        const condition = evaluateConditions(readConditions(request.headers), fileInfo);
+        if (condition === 'precondition-failed') {
+          throw new S3Error('PreconditionFailed', 'At least one of the pre-conditions you specified did not hold');
+        }
+        if (condition === 'not-modified') {
+          const headers = new Headers();
+          headers.set('ETag', `"${fileInfo.etag}"`);
+          headers.set('Last-Modified', new Date(fileInfo.lastModified).toUTCString());
+          return withVersion(new Response(null, { status: 304, headers }));
+        }
+
+        // Range 按索引中的大小解析，无法满足时直接返回 416
+        const ranges = request.method === 'GET' ? readRange(request.headers, fileInfo) : null;
+        if (ranges && ranges.length === 0) {
+          const res = errorResponse(new S3Error('InvalidRange', 'The requested range is not satisfiable'), request, key);
+          res.headers.set('Content-Range', `bytes */${fileInfo.size}`);
+          return res;
+        }
 
-        // HEAD 请求直接构造响应
+        // 2. 检查 Edge Cache (仅 GET，Range 请求从完整对象的缓存中截取)
+        if (request.method === 'GET') {
+          const cachedRes = await cache.match(request, key, fileInfo, ranges);
+          if (cachedRes) {
+            metrics.recordCacheHit(cachedRes.headers.get('X-Served-By'), parseInt(cachedRes.headers.get('Content-Length') || '0'));
+            return withVersion(cachedRes);
+          }
+        }
+
+        // HEAD 请求直接构造响应 (索引中尚无元数据时回源补全并写回)
         if (request.method === 'HEAD') {
-            const headers = new Headers();
+            if (fileInfo.contentType === undefined) {
+              const recovered = await cluster.fetchObjectMetadata(key, fileInfo);
+              if (recovered) {
+                fileInfo = recovered;
+                // 历史版本不在索引中，补全的元数据只用于本次响应
+                if (versionId === null) ctx.waitUntil(cluster.saveObjectMetadata(key, recovered));
+              }
+            }
+            const headers = new Headers(metadataToHeaders(fileInfo));
             headers.set('Content-Length', fileInfo.size.toString());
-            headers.set('Content-Type', 'application/octet-stream'); 
+            if (!headers.has('Content-Type')) headers.set('Content-Type', 'application/octet-stream');
             headers.set('Last-Modified', new Date(fileInfo.lastModified).toUTCString());
             headers.set('ETag', `"${fileInfo.etag}"`);
             headers.set('X-Served-By', fileInfo.bucket);
-            return new Response(null, { status: 200, headers });
+            applyResponseOverrides(url.searchParams, headers);
+            return withVersion(new Response(null, { status: 200, headers }));
         }
 
-        // 3. 回源下载
-        const response = await cluster.getObject(fileInfo.bucket, key, request.headers.get('range') || undefined);
-        
-        const newHeaders = new Headers(response.headers);
-        newHeaders.set('X-Served-By', fileInfo.bucket);
-        
-        // 4. 写入 Edge Cache (异步)
-        if (response.status === 200) {
-           ctx.waitUntil(cache.put(request, response.clone()));
+        // 3. 回源下载 (多副本时自动故障转移)
+        const download = async (range?: ByteRange): Promise<Response> => {
+          const { response, bucket: servedBy } = await cluster.getObjectWithFailover(key, fileInfo!, range ? `bytes=${range.start}-${range.end}` : undefined);
+          if (cache.isEnabled()) metrics.recordCacheMiss(servedBy);
+          if (!response.ok) {
+            throw S3Error.fromBackend(response.status, await response.text(), 'Get object');
+          }
+
+          const newHeaders = new Headers(response.headers);
+          // 以索引中记录的元数据为准 (未记录时沿用后端响应头)
+          if (fileInfo!.contentType !== undefined) {
+            Object.entries(metadataToHeaders(fileInfo!)).forEach(([name, value]) => newHeaders.set(name, value));
+          }
+          newHeaders.set('X-Served-By', servedBy);
+          applyResponseOverrides(url.searchParams, newHeaders);
+
+          return new Response(response.body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: newHeaders
+          });
+        };
+
+        if (ranges) {
+          // 分块缓存：热点区间之后由边缘直接返回
+          if (cache.isChunkingEnabled()) {
+            return withVersion(await cache.matchChunks(request, key, fileInfo, ranges, { fetch: download, waitUntil: p => ctx.waitUntil(p) }));
+          }
+          // 后端只支持单个区间，多个区间逐个回源后组装
+          if (ranges.length > 1) {
+            return withVersion(rangeResponse(ranges, fileInfo.size, await download(ranges[0]), download));
+          }
+          return withVersion(await download(ranges[0]));
+        }
+
+        const result = await download();
+
+        // 4. 写入 Edge Cache (异步，缓存的是改写后的响应)
+        if (result.status === 200) {
+           ctx.waitUntil(cache.put(request, key, fileInfo, result.clone()));
         }
         
-        return new Response(response.body, {
-          status: response.status,
-          statusText: response.statusText,
-          headers: newHeaders
-        });
+        return withVersion(result);
+      }
+
+      // === COPY OBJECT (PUT + x-amz-copy-source) ===
+      if (request.method === 'PUT' && request.headers.has('x-amz-copy-source')) {
+        const source = parseCopySource(request.headers.get('x-amz-copy-source')!, virtualBucket);
+        const sourceKey = source.key;
+        authorize('write');
+        authorize('read', sourceKey);
+        const sourceInfo = await locateCopySource(cluster, source);
+
+        // 源对象条件不满足时 CopyObject 一律返回 412
+        if (evaluateConditions(readConditions(request.headers, 'x-amz-copy-source-'), sourceInfo) !== 'ok') {
+          throw new S3Error('PreconditionFailed', 'At least one of the pre-conditions you specified did not hold');
+        }
+        // 与 S3 一致：复制到自身时必须替换元数据，否则没有任何效果 (复制历史版本即恢复该版本，不受此限)
+        if (sourceKey === key && source.versionId === undefined && (request.headers.get('x-amz-metadata-directive') || '').toUpperCase() !== 'REPLACE') {
+          throw new S3Error('InvalidRequest', 'This copy request is illegal because it is trying to copy an object to itself without changing the object\'s metadata.');
+        }
+
+        const target = await cluster.reserveBucketsForCopy(sourceInfo);
+        if (!target) {
+          throw new S3Error('InsufficientStorage', 'No bucket has enough space for this file.');
+        }
+
+        const meta = await cluster.copyObject(sourceKey, sourceInfo, key, target, request.headers);
+        const xml = copyObjectResultXml(meta.etag, new Date(meta.lastModified));
+        const respHeaders = new Headers({ 'Content-Type': 'application/xml' });
+        if (meta.versionId) respHeaders.set('x-amz-version-id', meta.versionId);
+        if (source.versionId !== undefined) respHeaders.set('x-amz-copy-source-version-id', source.versionId);
+        return new Response(xml, { headers: respHeaders });
       }
 
       // === PUT OBJECT (UPLOAD) ===
       if (request.method === 'PUT') {
+        authorize('write');
+
         // 1. 检查 KV 中是否存在同名文件
         const existing = await cluster.locateFile(key);
-        const size = parseInt(request.headers.get('Content-Length') || '0');
-
-        // 2. 如果存在同名文件，先同步删除它以避免产生 Hide Marker
-        if (existing) {
-          // 传入 versionId 确保执行物理删除，updateKV 设为 false 避免中间态写入
-          await cluster.deleteObject(existing.bucket, key, existing.versionId, false);
+        // 请求体经过校验 / aws-chunked 解码，大小以解码后的长度为准
+        const payload = auth.payload(request);
+        const size = parseInt(payload.headers.get('Content-Length') || '0');
+        // 与 S3 一致：单次 PUT 最大 5 GiB，更大的文件需使用分片上传
+        if (size > MAX_PUT_SIZE) {
+          throw new S3Error('EntityTooLarge', 'Your proposed upload exceeds the maximum allowed object size.');
         }
 
-        // 3. 选桶并上传
-        const targetBucket = await cluster.selectBucketForUpload(size);
-        if (!targetBucket) {
-          return new Response('Insufficient Storage: No bucket has enough space for this file.', { status: 507 });
+        // 2. 同名文件在新版本写入索引后由 putObject 处理 (删除旧副本或转为历史版本)，上传失败时保持不变
+        if (existing) ctx.waitUntil(cache.evict(request, key, existing));
+
+        // 3. 选桶 (并预留容量) 后上传
+        const target = await cluster.reserveBucketsForUpload(size);
+        if (!target) {
+          throw new S3Error('InsufficientStorage', 'No bucket has enough space for this file.');
         }
 
-        // putObject 会自动记录 VersionID 并更新 KV 缓存
-        const backendRes = await cluster.putObject(targetBucket, key, request.body, request.headers);
+        // putObject 写入全部副本，并自动记录 VersionID、更新 KV 缓存
+        const meta = await payload.run(body => cluster.putObject(target.buckets, key, body, payload.headers, target.reservationId));
 
         const respHeaders = new Headers();
-        const etag = backendRes.headers.get('ETag');
-        if (etag) respHeaders.set('ETag', etag);
+        respHeaders.set('ETag', `"${meta.etag}"`);
+        if (cluster.isVersioningEnabled()) respHeaders.set('x-amz-version-id', versionIdOf(meta));
 
         return new Response(null, { status: 200, headers: respHeaders });
       }
 
       // === DELETE OBJECT ===
       if (request.method === 'DELETE') {
+        authorize('delete');
+
+        // 永久删除指定版本 (或删除标记)
+        const versionId = url.searchParams.get('versionId');
+        if (versionId !== null) {
+          const removed = await cluster.deleteVersion(key, versionId);
+          if (removed && !removed.deleteMarker) ctx.waitUntil(cache.evict(request, key, removed));
+          const headers = new Headers({ 'x-amz-version-id': versionId });
+          if (removed?.deleteMarker) headers.set('x-amz-delete-marker', 'true');
+          return new Response(null, { status: 204, headers });
+        }
+
         const existing = await cluster.locateFile(key);
+        // 开启版本控制时只写入删除标记，当前版本转为历史版本
+        if (cluster.isVersioningEnabled()) {
+          const marker = await cluster.createDeleteMarker(key);
+          if (existing) ctx.waitUntil(cache.evict(request, key, existing));
+          return new Response(null, {
+            status: 204,
+            headers: { 'x-amz-delete-marker': 'true', 'x-amz-version-id': marker.versionId }
+          });
+        }
         if (existing) {
-          // 显式带上 VersionID 进行永久删除
-          await cluster.deleteObject(existing.bucket, key, existing.versionId);
+          // 显式带上 VersionID 永久删除全部副本
+          await cluster.removeObject(key, existing);
+          ctx.waitUntil(cache.evict(request, key, existing));
         }
         return new Response(null, { status: 204 });
       }
 
-      return new Response('Method Not Allowed', { status: 405 });
+      throw new S3Error('MethodNotAllowed', 'The specified method is not allowed against this resource.');
 
-    } catch (e: any) {
-      console.error('Worker Error:', e);
-      return new Response(`Error: ${e.message}`, { status: 500 });
+    } catch (e) {
+      return errorResponse(e, request, key || undefined);
     }
+  },
+
+  // 定时任务：增量对账索引，继续执行进行中的桶间迁移
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    let reconciler: IndexReconciler, migrator: BucketMigrator, lifecycle: LifecycleManager;
+    try {
+      reconciler = new IndexReconciler(env);
+      migrator = new BucketMigrator(env);
+      lifecycle = new LifecycleManager(env);
+    } catch (e) {
+      // 桶配置有误 (ConfigError)：本次不执行，等待配置修正
+      console.error('Scheduled tasks skipped:', e);
+      return;
+    }
+
+    // 用量增量在对账之后合并，避免与对账完成时的计数重置同时写入清单
+    const reconcile = reconciler.run().finally(() => new IndexStore(env).compactUsage());
+    const tasks = [reconcile, migrator.run(), lifecycle.run()];
+    tasks.forEach(task => ctx.waitUntil(task));
+    // 对账、迁移与生命周期产生的后端请求同样计入统计与健康状态
+    // 写入后再把各 isolate 的统计按天汇总，/metrics 每天只需读取一条记录
+    const metrics = new MetricsRecorder(env);
+    ctx.waitUntil(Promise.allSettled(tasks)
+      .then(() => Promise.all([metrics.flush(true), new HealthTracker(env).flush(true)]))
+      .then(() => metrics.rollup()));
   }
+};
+
+export default {
+  // 按 S3 操作与状态码统计每个请求 (isolate 内累计，按间隔写入 KV)；后端健康统计同样在响应后写入
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const response = await handler.fetch(request, env, ctx);
+    const url = new URL(request.url);
+    const virtualBucket = env.S3_VIRTUAL_BUCKET || 'virtual-bucket';
+    const path = url.pathname.substring(1);
+    const key = path === virtualBucket ? '' : path.startsWith(virtualBucket + '/') ? path.substring(virtualBucket.length + 1) : path;
+
+    const metrics = new MetricsRecorder(env);
+    metrics.recordRequest(s3Operation(request, url, key), response.status);
+    ctx.waitUntil(metrics.flush());
+    ctx.waitUntil(new HealthTracker(env).flush());
+    return response;
+  },
+  scheduled: handler.scheduled
 };
\ No newline at end of file
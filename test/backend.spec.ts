@@ -0,0 +1,63 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { R2Backend } from '../src/core/backend';
+import { BucketConfig } from '../src/core/config';
+
+const backend = new R2Backend({ name: 'r2-a', type: 'r2', binding: 'R2_A' } as BucketConfig, env.R2_A);
+
+async function put(key: string, body: string): Promise<string> {
+	const replica = await backend.put(key, new Blob([body]).stream(), { 'Content-Length': String(body.length), 'Content-Type': 'text/plain' });
+	return replica.versionId!;
+}
+
+describe('R2Backend', () => {
+	it('serves ranges as 206 and full reads as 200', async () => {
+		await put('ranged.txt', 'abcdefghij');
+
+		const ranged = await backend.get('ranged.txt', { range: 'bytes=2-4' });
+		expect(ranged.status).toBe(206);
+		expect(ranged.headers.get('Content-Range')).toBe('bytes 2-4/10');
+		expect(ranged.headers.get('Content-Length')).toBe('3');
+		expect(await ranged.text()).toBe('cde');
+
+		const suffix = await backend.get('ranged.txt', { range: 'bytes=-3' });
+		expect(suffix.headers.get('Content-Range')).toBe('bytes 7-9/10');
+		expect(await suffix.text()).toBe('hij');
+
+		const full = await backend.get('ranged.txt');
+		expect(full.status).toBe(200);
+		expect(await full.text()).toBe('abcdefghij');
+	});
+
+	it('treats versions other than the current object as missing', async () => {
+		const first = await put('versioned.txt', 'one');
+		const second = await put('versioned.txt', 'two');
+		expect(first).not.toBe(second);
+
+		expect((await backend.get('versioned.txt', { versionId: first })).status).toBe(404);
+		expect((await backend.head('versioned.txt', first)).status).toBe(404);
+		expect(await (await backend.get('versioned.txt', { versionId: second })).text()).toBe('two');
+
+		// 删除已被覆盖的版本不影响当前对象
+		expect((await backend.delete('versioned.txt', first)).status).toBe(204);
+		expect(await env.R2_A.head('versioned.txt')).not.toBeNull();
+		await backend.delete('versioned.txt', second);
+		expect(await env.R2_A.head('versioned.txt')).toBeNull();
+	});
+
+	it('skips overwritten versions in batch deletes', async () => {
+		const stale = await put('batch-stale.txt', 'one');
+		await put('batch-stale.txt', 'two');
+		const current = await put('batch-current.txt', 'three');
+		await put('batch-plain.txt', 'four');
+
+		expect(await backend.deleteMany([
+			{ key: 'batch-stale.txt', versionId: stale },
+			{ key: 'batch-current.txt', versionId: current },
+			{ key: 'batch-plain.txt' },
+		])).toEqual([]);
+		expect(await env.R2_A.head('batch-stale.txt')).not.toBeNull();
+		expect(await env.R2_A.head('batch-current.txt')).toBeNull();
+		expect(await env.R2_A.head('batch-plain.txt')).toBeNull();
+	});
+});
@@ -0,0 +1,69 @@
+import { SELF, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { IndexStore } from '../src/core/index-store';
+import { BUCKET_URL, rootClient, s3, s3With, xmlValue } from './helpers';
+
+// 缓存写入在 waitUntil 中完成，GET 均经 s3With 发出
+async function get(key: string): Promise<Response> {
+	return await s3With(env, key);
+}
+
+// 绕过网关删除后端副本：之后仍能读到内容说明响应来自 Edge Cache
+async function putCachedOnly(key: string, body: string): Promise<void> {
+	expect((await s3(key, { method: 'PUT', body })).status).toBe(200);
+	expect(await (await get(key)).text()).toBe(body);
+	const entry = await new IndexStore(env).get(key);
+	await (entry!.bucket === 'r2-a' ? env.R2_A : env.R2_B).delete(key);
+}
+
+async function purge(query: string): Promise<Response> {
+	return await SELF.fetch(await rootClient.sign(`https://gateway.test/edge_cache?${query}`, { method: 'DELETE' }));
+}
+
+describe('edge cache', () => {
+	it('serves repeated GETs from the cache whatever the signature parameters', async () => {
+		await putCachedOnly('cache/hit.txt', 'cached');
+
+		const presigned = await rootClient.sign(`${BUCKET_URL}/cache/hit.txt?X-Amz-Expires=60`, { aws: { signQuery: true } });
+		const response = await SELF.fetch(presigned);
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe('cached');
+	});
+
+	it('serves the new content after an overwrite or a delete', async () => {
+		await (await s3('cache/overwrite.txt', { method: 'PUT', body: 'first' })).text();
+		expect(await (await get('cache/overwrite.txt')).text()).toBe('first');
+
+		await (await s3('cache/overwrite.txt', { method: 'PUT', body: 'second' })).text();
+		expect(await (await get('cache/overwrite.txt')).text()).toBe('second');
+
+		expect((await s3With(env, 'cache/overwrite.txt', { method: 'DELETE' })).status).toBe(204);
+		const deleted = await get('cache/overwrite.txt');
+		expect(deleted.status).toBe(404);
+		expect(xmlValue(await deleted.text(), 'Code')).toBe('NoSuchKey');
+	});
+
+	it('drops cached entries purged by key or by prefix', async () => {
+		await putCachedOnly('cache/purge/a.txt', 'a');
+		await putCachedOnly('cache/purge/b.txt', 'b');
+
+		const byKey = await purge('key=cache/purge/a.txt');
+		expect(byKey.status).toBe(200);
+		expect(await byKey.json()).toMatchObject({ purged: { key: 'cache/purge/a.txt' } });
+		const purged = await get('cache/purge/a.txt');
+		expect(purged.status).not.toBe(200);
+		await purged.text();
+		expect(await (await get('cache/purge/b.txt')).text()).toBe('b');
+
+		await (await purge('prefix=cache/purge/')).text();
+		const rest = await get('cache/purge/b.txt');
+		expect(rest.status).not.toBe(200);
+		await rest.text();
+	});
+
+	it('requires exactly one purge target', async () => {
+		const response = await purge('key=a&prefix=b');
+		expect(response.status).toBe(400);
+		expect(xmlValue(await response.text(), 'Code')).toBe('InvalidArgument');
+	});
+});
@@ -0,0 +1,85 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { IndexStore } from '../src/core/index-store';
+import { S3_ORIGIN, envWith, s3Bucket, s3With, xmlValue } from './helpers';
+
+// 条件请求由索引判定：未注册拦截器且禁止联网，回源即失败
+const testEnv = envWith([s3Bucket('s3-cond')]);
+const lastModified = Date.UTC(2025, 0, 1, 12, 0, 0);
+const entry = { bucket: 's3-cond', size: 5, lastModified, etag: 'abc', versionId: 'v1', contentType: 'text/plain' };
+const before = new Date(lastModified - 60_000).toUTCString();
+const after = new Date(lastModified + 60_000).toUTCString();
+
+async function get(key: string, headers: Record<string, string>, method = 'GET'): Promise<Response> {
+	return await s3With(testEnv, key, { method, headers });
+}
+
+describe('conditional GET and HEAD', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+	it('answers 304 from the index for If-None-Match and If-Modified-Since', async () => {
+		await new IndexStore(env).put('cond/304.txt', entry);
+		const cases: Record<string, string>[] = [{ 'If-None-Match': '"abc"' }, { 'If-None-Match': 'W/"other", *' }, { 'If-Modified-Since': after }];
+		for (const headers of cases) {
+			for (const method of ['GET', 'HEAD']) {
+				const response = await get('cond/304.txt', headers, method);
+				expect(response.status).toBe(304);
+				expect(response.headers.get('ETag')).toBe('"abc"');
+				expect(response.headers.get('Last-Modified')).toBe(new Date(lastModified).toUTCString());
+				expect(await response.text()).toBe('');
+			}
+		}
+	});
+
+	it('answers 412 from the index for If-Match and If-Unmodified-Since', async () => {
+		await new IndexStore(env).put('cond/412.txt', entry);
+		const cases: Record<string, string>[] = [{ 'If-Match': '"other"' }, { 'If-Unmodified-Since': before }];
+		for (const headers of cases) {
+			const response = await get('cond/412.txt', headers);
+			expect(response.status).toBe(412);
+			expect(xmlValue(await response.text(), 'Code')).toBe('PreconditionFailed');
+		}
+	});
+
+	it('lets If-Match override If-Unmodified-Since and If-None-Match override If-Modified-Since', async () => {
+		await new IndexStore(env).put('cond/order.txt', entry);
+		const head = await get('cond/order.txt', { 'If-Match': '"abc"', 'If-Unmodified-Since': before }, 'HEAD');
+		expect(head.status).toBe(200);
+
+		const modified = await get('cond/order.txt', { 'If-None-Match': '"other"', 'If-Modified-Since': after }, 'HEAD');
+		expect(modified.status).toBe(200);
+	});
+});
+
+describe('response-* overrides', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+	const overrides = 'response-content-disposition=attachment%3B%20filename%3D%22report.txt%22&response-content-type=application%2Fforce-download&response-cache-control=no-store';
+
+	function expectOverrides(response: Response): void {
+		expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="report.txt"');
+		expect(response.headers.get('Content-Type')).toBe('application/force-download');
+		expect(response.headers.get('Cache-Control')).toBe('no-store');
+	}
+
+	it('replaces the response headers on HEAD and GET', async () => {
+		await new IndexStore(env).put('cond/report.txt', entry);
+		const head = await s3With(testEnv, `cond/report.txt?${overrides}`, { method: 'HEAD' });
+		expect(head.status).toBe(200);
+		expectOverrides(head);
+
+		fetchMock.get(S3_ORIGIN).intercept({ method: 'GET', path: '/s3-cond/cond/report.txt?versionId=v1' }).reply(200, 'hello', { headers: { 'Content-Type': 'text/plain' } });
+		const response = await s3With(testEnv, `cond/report.txt?${overrides}`);
+		expect(response.status).toBe(200);
+		expectOverrides(response);
+		expect(await response.text()).toBe('hello');
+	});
+});
@@ -0,0 +1,126 @@
+import { env, createExecutionContext, createScheduledController, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import worker from '../src/index';
+import { ConfigError, Env, loadBucketConfigs, parseBucketsConfig } from '../src/core/config';
+import { BUCKET_URL, rootClient, xmlValue } from './helpers';
+
+const s3Bucket = { name: 'b2-main', accessKeyId: 'id', secretAccessKey: 'secret', endpoint: 's3.us-west-004.backblazeb2.com' };
+
+function problemsOf(config: string): string[] {
+	const problems: string[] = [];
+	parseBucketsConfig(config, problems);
+	return problems;
+}
+
+function configError(overrides: Partial<Env>): ConfigError {
+	try {
+		loadBucketConfigs({ ...env, ...overrides });
+	} catch (e: unknown) {
+		if (e instanceof ConfigError) return e;
+		throw e;
+	}
+	throw new Error('expected a ConfigError');
+}
+
+describe('parseBucketsConfig', () => {
+	it('fills in defaults for JSON entries', () => {
+		const [bucket] = parseBucketsConfig(JSON.stringify([s3Bucket]));
+		expect(bucket).toMatchObject({
+			type: 's3',
+			endpoint: 'https://s3.us-west-004.backblazeb2.com',
+			region: 'us-west-004',
+			addressing: 'path',
+			weight: 1,
+			writable: true,
+		});
+	});
+
+	it('parses the legacy format with colons in the secret and a port', () => {
+		const [bucket] = parseBucketsConfig('minio-a:id:sec:ret:http://minio.local:9000 | ');
+		expect(bucket).toMatchObject({ name: 'minio-a', secretAccessKey: 'sec:ret', endpoint: 'http://minio.local:9000' });
+	});
+
+	it('reports malformed input', () => {
+		expect(problemsOf('[{')[0]).toMatch(/^BUCKETS_CONFIG: invalid JSON/);
+		expect(problemsOf('["x"]')).toEqual(['BUCKETS_CONFIG[0]: expected an object']);
+		expect(problemsOf('only:three:parts')).toEqual(['BUCKETS_CONFIG entry 1: expected name:accessKeyId:secretAccessKey:endpoint']);
+	});
+
+	it('reports every problem of an entry', () => {
+		const problems = problemsOf(JSON.stringify([{ ...s3Bucket, secretAccessKey: '', weight: -1, readOnly: 'yes', color: 'red', binding: 'R2' }]));
+		expect(problems).toEqual([
+			'BUCKETS_CONFIG[0] (b2-main): unknown field "color"',
+			'BUCKETS_CONFIG[0] (b2-main): "secretAccessKey" is required',
+			'BUCKETS_CONFIG[0] (b2-main): "binding" is not used by s3 buckets',
+			'BUCKETS_CONFIG[0] (b2-main): "weight" must be a non-negative number',
+			'BUCKETS_CONFIG[0] (b2-main): "readOnly" must be a boolean',
+		]);
+	});
+
+	it('validates r2 entries separately', () => {
+		expect(problemsOf(JSON.stringify([{ name: 'r2-x', type: 'r2', endpoint: 'https://example.com' }]))).toEqual([
+			'BUCKETS_CONFIG[0] (r2-x): "binding" is required',
+			'BUCKETS_CONFIG[0] (r2-x): "endpoint" is not used by r2 buckets',
+		]);
+		expect(problemsOf(JSON.stringify([{ ...s3Bucket, type: 'gcs', name: '-bad-', endpoint: 'ftp://x?y' }]))).toEqual([
+			'BUCKETS_CONFIG[0] (-bad-): "type" must be "s3" or "r2"',
+			'BUCKETS_CONFIG[0] (-bad-): "name" is not a valid bucket name',
+			'BUCKETS_CONFIG[0] (-bad-): "endpoint" is not a valid http(s) URL',
+		]);
+	});
+});
+
+describe('loadBucketConfigs', () => {
+	it('loads the test buckets', () => {
+		expect(loadBucketConfigs(env).map(b => b.name)).toEqual(['r2-a', 'r2-b']);
+	});
+
+	it('collects problems from every segment and missing bindings', () => {
+		const error = configError({
+			BUCKETS_CONFIG: JSON.stringify([{ name: 'r2-c', type: 'r2', binding: 'R2_MISSING' }]),
+			BUCKETS_CONFIG_PART_LIST: 'EXTRA_BUCKETS',
+			EXTRA_BUCKETS: 'broken',
+		});
+		expect(error.problems).toEqual([
+			'EXTRA_BUCKETS entry 1: expected name:accessKeyId:secretAccessKey:endpoint',
+			'r2-c: R2 binding "R2_MISSING" not found',
+		]);
+		expect(error.message).toContain('  - r2-c: R2 binding "R2_MISSING" not found');
+	});
+
+	it('rejects duplicate bucket names across segments', () => {
+		const error = configError({
+			BUCKETS_CONFIG: JSON.stringify([s3Bucket]),
+			BUCKETS_CONFIG_PART_LIST: 'EXTRA_BUCKETS',
+			EXTRA_BUCKETS: 'b2-main:id2:secret2:s3.eu-central-003.backblazeb2.com',
+		});
+		expect(error.problems).toEqual(['b2-main: duplicate bucket name']);
+	});
+
+	it('requires at least one bucket', () => {
+		expect(configError({ BUCKETS_CONFIG: '' }).problems).toEqual(['no buckets configured (set BUCKETS_CONFIG)']);
+	});
+});
+
+describe('invalid configuration at runtime', () => {
+	const broken = { ...env, BUCKETS_CONFIG: '[{"name":"broken"}]' } as Env;
+
+	it('answers requests with InternalError', async () => {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(await rootClient.sign(`${BUCKET_URL}/a.txt`), broken, ctx);
+		await waitOnExecutionContext(ctx);
+		expect(response.status).toBe(500);
+		const body = await response.text();
+		expect(xmlValue(body, 'Code')).toBe('InternalError');
+		expect(xmlValue(body, 'Message')).toBe('The gateway bucket configuration is invalid.');
+	});
+
+	it('skips scheduled runs', async () => {
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const ctx = createExecutionContext();
+		await worker.scheduled(createScheduledController(), broken, ctx);
+		await waitOnExecutionContext(ctx);
+		expect(error).toHaveBeenCalledWith('Scheduled tasks skipped:', expect.any(ConfigError));
+		error.mockRestore();
+	});
+});
@@ -0,0 +1,46 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { IndexStore } from '../src/core/index-store';
+import { s3With } from './helpers';
+
+const GB = 1024 * 1024 * 1024;
+
+function coordinator() {
+	return env.TEST_INDEX_COORDINATOR.get(env.TEST_INDEX_COORDINATOR.idFromName('global'));
+}
+
+describe('IndexCoordinator', () => {
+	it('counts reserved space until the reservation is released', async () => {
+		const stub = coordinator();
+		const first = await stub.reserve(6 * GB);
+		expect(first?.buckets).toEqual(['r2-a']);
+		expect((await stub.reserve(6 * GB))?.buckets).toEqual(['r2-b']);
+		expect(await stub.reserve(6 * GB)).toBeNull();
+
+		await stub.release(first!.reservationId);
+		expect((await stub.reserve(6 * GB))?.buckets).toEqual(['r2-a']);
+	});
+
+	it('applies index changes with usage counting and conflict detection', async () => {
+		const stub = coordinator();
+		const meta = { bucket: 'r2-a', size: 4, lastModified: Date.UTC(2025, 0, 1), etag: 'v1' };
+		expect(await stub.applyChanges([{ key: 'doc.txt', meta }])).toEqual([]);
+		expect(await new IndexStore(env).get('doc.txt')).toMatchObject({ etag: 'v1' });
+
+		const stale = { key: 'doc.txt', meta: { ...meta, etag: 'v3' }, expected: { etag: 'v0', lastModified: meta.lastModified } };
+		expect((await stub.applyChanges([stale])).map(c => c.key)).toEqual(['doc.txt']);
+		expect(await stub.applyChanges([{ key: 'doc.txt', meta: null, expected: { etag: 'v1', lastModified: meta.lastModified } }])).toEqual([]);
+		expect(await new IndexStore(env).get('doc.txt')).toBeNull();
+		expect((await stub.getUsage())['r2-a']).toEqual({ bytes: 0, objects: 0 });
+	});
+
+	it('serialises index writes of uploads when bound', async () => {
+		const testEnv = { ...env, INDEX_COORDINATOR: env.TEST_INDEX_COORDINATOR };
+		const response = await s3With(testEnv, 'coordinated.txt', { method: 'PUT', body: 'hello' });
+		expect(response.status).toBe(200);
+
+		const stored = await new IndexStore(env).get('coordinated.txt');
+		expect(stored).toMatchObject({ size: 5 });
+		expect((await coordinator().getUsage())[stored!.bucket]).toEqual({ bytes: 5, objects: 1 });
+	});
+});
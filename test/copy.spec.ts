@@ -0,0 +1,79 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { IndexStore } from '../src/core/index-store';
+import { envWith, s3, s3With, xmlValue } from './helpers';
+
+function copy(source: string, headers: Record<string, string> = {}): RequestInit {
+	return { method: 'PUT', headers: { 'x-amz-copy-source': `/virtualbucket/${source}`, ...headers } };
+}
+
+describe('CopyObject', () => {
+	it('copies the content and metadata and answers with CopyObjectResult', async () => {
+		const put = await s3('copy/source.txt', { method: 'PUT', body: 'hello', headers: { 'Content-Type': 'text/plain', 'x-amz-meta-owner': 'alice' } });
+		expect(put.status).toBe(200);
+
+		const response = await s3('copy/dest.txt', copy('copy/source.txt'));
+		expect(response.status).toBe(200);
+		const xml = await response.text();
+		expect(xml).toContain('<CopyObjectResult');
+		expect(xmlValue(xml, 'ETag')).toBe(put.headers.get('ETag'));
+
+		const copied = await s3('copy/dest.txt');
+		expect(await copied.text()).toBe('hello');
+		expect(copied.headers.get('Content-Type')).toBe('text/plain');
+		expect(copied.headers.get('x-amz-meta-owner')).toBe('alice');
+		expect(await new IndexStore(env).get('copy/dest.txt')).toMatchObject({ size: 5 });
+	});
+
+	it('replaces the metadata with x-amz-metadata-directive: REPLACE', async () => {
+		await (await s3('copy/meta.txt', { method: 'PUT', body: 'data', headers: { 'x-amz-meta-owner': 'alice' } })).text();
+
+		const response = await s3('copy/meta.txt', copy('copy/meta.txt', { 'x-amz-metadata-directive': 'REPLACE', 'x-amz-meta-owner': 'bob' }));
+		expect(response.status).toBe(200);
+		await response.text();
+
+		const head = await s3('copy/meta.txt', { method: 'HEAD' });
+		expect(head.headers.get('x-amz-meta-owner')).toBe('bob');
+		expect(await (await s3('copy/meta.txt')).text()).toBe('data');
+	});
+
+	it('refuses to copy an object onto itself without replacing the metadata', async () => {
+		await (await s3('copy/self.txt', { method: 'PUT', body: 'x' })).text();
+		const response = await s3('copy/self.txt', copy('copy/self.txt'));
+		expect(response.status).toBe(400);
+		expect(xmlValue(await response.text(), 'Code')).toBe('InvalidRequest');
+	});
+
+	it('checks the copy-source conditions', async () => {
+		await (await s3('copy/cond.txt', { method: 'PUT', body: 'x' })).text();
+		const response = await s3('copy/cond-dest.txt', copy('copy/cond.txt', { 'x-amz-copy-source-if-match': '"other"' }));
+		expect(response.status).toBe(412);
+		expect(xmlValue(await response.text(), 'Code')).toBe('PreconditionFailed');
+		expect(await new IndexStore(env).get('copy/cond-dest.txt')).toBeNull();
+	});
+
+	it('answers NoSuchKey for a missing source', async () => {
+		const response = await s3('copy/nothing-dest.txt', copy('copy/nothing.txt'));
+		expect(response.status).toBe(404);
+		expect(xmlValue(await response.text(), 'Code')).toBe('NoSuchKey');
+	});
+
+	it('streams the object through the worker when the source bucket takes no writes', async () => {
+		const stored = await env.R2_A.put('copy/cross.txt', 'across buckets', { httpMetadata: { contentType: 'text/plain' } });
+		await new IndexStore(env).put('copy/cross.txt', {
+			bucket: 'r2-a', size: 14, lastModified: Date.UTC(2025, 0, 1), etag: stored!.etag, versionId: stored!.version, contentType: 'text/plain',
+		});
+		const testEnv = envWith([
+			{ name: 'r2-a', type: 'r2', binding: 'R2_A', readOnly: true },
+			{ name: 'r2-b', type: 'r2', binding: 'R2_B' },
+		]);
+
+		const response = await s3With(testEnv, 'copy/cross-dest.txt', copy('copy/cross.txt'));
+		expect(response.status).toBe(200);
+		await response.text();
+
+		expect(await new IndexStore(env).get('copy/cross-dest.txt')).toMatchObject({ bucket: 'r2-b', size: 14, contentType: 'text/plain' });
+		expect(await (await env.R2_B.get('copy/cross-dest.txt'))!.text()).toBe('across buckets');
+		expect(await env.R2_A.head('copy/cross.txt')).not.toBeNull();
+	});
+});
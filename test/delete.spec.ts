@@ -0,0 +1,89 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { AwsClient } from 'aws4fetch';
+import { IndexStore } from '../src/core/index-store';
+import { KeyStore } from '../src/core/keys';
+import { S3_ORIGIN, envWith, s3, s3Bucket, s3With, xmlValue, xmlValues } from './helpers';
+
+const testEnv = envWith([s3Bucket('s3-delete')]);
+const entry = { bucket: 's3-delete', size: 3, lastModified: Date.UTC(2025, 0, 1), etag: 'abc', versionId: 'v1', contentType: 'text/plain' };
+
+function backendDelete(key: string) {
+	return fetchMock.get(S3_ORIGIN).intercept({ method: 'DELETE', path: `/s3-delete/${key}?versionId=v1` });
+}
+
+describe('DeleteObject backend errors', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+	it('keeps the index entry when the backend refuses the delete', async () => {
+		await new IndexStore(env).put('denied.txt', entry);
+		backendDelete('denied.txt').reply(403, '<Error><Code>AccessDenied</Code><Message>Access Denied</Message></Error>');
+
+		const response = await s3With(testEnv, 'denied.txt', { method: 'DELETE' });
+		expect(response.status).toBe(500);
+		expect(xmlValue(await response.text(), 'Code')).toBe('InternalError');
+		expect(await new IndexStore(env).get('denied.txt')).toMatchObject({ etag: 'abc' });
+	});
+
+	it('treats an object already missing from the backend as deleted', async () => {
+		await new IndexStore(env).put('missing.txt', entry);
+		backendDelete('missing.txt').reply(404, '<Error><Code>NoSuchKey</Code></Error>');
+
+		const response = await s3With(testEnv, 'missing.txt', { method: 'DELETE' });
+		expect(response.status).toBe(204);
+		expect(await new IndexStore(env).get('missing.txt')).toBeNull();
+	});
+});
+
+describe('DeleteObjects', () => {
+	const client = new AwsClient({ accessKeyId: 'deleter', secretAccessKey: 'deleter-secret', service: 's3', region: 'us-east-1' });
+
+	function deleteRequest(keys: string[], quiet = false): RequestInit {
+		const objects = keys.map(k => `<Object><Key>${k}</Key></Object>`).join('');
+		return { method: 'POST', body: `<Delete>${quiet ? '<Quiet>true</Quiet>' : ''}${objects}</Delete>` };
+	}
+
+	async function putAll(keys: string[]): Promise<void> {
+		for (const k of keys) expect((await s3(k, { method: 'PUT', body: k })).status).toBe(200);
+	}
+
+	it('reports deleted keys, or only failures in Quiet mode', async () => {
+		await putAll(['batch/a.txt', 'batch/b.txt']);
+		const verbose = await s3('?delete', deleteRequest(['batch/a.txt', 'batch/missing.txt']));
+		expect(verbose.status).toBe(200);
+		expect(xmlValues(await verbose.text(), 'Key')).toEqual(['batch/a.txt', 'batch/missing.txt']);
+
+		const quiet = await s3('?delete', deleteRequest(['batch/b.txt'], true));
+		expect(quiet.status).toBe(200);
+		expect(await quiet.text()).not.toContain('<Deleted>');
+		expect(await new IndexStore(env).get('batch/a.txt')).toBeNull();
+		expect(await new IndexStore(env).get('batch/b.txt')).toBeNull();
+	});
+
+	it('reports AccessDenied for keys outside the policy and deletes the rest', async () => {
+		await new KeyStore(env).put({ accessKeyId: 'deleter', secretAccessKey: 'deleter-secret', operations: ['delete'], prefixes: ['team'] });
+		await putAll(['team/a.txt', 'teammate/b.txt']);
+
+		const response = await s3('?delete', deleteRequest(['team/a.txt', 'teammate/b.txt'], true), client);
+		expect(response.status).toBe(200);
+		const xml = await response.text();
+		expect(xmlValues(xml, 'Key')).toEqual(['teammate/b.txt']);
+		expect(xmlValue(xml, 'Code')).toBe('AccessDenied');
+		expect(await new IndexStore(env).get('team/a.txt')).toBeNull();
+		expect(await new IndexStore(env).get('teammate/b.txt')).not.toBeNull();
+	});
+
+	it('denies every key to access keys without the delete operation', async () => {
+		await new KeyStore(env).put({ accessKeyId: 'deleter', secretAccessKey: 'deleter-secret', operations: ['read'] });
+		await putAll(['kept.txt']);
+
+		const response = await s3('?delete', deleteRequest(['kept.txt']), client);
+		expect(response.status).toBe(200);
+		expect(xmlValues(await response.text(), 'Code')).toEqual(['AccessDenied']);
+		expect(await new IndexStore(env).get('kept.txt')).not.toBeNull();
+	});
+});
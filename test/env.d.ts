@@ -1,3 +1,9 @@
+import type { Env as GatewayEnv } from '../src/core/config';
+
 declare module 'cloudflare:test' {
-	interface ProvidedEnv extends Env {}
+	interface ProvidedEnv extends GatewayEnv {
+		R2_A: R2Bucket;
+		R2_B: R2Bucket;
+		TEST_INDEX_COORDINATOR: GatewayEnv['INDEX_COORDINATOR'] & {};
+	}
 }
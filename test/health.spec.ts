@@ -0,0 +1,65 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, vi } from 'vitest';
+import { BucketHealth, HealthTracker } from '../src/core/health';
+
+// 熔断状态按桶名保存在模块内，每个用例使用不同的桶名
+async function openCircuit(bucket: string, openedAgoMs: number): Promise<void> {
+	const now = Date.now();
+	const health: BucketHealth = {
+		bucket, state: 'open', windowStart: now, requests: 5, errors: 5, latencyMs: 10, consecutiveFailures: 5,
+		openedAt: now - openedAgoMs, updatedAt: now,
+	};
+	await env.BUCKET_STATE_KV.put(`HEALTH:${bucket}`, JSON.stringify(health));
+}
+
+describe('HealthTracker', () => {
+	it('opens the circuit after consecutive failures and reads from healthy buckets first', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const tracker = new HealthTracker(env);
+		for (let i = 0; i < 5; i++) tracker.recordFailure('failing', 5, 'HTTP 500');
+		await tracker.flush();
+
+		expect((await tracker.get('failing')).state).toBe('open');
+		expect(await tracker.orderForRead(['failing', 'steady'])).toEqual(['steady', 'failing']);
+		expect(await tracker.filterAvailable(['failing', 'steady'], async () => true)).toEqual(['steady']);
+		warn.mockRestore();
+	});
+
+	it('stays closed while errors remain below the threshold', async () => {
+		const tracker = new HealthTracker(env);
+		for (let i = 0; i < 4; i++) tracker.recordFailure('flaky', 5, 'timeout');
+		for (let i = 0; i < 6; i++) tracker.recordSuccess('flaky', 5);
+		await tracker.flush(true);
+		expect((await tracker.get('flaky')).state).toBe('closed');
+	});
+
+	it('closes the circuit when the half-open probe succeeds', async () => {
+		await openCircuit('recovering', 60_000);
+		const tracker = new HealthTracker(env);
+		const probe = vi.fn(async () => true);
+
+		expect(await tracker.filterAvailable(['recovering', 'other'], probe)).toEqual(['recovering', 'other']);
+		expect(probe).toHaveBeenCalledWith('recovering');
+		expect((await tracker.get('recovering')).state).toBe('closed');
+	});
+
+	it('keeps the circuit open when the probe fails or the cooldown has not passed', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		await openCircuit('still-down', 60_000);
+		await openCircuit('cooling', 1_000);
+		const tracker = new HealthTracker(env);
+		const probe = vi.fn(async () => false);
+
+		expect(await tracker.filterAvailable(['still-down', 'cooling', 'spare'], probe)).toEqual(['spare']);
+		expect(probe).toHaveBeenCalledTimes(1);
+		expect((await tracker.get('still-down')).state).toBe('open');
+		warn.mockRestore();
+	});
+
+	it('ignores the circuit breaker when no bucket is available', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		await openCircuit('only', 1_000);
+		expect(await new HealthTracker(env).filterAvailable(['only'], async () => true)).toEqual(['only']);
+		warn.mockRestore();
+	});
+});
@@ -0,0 +1,51 @@
+import { SELF, env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { AwsClient } from 'aws4fetch';
+import worker from '../src/index';
+import { Env } from '../src/core/config';
+
+// 与 vitest.config.mts 中的根密钥及 wrangler.toml 中的 S3_VIRTUAL_BUCKET 一致
+export const BUCKET_URL = 'https://gateway.test/virtualbucket';
+
+export const rootClient = new AwsClient({
+	accessKeyId: 'test-root',
+	secretAccessKey: 'test-root-secret',
+	service: 's3',
+	region: 'us-east-1',
+});
+
+// 以根密钥签名后发往 Worker；path 为虚拟桶内的 Key (可带查询参数)
+export async function s3(path: string, init: RequestInit = {}, client = rootClient): Promise<Response> {
+	return await SELF.fetch(await client.sign(`${BUCKET_URL}/${path}`, init));
+}
+
+// 取出 XML 中第一个 <tag> 的文本
+export function xmlValue(xml: string, tag: string): string | undefined {
+	return xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1];
+}
+
+export function xmlValues(xml: string, tag: string): string[] {
+	return [...xml.matchAll(new RegExp(`<${tag}>([^<]*)</${tag}>`, 'g'))].map(m => m[1]);
+}
+
+// fetchMock 拦截的 S3 后端 (path 风格：S3_ORIGIN/<桶名>/<Key>)
+export const S3_ORIGIN = 'https://s3.mock.test';
+
+export function s3Bucket(name: string, extra: Record<string, unknown> = {}) {
+	return { name, type: 's3', accessKeyId: 'mock-id', secretAccessKey: 'mock-secret', endpoint: S3_ORIGIN, region: 'us-east-1', ...extra };
+}
+
+// 以给定的桶配置 (及其他变量) 构造测试环境
+export function envWith(buckets: object[], overrides: Partial<Env> = {}): Env {
+	return { ...env, BUCKETS_CONFIG: JSON.stringify(buckets), ...overrides } as Env;
+}
+
+// 以根密钥签名后直接调用 Worker (使用自定义环境，等待 waitUntil 中的任务完成)
+// 不经过 SELF 时请求不会自动带上 Content-Length，字符串请求体在此补上
+export async function s3With(testEnv: Env, path: string, init: RequestInit = {}, client = rootClient): Promise<Response> {
+	const ctx = createExecutionContext();
+	const headers = new Headers(init.headers);
+	if (typeof init.body === 'string' && !headers.has('Content-Length')) headers.set('Content-Length', String(new TextEncoder().encode(init.body).length));
+	const response = await worker.fetch(await client.sign(`${BUCKET_URL}/${path}`, { ...init, headers }), testEnv, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
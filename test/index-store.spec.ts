@@ -0,0 +1,61 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { FileMetadata, IndexStore } from '../src/core/index-store';
+
+function meta(size: number, etag = 'e', extra: Partial<FileMetadata> = {}): FileMetadata {
+	return { bucket: 'r2-a', size, lastModified: Date.UTC(2025, 0, 1), etag, ...extra };
+}
+
+describe('IndexStore', () => {
+	// 需先于其他用例执行：确认旧版索引不存在后同一 isolate 内不再读取
+	it('falls back to the legacy index until a key is forgotten', async () => {
+		await env.BUCKET_STATE_KV.put('CLUSTER_INDEX', JSON.stringify({ 'old.txt': meta(3), 'gone.txt': meta(4) }));
+		const index = new IndexStore(env);
+		expect(await index.get('old.txt')).toBeNull();
+		expect(await index.lookup('old.txt')).toMatchObject({ size: 3 });
+
+		await index.forgetLegacy(['gone.txt']);
+		expect(await new IndexStore(env).lookup('gone.txt')).toBeNull();
+		expect((await index.legacyEntries())!.map(e => e.key)).toEqual(['old.txt']);
+	});
+
+	it('keeps overlong keys that share a truncated prefix apart', async () => {
+		const index = new IndexStore(env);
+		const base = 'deep/' + 'x'.repeat(500);
+		await index.put(`${base}1`, meta(1));
+		await index.put(`${base}2`, meta(2));
+
+		expect(await index.get(`${base}1`)).toMatchObject({ size: 1 });
+		expect(await index.get(`${base}2`)).toMatchObject({ size: 2 });
+		expect(await index.get(`${base}3`)).toBeNull();
+		const many = await index.getMany([`${base}2`, `${base}3`]);
+		expect(many.get(`${base}2`)).toMatchObject({ size: 2 });
+		expect(many.get(`${base}3`)).toBeNull();
+	});
+
+	it('counts usage per replica across writes and deletes', async () => {
+		const index = new IndexStore(env);
+		await index.put('usage/a', meta(10, 'a', { replicas: [{ bucket: 'r2-a', etag: 'a' }, { bucket: 'r2-b', etag: 'a' }] }));
+		await index.put('usage/b', meta(5));
+		await index.put('usage/b', meta(7));
+		await index.delete('usage/missing');
+
+		expect(await index.getUsage()).toEqual({ 'r2-a': { bytes: 17, objects: 2 }, 'r2-b': { bytes: 10, objects: 1 } });
+		await index.delete('usage/a');
+		expect(await new IndexStore(env).getUsage()).toEqual({ 'r2-a': { bytes: 7, objects: 1 }, 'r2-b': { bytes: 0, objects: 0 } });
+	});
+
+	it('skips changes whose expected version does not match', async () => {
+		const index = new IndexStore(env);
+		await index.put('cas.txt', meta(1, 'v1'));
+
+		const conflicts = await index.apply([
+			{ key: 'cas.txt', meta: meta(2, 'v2'), expected: null },
+			{ key: 'new.txt', meta: meta(3), expected: { etag: 'v1', lastModified: Date.UTC(2025, 0, 1) } },
+		]);
+		expect(conflicts.map(c => c.key)).toEqual(['cas.txt', 'new.txt']);
+
+		expect(await index.apply([{ key: 'cas.txt', meta: meta(2, 'v2'), expected: { etag: 'v1', lastModified: Date.UTC(2025, 0, 1) } }])).toEqual([]);
+		expect(await index.get('cas.txt')).toMatchObject({ etag: 'v2' });
+	});
+});
@@ -1,24 +1,81 @@
-import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
+import { env, SELF } from 'cloudflare:test';
 import { describe, it, expect } from 'vitest';
-import worker from '../src/index';
-
-// For now, you'll need to do something like this to get a correctly-typed
-// `Request` to pass to `worker.fetch()`.
-const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
-
-describe('Hello World worker', () => {
-	it('responds with Hello World! (unit style)', async () => {
-		const request = new IncomingRequest('http://example.com');
-		// Create an empty context to pass to `worker.fetch()`.
-		const ctx = createExecutionContext();
-		const response = await worker.fetch(request, env, ctx);
-		// Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
-		await waitOnExecutionContext(ctx);
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+import { BUCKET_URL, s3, xmlValue } from './helpers';
+
+describe('gateway', () => {
+	it('rejects unsigned requests with an S3 XML error', async () => {
+		const response = await SELF.fetch(`${BUCKET_URL}/a.txt`);
+		expect(response.status).toBe(403);
+		expect(response.headers.get('Content-Type')).toBe('application/xml');
+		expect(xmlValue(await response.text(), 'Code')).toBe('AccessDenied');
+	});
+
+	it('stores and serves a single-part upload', async () => {
+		expect((await s3('hello.txt', { method: 'PUT', body: 'Hello World!' })).status).toBe(200);
+
+		const response = await s3('hello.txt');
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe('Hello World!');
+	});
+});
+
+describe('multipart upload', () => {
+	it('assembles parts into one object in a single bucket', async () => {
+		const created = await s3('big.bin?uploads', { method: 'POST' });
+		expect(created.status).toBe(200);
+		const uploadId = xmlValue(await created.text(), 'UploadId')!;
+		expect(uploadId).toBeTruthy();
+
+		// 除最后一个分片外每片至少 5 MiB
+		const first = 'a'.repeat(5 * 1024 * 1024);
+		const etags: string[] = [];
+		for (const [partNumber, body] of [[1, first], [2, 'tail']] as const) {
+			const part = await s3(`big.bin?partNumber=${partNumber}&uploadId=${encodeURIComponent(uploadId)}`, { method: 'PUT', body });
+			expect(part.status).toBe(200);
+			etags.push(part.headers.get('ETag')!);
+		}
+
+		const completeBody = `<CompleteMultipartUpload>${etags
+			.map((etag, i) => `<Part><PartNumber>${i + 1}</PartNumber><ETag>${etag}</ETag></Part>`)
+			.join('')}</CompleteMultipartUpload>`;
+		const completed = await s3(`big.bin?uploadId=${encodeURIComponent(uploadId)}`, { method: 'POST', body: completeBody });
+		expect(completed.status).toBe(200);
+		expect(xmlValue(await completed.text(), 'Key')).toBe('big.bin');
+
+		const head = await s3('big.bin', { method: 'HEAD' });
+		expect(head.status).toBe(200);
+		expect(head.headers.get('Content-Length')).toBe(String(first.length + 4));
+
+		const tail = await s3('big.bin', { headers: { Range: 'bytes=-4' } });
+		expect(tail.status).toBe(206);
+		expect(await tail.text()).toBe('tail');
+
+		const stored = await Promise.all([env.R2_A.head('big.bin'), env.R2_B.head('big.bin')]);
+		expect(stored.filter(obj => obj !== null)).toHaveLength(1);
+	});
+
+	it('percent-encodes the key in the Location of the completed upload', async () => {
+		const path = 'docs/a%20b%26c.txt';
+		const created = await s3(`${path}?uploads`, { method: 'POST' });
+		const uploadId = encodeURIComponent(xmlValue(await created.text(), 'UploadId')!);
+		const part = await s3(`${path}?partNumber=1&uploadId=${uploadId}`, { method: 'PUT', body: 'only part' });
+
+		const completed = await s3(`${path}?uploadId=${uploadId}`, {
+			method: 'POST',
+			body: `<CompleteMultipartUpload><Part><PartNumber>1</PartNumber><ETag>${part.headers.get('ETag')}</ETag></Part></CompleteMultipartUpload>`,
+		});
+		expect(completed.status).toBe(200);
+		const xml = await completed.text();
+		expect(xmlValue(xml, 'Location')).toBe(`${BUCKET_URL}/${path}`);
+		expect(xmlValue(xml, 'Key')).toBe('docs/a b&amp;c.txt');
 	});
 
-	it('responds with Hello World! (integration style)', async () => {
-		const response = await SELF.fetch('https://example.com');
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+	it('rejects completing an unknown upload', async () => {
+		const response = await s3('missing.bin?uploadId=nope', {
+			method: 'POST',
+			body: '<CompleteMultipartUpload><Part><PartNumber>1</PartNumber><ETag>"x"</ETag></Part></CompleteMultipartUpload>',
+		});
+		expect(response.status).toBe(404);
+		expect(xmlValue(await response.text(), 'Code')).toBe('NoSuchUpload');
 	});
 });
@@ -0,0 +1,116 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { AwsClient } from 'aws4fetch';
+import { AccessKey, KeyStore, isAllowed, isExpired, normalizeAccessKey } from '../src/core/keys';
+import { s3, xmlValue } from './helpers';
+
+const base = { accessKeyId: 'reader', secretAccessKey: 'reader-secret', operations: ['read', 'list'] };
+
+function key(overrides: Partial<AccessKey> = {}): AccessKey {
+	return { ...normalizeAccessKey(base), ...overrides };
+}
+
+describe('isAllowed', () => {
+	it('requires the operation to be granted', () => {
+		expect(isAllowed(key(), 'read', 'any/key')).toBe(true);
+		expect(isAllowed(key(), 'write', 'any/key')).toBe(false);
+		expect(isAllowed(key(), 'admin')).toBe(false);
+	});
+
+	it('restricts object keys to the configured prefixes', () => {
+		const scoped = key({ prefixes: ['public/', 'shared/docs/'] });
+		expect(isAllowed(scoped, 'read', 'public/a.txt')).toBe(true);
+		expect(isAllowed(scoped, 'read', 'shared/docs/b.txt')).toBe(true);
+		expect(isAllowed(scoped, 'read', 'shared/other.txt')).toBe(false);
+		expect(isAllowed(scoped, 'read', 'publicity.txt')).toBe(false);
+	});
+
+	it('checks list prefixes against the policy', () => {
+		const scoped = key({ prefixes: ['public/'] });
+		expect(isAllowed(scoped, 'list', 'public/')).toBe(true);
+		expect(isAllowed(scoped, 'list', 'public/sub/')).toBe(true);
+		expect(isAllowed(scoped, 'list', '')).toBe(false);
+		expect(isAllowed(scoped, 'list', 'pub')).toBe(false);
+	});
+
+	it('matches prefixes by path segment', () => {
+		const scoped = key({ operations: ['read', 'list'], prefixes: ['a/b'] });
+		expect(isAllowed(scoped, 'read', 'a/b')).toBe(true);
+		expect(isAllowed(scoped, 'read', 'a/b/c.txt')).toBe(true);
+		expect(isAllowed(scoped, 'read', 'a/bc')).toBe(false);
+		expect(isAllowed(scoped, 'list', 'a/b/')).toBe(true);
+		expect(isAllowed(scoped, 'list', 'a/b')).toBe(false);
+	});
+
+	it('ignores prefixes for admin operations', () => {
+		expect(isAllowed(key({ operations: ['admin'], prefixes: ['public/'] }), 'admin')).toBe(true);
+	});
+});
+
+describe('isExpired', () => {
+	it('compares expiresAt with the given time', () => {
+		expect(isExpired(key(), 0)).toBe(false);
+		expect(isExpired(key({ expiresAt: 1000 }), 1000)).toBe(false);
+		expect(isExpired(key({ expiresAt: 1000 }), 1001)).toBe(true);
+	});
+});
+
+describe('normalizeAccessKey', () => {
+	it('deduplicates operations and parses date strings', () => {
+		const normalized = normalizeAccessKey({ ...base, operations: ['read', 'read'], prefixes: [], expiresAt: '2030-01-01T00:00:00Z' });
+		expect(normalized.operations).toEqual(['read']);
+		expect(normalized.prefixes).toBeUndefined();
+		expect(normalized.expiresAt).toBe(Date.UTC(2030, 0, 1));
+	});
+
+	it.each([
+		['a non-object', 'reader', /must be an object/],
+		['a short id', { ...base, accessKeyId: 'ab' }, /accessKeyId/],
+		['a short secret', { ...base, secretAccessKey: 'short' }, /secretAccessKey/],
+		['no operations', { ...base, operations: [] }, /operations/],
+		['an unknown operation', { ...base, operations: ['read', 'sudo'] }, /operations/],
+		['non-string prefixes', { ...base, prefixes: ['a/', 1] }, /prefixes/],
+		['a non-string description', { ...base, description: 42 }, /description/],
+		['an invalid date', { ...base, expiresAt: 'soon' }, /expiresAt/],
+	])('rejects %s', (_, input, message) => {
+		expect(() => normalizeAccessKey(input)).toThrow(message);
+	});
+});
+
+describe('key policy on requests', () => {
+	const client = new AwsClient({ accessKeyId: 'scoped', secretAccessKey: 'scoped-secret', service: 's3', region: 'us-east-1' });
+
+	async function createScopedKey(overrides: Record<string, unknown> = {}): Promise<void> {
+		await new KeyStore(env).put({ accessKeyId: 'scoped', secretAccessKey: 'scoped-secret', operations: ['read', 'list'], prefixes: ['public/'], ...overrides });
+	}
+
+	it('allows reads inside the prefix and denies everything else', async () => {
+		await createScopedKey();
+		await s3('public/a.txt', { method: 'PUT', body: 'a' });
+		await s3('private/b.txt', { method: 'PUT', body: 'b' });
+
+		const allowed = await s3('public/a.txt', {}, client);
+		expect(allowed.status).toBe(200);
+		expect(await allowed.text()).toBe('a');
+
+		for (const [path, init] of [
+			['private/b.txt', {}],
+			['public/c.txt', { method: 'PUT', body: 'c' }],
+			['?list-type=2', {}],
+		] as const) {
+			const denied = await s3(path, init, client);
+			expect(denied.status).toBe(403);
+			expect(xmlValue(await denied.text(), 'Code')).toBe('AccessDenied');
+		}
+
+		const listed = await s3('?list-type=2&prefix=public/', {}, client);
+		expect(listed.status).toBe(200);
+	});
+
+	it('rejects expired keys', async () => {
+		await createScopedKey({ expiresAt: Date.now() - 1000 });
+		const response = await s3('public/a.txt', {}, client);
+		expect(response.status).toBe(403);
+		expect(xmlValue(await response.text(), 'Message')).toBe('The access key has expired');
+	});
+});
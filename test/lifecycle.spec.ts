@@ -0,0 +1,109 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LifecycleManager, LifecycleRule } from '../src/core/lifecycle';
+import { IndexStore } from '../src/core/index-store';
+import { Env } from '../src/core/config';
+import { s3, xmlValue, xmlValues } from './helpers';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function lifecycleXml(rules: string): RequestInit {
+	return { method: 'PUT', body: `<LifecycleConfiguration>${rules}</LifecycleConfiguration>` };
+}
+
+describe('lifecycle configuration', () => {
+	it('stores rules and returns them', async () => {
+		const put = await s3('?lifecycle', lifecycleXml(`
+			<Rule><ID>logs</ID><Status>Enabled</Status>
+				<Filter><And><Prefix>logs/</Prefix><ObjectSizeGreaterThan>1024</ObjectSizeGreaterThan></And></Filter>
+				<Expiration><Days>30</Days></Expiration>
+			</Rule>
+			<Rule><ID>uploads</ID><Status>Disabled</Status><Filter></Filter>
+				<AbortIncompleteMultipartUpload><DaysAfterInitiation>7</DaysAfterInitiation></AbortIncompleteMultipartUpload>
+			</Rule>`));
+		expect(put.status).toBe(200);
+
+		expect(await new LifecycleManager(env).getRules()).toEqual([
+			{ id: 'logs', enabled: true, prefix: 'logs/', minSize: 1024, expirationDays: 30 },
+			{ id: 'uploads', enabled: false, prefix: '', abortIncompleteDays: 7 },
+		]);
+
+		const xml = await (await s3('?lifecycle')).text();
+		expect(xmlValues(xml, 'ID')).toEqual(['logs', 'uploads']);
+		expect(xmlValue(xml, 'Days')).toBe('30');
+	});
+
+	it.each([
+		['a missing status', '<Rule><ID>a</ID><Expiration><Days>1</Days></Expiration></Rule>', 'MalformedXML'],
+		['no rules', '', 'MalformedXML'],
+		['a tag filter', '<Rule><ID>a</ID><Status>Enabled</Status><Filter><Tag><Key>k</Key><Value>v</Value></Tag></Filter><Expiration><Days>1</Days></Expiration></Rule>', 'NotImplemented'],
+		['zero days', '<Rule><ID>a</ID><Status>Enabled</Status><Expiration><Days>0</Days></Expiration></Rule>', 'InvalidArgument'],
+		['no action', '<Rule><ID>a</ID><Status>Enabled</Status><Filter><Prefix>x/</Prefix></Filter></Rule>', 'InvalidArgument'],
+	])('rejects %s', async (_, rules, code) => {
+		const response = await s3('?lifecycle', lifecycleXml(rules));
+		expect(xmlValue(await response.text(), 'Code')).toBe(code);
+		expect(await new LifecycleManager(env).getRules()).toBeNull();
+	});
+
+	it('reports every invalid rule', async () => {
+		const rules: LifecycleRule[] = [
+			{ id: 'a', enabled: true, prefix: '', expirationDays: 1.5 },
+			{ id: 'a', enabled: true, prefix: '', expirationDays: 1, expiredDeleteMarker: true },
+			{ id: 'b', enabled: true, prefix: '', minSize: 10, maxSize: 10, abortIncompleteDays: 1 },
+		];
+		await expect(new LifecycleManager(env).putRules(rules)).rejects.toThrow([
+			'rule "a": expirationDays must be a positive integer',
+			'rule "a": duplicate ID',
+			'rule "a": Days and ExpiredObjectDeleteMarker cannot be specified together',
+			'rule "b": ObjectSizeGreaterThan must be less than ObjectSizeLessThan',
+			'rule "b": AbortIncompleteMultipartUpload cannot be combined with an object size filter',
+		].join('; '));
+	});
+});
+
+describe('lifecycle expiration', () => {
+	// 经网关写入后把索引中的创建时间改早
+	// 到期时间从创建时间取整到下一个 UTC 零点后再加上天数
+	beforeEach(async () => {
+		const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+		const objects: Record<string, { body: string; lastModified: number }> = {
+			'logs/due.log': { body: 'expired', lastModified: today - DAY_MS },
+			'logs/not-yet.log': { body: 'rounded up', lastModified: today - 1 },
+			'logs/tiny.log': { body: 'a', lastModified: today - 10 * DAY_MS },
+			'data/old.bin': { body: 'disabled rule', lastModified: today - 10 * DAY_MS },
+		};
+		const index = new IndexStore(env);
+		for (const [key, { body, lastModified }] of Object.entries(objects)) {
+			expect((await s3(key, { method: 'PUT', body })).status).toBe(200);
+			await index.put(key, { ...(await index.get(key))!, lastModified });
+		}
+		await new LifecycleManager(env).putRules([
+			{ id: 'logs', enabled: true, prefix: 'logs/', minSize: 3, expirationDays: 1 },
+			{ id: 'data', enabled: false, prefix: 'data/', expirationDays: 1 },
+		]);
+	});
+
+	it('deletes only objects matched by a due rule', async () => {
+		const report = await new LifecycleManager(env).run();
+
+		expect(report).not.toBeNull();
+		expect(report!.dryRun).toBe(false);
+		expect(report!.scanned).toBe(4);
+		expect(report!.counts).toEqual({ expired: 1, noncurrentExpired: 0, deleteMarkerRemoved: 0, uploadAborted: 0 });
+		expect(report!.samples.expired).toEqual([{ key: 'logs/due.log', rule: 'logs', size: 7 }]);
+		expect(report!.bytes).toBe(7);
+
+		expect((await s3('logs/due.log', { method: 'HEAD' })).status).toBe(404);
+		for (const key of ['logs/not-yet.log', 'logs/tiny.log', 'data/old.bin']) {
+			expect((await s3(key, { method: 'HEAD' })).status).toBe(200);
+		}
+	});
+
+	it('keeps objects in report mode', async () => {
+		const report = await new LifecycleManager({ ...env, LIFECYCLE_MODE: 'report' } as Env).run();
+
+		expect(report!.dryRun).toBe(true);
+		expect(report!.samples.expired.map(i => i.key)).toEqual(['logs/due.log']);
+		expect((await s3('logs/due.log', { method: 'HEAD' })).status).toBe(200);
+	});
+});
@@ -0,0 +1,60 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { IndexStore } from '../src/core/index-store';
+import { IndexReconciler } from '../src/core/reconcile';
+import { s3, s3With } from './helpers';
+
+const headers = {
+	'Content-Type': 'image/png',
+	'Cache-Control': 'max-age=60',
+	'Content-Disposition': 'attachment; filename="logo.png"',
+	'x-amz-meta-Owner': 'alice',
+};
+
+function expectMetadata(response: Response): void {
+	expect(response.headers.get('Content-Type')).toBe('image/png');
+	expect(response.headers.get('Cache-Control')).toBe('max-age=60');
+	expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="logo.png"');
+	expect(response.headers.get('x-amz-meta-owner')).toBe('alice');
+}
+
+describe('object metadata', () => {
+	it('is stored with the object and returned on HEAD and GET', async () => {
+		expect((await s3('meta/logo.png', { method: 'PUT', body: 'png', headers })).status).toBe(200);
+
+		const entry = await new IndexStore(env).get('meta/logo.png');
+		expect(entry).toMatchObject({
+			contentType: 'image/png',
+			httpHeaders: { 'cache-control': 'max-age=60', 'content-disposition': 'attachment; filename="logo.png"' },
+			userMetadata: { owner: 'alice' },
+		});
+		const backend = entry!.bucket === 'r2-a' ? env.R2_A : env.R2_B;
+		const stored = await backend.head('meta/logo.png');
+		expect(stored!.httpMetadata!.contentType).toBe('image/png');
+		expect(stored!.customMetadata).toEqual({ owner: 'alice' });
+
+		const head = await s3('meta/logo.png', { method: 'HEAD' });
+		expect(head.status).toBe(200);
+		expectMetadata(head);
+
+		const get = await s3('meta/logo.png');
+		expectMetadata(get);
+		expect(await get.text()).toBe('png');
+	});
+
+	it('is recovered from the backend for entries added by reconciliation', async () => {
+		await env.R2_B.put('meta/behind.png', 'png', {
+			httpMetadata: { contentType: 'image/png', cacheControl: 'max-age=60', contentDisposition: 'attachment; filename="logo.png"' },
+			customMetadata: { owner: 'alice' },
+		});
+		await new IndexReconciler(env).run();
+		const added = await new IndexStore(env).get('meta/behind.png');
+		expect(added).toMatchObject({ bucket: 'r2-b', size: 3 });
+		expect(added!.contentType).toBeUndefined();
+
+		const head = await s3With(env, 'meta/behind.png', { method: 'HEAD' });
+		expect(head.status).toBe(200);
+		expectMetadata(head);
+		expect(await new IndexStore(env).get('meta/behind.png')).toMatchObject({ contentType: 'image/png', userMetadata: { owner: 'alice' } });
+	});
+});
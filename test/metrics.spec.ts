@@ -0,0 +1,95 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { Env } from '../src/core/config';
+import { LATENCY_BOUNDS_MS, MetricsData, MetricsRecorder, MetricsReport, buildMetricsReport, metricsToPrometheus } from '../src/core/metrics';
+import { xmlValue } from './helpers';
+
+function day(date: string, uploaded: number, latency: number[]): MetricsData {
+	return {
+		day: date,
+		requests: { GetObject: { '200': 3 } },
+		cache: { hits: 1, misses: 3, hitBytes: 10 },
+		buckets: {
+			'r2-a': {
+				bytesUploaded: uploaded,
+				bytesDownloaded: 5,
+				cache: { hits: 1, misses: 3, hitBytes: 10 },
+				requests: { GetObject: { '200': 3, error: 1 } },
+				latency: [...latency, ...new Array(LATENCY_BOUNDS_MS.length + 1 - latency.length).fill(0)],
+				latencySum: 100,
+			},
+		},
+	};
+}
+
+describe('buildMetricsReport', () => {
+	it('sums the days and adds usage, hit ratios and latency percentiles', () => {
+		const report = buildMetricsReport(
+			[day('2025-01-01', 100, [2]), day('2025-01-02', 50, [0, 2])],
+			{ 'r2-a': { bytes: 1000, objects: 4 }, 'r2-b': { bytes: 0, objects: 0 } },
+		);
+		expect(report).toMatchObject({ from: '2025-01-01', to: '2025-01-02', requests: { GetObject: { '200': 6 } } });
+		expect(report.cache).toEqual({ hits: 2, misses: 6, hitBytes: 20, hitRatio: 0.25 });
+		expect(report.buckets['r2-a']).toMatchObject({
+			objects: 4,
+			bytesStored: 1000,
+			bytesUploaded: 150,
+			bytesDownloaded: 10,
+			requests: { GetObject: { '200': 6, error: 2 } },
+			latencyMs: { count: 4, avg: 50, p50: 10, p90: 22, p99: 25 },
+		});
+		expect(report.buckets['r2-b']).toMatchObject({ objects: 0, cache: { hitRatio: null }, latencyMs: { count: 0 } });
+	});
+});
+
+describe('metricsToPrometheus', () => {
+	it('writes gauges, counters and a cumulative latency histogram', () => {
+		const text = metricsToPrometheus(day('2025-01-01', 100, [2, 1]), { 'r2-a': { bytes: 1000, objects: 4 } });
+		const lines = text.split('\n');
+		expect(lines).toContain('# TYPE b2tocf_bucket_objects gauge');
+		expect(lines).toContain('b2tocf_bucket_objects{bucket="r2-a"} 4');
+		expect(lines).toContain('b2tocf_bucket_uploaded_bytes_total{bucket="r2-a"} 100');
+		expect(lines).toContain('b2tocf_backend_requests_total{bucket="r2-a",operation="GetObject",status="error"} 1');
+		expect(lines).toContain('b2tocf_backend_latency_ms_bucket{bucket="r2-a",le="10"} 2');
+		expect(lines).toContain('b2tocf_backend_latency_ms_bucket{bucket="r2-a",le="25"} 3');
+		expect(lines).toContain('b2tocf_backend_latency_ms_bucket{bucket="r2-a",le="+Inf"} 3');
+		expect(lines).toContain('b2tocf_backend_latency_ms_count{bucket="r2-a"} 3');
+		expect(lines).toContain('b2tocf_requests_total{operation="GetObject",status="200"} 3');
+		expect(text.endsWith('\n')).toBe(true);
+	});
+});
+
+describe('/metrics', () => {
+	const testEnv = { ...env, METRICS_TOKEN: 'scrape-token' } as Env;
+
+	async function scrape(query: string, token: string): Promise<Response> {
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(new Request(`https://gateway.test/metrics${query}`, { headers: { Authorization: `Bearer ${token}` } }), testEnv, ctx);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	it('serves the recorded statistics as JSON and Prometheus text to the metrics token', async () => {
+		const recorder = new MetricsRecorder(testEnv);
+		recorder.recordUpload('metrics-bucket', 42);
+		recorder.recordBackendRequest('metrics-bucket', 'PutObject', 200, 30);
+		await recorder.flush(true);
+
+		const json = await scrape('', 'scrape-token');
+		expect(json.status).toBe(200);
+		expect(json.headers.get('Content-Type')).toBe('application/json');
+		const report = await json.json<MetricsReport>();
+		expect(report.buckets['metrics-bucket']).toMatchObject({ bytesUploaded: 42, requests: { PutObject: { '200': 1 } } });
+
+		const prometheus = await scrape('?format=prometheus', 'scrape-token');
+		expect(prometheus.headers.get('Content-Type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+		expect(await prometheus.text()).toContain('b2tocf_bucket_uploaded_bytes_total{bucket="metrics-bucket"} 42');
+	});
+
+	it('rejects a wrong token', async () => {
+		const response = await scrape('', 'wrong');
+		expect(response.status).toBe(403);
+		expect(xmlValue(await response.text(), 'Code')).toBe('AccessDenied');
+	});
+});
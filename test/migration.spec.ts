@@ -0,0 +1,41 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { IndexStore } from '../src/core/index-store';
+import { MigrationJob } from '../src/core/migration';
+import { rootClient, s3 } from './helpers';
+
+// 管理接口，等待 waitUntil 中的迁移批次完成
+async function admin(path: string, init: RequestInit = {}): Promise<Response> {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(await rootClient.sign(`https://gateway.test${path}`, init), env, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+async function seed(key: string, body: string): Promise<void> {
+	const obj = await env.R2_A.put(key, body);
+	await new IndexStore(env).put(key, { bucket: 'r2-a', size: body.length, lastModified: Date.UTC(2025, 0, 1), etag: obj!.etag, versionId: obj!.version });
+}
+
+describe('draining a bucket', () => {
+	it('moves every object out and stops new uploads to it', async () => {
+		await seed('drain/1.txt', 'one');
+		await seed('drain/2.txt', 'two');
+
+		const response = await admin('/bucket_mode?bucket=r2-a&mode=draining', { method: 'PUT' });
+		expect(response.status).toBe(200);
+		const { migration } = await response.json<{ migration: MigrationJob }>();
+
+		const status = await admin(`/migration?id=${migration.id}`);
+		expect(await status.json<MigrationJob>()).toMatchObject({ status: 'completed', moved: 2, failed: 0 });
+		for (const [key, body] of [['drain/1.txt', 'one'], ['drain/2.txt', 'two']]) {
+			expect(await new IndexStore(env).get(key)).toMatchObject({ bucket: 'r2-b' });
+			expect(await env.R2_A.head(key)).toBeNull();
+			expect(await (await s3(key)).text()).toBe(body);
+		}
+
+		expect((await s3('drain/new.txt', { method: 'PUT', body: 'new' })).status).toBe(200);
+		expect(await new IndexStore(env).get('drain/new.txt')).toMatchObject({ bucket: 'r2-b' });
+	});
+});
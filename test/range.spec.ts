@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { readRange } from '../src/core/range';
+import { s3, xmlValue } from './helpers';
+
+const meta = { etag: 'abc123', lastModified: Date.UTC(2025, 0, 1, 12, 0, 0, 500), size: 100 };
+
+function parse(range: string, extra: Record<string, string> = {}) {
+	return readRange(new Headers({ Range: range, ...extra }), meta);
+}
+
+describe('readRange', () => {
+	it('returns null without a Range header', () => {
+		expect(readRange(new Headers(), meta)).toBeNull();
+	});
+
+	it('parses closed, open-ended and suffix ranges', () => {
+		expect(parse('bytes=0-9')).toEqual([{ start: 0, end: 9 }]);
+		expect(parse('bytes=90-')).toEqual([{ start: 90, end: 99 }]);
+		expect(parse('bytes=-10')).toEqual([{ start: 90, end: 99 }]);
+		expect(parse('bytes=-500')).toEqual([{ start: 0, end: 99 }]);
+		expect(parse('bytes=50-1000')).toEqual([{ start: 50, end: 99 }]);
+	});
+
+	it('parses multiple ranges and drops unsatisfiable ones', () => {
+		expect(parse('bytes=0-1, 10-19,-5')).toEqual([
+			{ start: 0, end: 1 },
+			{ start: 10, end: 19 },
+			{ start: 95, end: 99 },
+		]);
+		expect(parse('bytes=0-1,200-300')).toEqual([{ start: 0, end: 1 }]);
+	});
+
+	it('returns an empty list when no range is satisfiable', () => {
+		expect(parse('bytes=100-')).toEqual([]);
+		expect(parse('bytes=-0')).toEqual([]);
+	});
+
+	it('ignores invalid syntax', () => {
+		expect(parse('items=0-1')).toBeNull();
+		expect(parse('bytes=-')).toBeNull();
+		expect(parse('bytes=5-1')).toBeNull();
+		expect(parse('bytes=a-b')).toBeNull();
+		expect(parse(`bytes=${Array.from({ length: 17 }, (_, i) => `${i}-${i}`).join(',')}`)).toBeNull();
+	});
+
+	it('honours If-Range by ETag and by date', () => {
+		expect(parse('bytes=0-0', { 'If-Range': '"abc123"' })).toEqual([{ start: 0, end: 0 }]);
+		expect(parse('bytes=0-0', { 'If-Range': '"other"' })).toBeNull();
+		expect(parse('bytes=0-0', { 'If-Range': 'W/"abc123"' })).toBeNull();
+		expect(parse('bytes=0-0', { 'If-Range': new Date(meta.lastModified).toUTCString() })).toEqual([{ start: 0, end: 0 }]);
+		expect(parse('bytes=0-0', { 'If-Range': new Date(meta.lastModified - 60_000).toUTCString() })).toBeNull();
+	});
+});
+
+describe('ranged GET', () => {
+	const body = 'abcdefghijklmnopqrstuvwxyz';
+
+	async function put(key: string): Promise<void> {
+		const response = await s3(key, { method: 'PUT', body, headers: { 'Content-Type': 'text/plain' } });
+		expect(response.status).toBe(200);
+	}
+
+	it('returns a single range with Content-Range', async () => {
+		await put('range/single.txt');
+		const response = await s3('range/single.txt', { headers: { Range: 'bytes=2-5' } });
+		expect(response.status).toBe(206);
+		expect(response.headers.get('Content-Range')).toBe(`bytes 2-5/${body.length}`);
+		expect(response.headers.get('Content-Length')).toBe('4');
+		expect(await response.text()).toBe('cdef');
+	});
+
+	it('returns multipart/byteranges for several ranges', async () => {
+		await put('range/multi.txt');
+		const response = await s3('range/multi.txt', { headers: { Range: 'bytes=0-2,-3' } });
+		expect(response.status).toBe(206);
+		const boundary = response.headers.get('Content-Type')?.match(/^multipart\/byteranges; boundary=(\w+)$/)?.[1];
+		expect(boundary).toBeTruthy();
+
+		const text = await response.text();
+		expect(response.headers.get('Content-Length')).toBe(new TextEncoder().encode(text).byteLength.toString());
+		expect(text).toBe(
+			`--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 0-2/${body.length}\r\n\r\nabc` +
+			`\r\n--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 23-25/${body.length}\r\n\r\nxyz` +
+			`\r\n--${boundary}--\r\n`,
+		);
+	});
+
+	it('answers 416 when no range is satisfiable', async () => {
+		await put('range/unsatisfiable.txt');
+		const response = await s3('range/unsatisfiable.txt', { headers: { Range: 'bytes=100-200' } });
+		expect(response.status).toBe(416);
+		expect(response.headers.get('Content-Range')).toBe(`bytes */${body.length}`);
+		expect(xmlValue(await response.text(), 'Code')).toBe('InvalidRange');
+	});
+
+	it('returns the full object when If-Range does not match', async () => {
+		await put('range/if-range.txt');
+		const response = await s3('range/if-range.txt', { headers: { Range: 'bytes=0-0', 'If-Range': '"stale"' } });
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe(body);
+	});
+});
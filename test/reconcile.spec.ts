@@ -0,0 +1,90 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IndexReconciler } from '../src/core/reconcile';
+import { FileMetadata, IndexStore } from '../src/core/index-store';
+import { Env } from '../src/core/config';
+
+// 对账只比较桶 / 大小 / ETag / 版本，索引中的时间取一个足够早的值
+const LONG_AGO = Date.UTC(2024, 0, 1);
+const ADDED = 'written behind the gateway';
+
+function entryOf(bucket: string, obj: R2Object, overrides: Partial<FileMetadata> = {}): FileMetadata {
+	return { bucket, size: obj.size, lastModified: LONG_AGO, etag: obj.etag, versionId: obj.version, ...overrides };
+}
+
+describe('IndexReconciler', () => {
+	let index: IndexStore;
+
+	// 绕过网关直接写入后端与索引，构造各类漂移
+	beforeEach(async () => {
+		index = new IndexStore(env);
+
+		const inSync = await env.R2_A.put('in-sync.txt', 'same');
+		await index.put('in-sync.txt', entryOf('r2-a', inSync!));
+
+		await env.R2_A.put('added.txt', ADDED);
+
+		await index.put('removed.txt', { bucket: 'r2-a', size: 4, lastModified: LONG_AGO, etag: 'gone' });
+
+		const stale = await env.R2_A.put('moved.txt', 'old');
+		await env.R2_A.delete('moved.txt');
+		await env.R2_B.put('moved.txt', 'new content');
+		await index.put('moved.txt', entryOf('r2-a', stale!));
+
+		const primary = await env.R2_A.put('dup.txt', 'primary');
+		await env.R2_B.put('dup.txt', 'stray copy');
+		await index.put('dup.txt', entryOf('r2-a', primary!));
+
+		await index.put('recent.txt', { bucket: 'r2-b', size: 1, lastModified: Date.now() + 60_000, etag: 'in-flight' });
+	});
+
+	it('classifies drift and repairs the index', async () => {
+		const report = await new IndexReconciler(env).run();
+
+		expect(report).not.toBeNull();
+		expect(report!.repair).toBe(true);
+		expect(report!.scanned).toBe(6);
+		expect(report!.counts).toEqual({ added: 1, removed: 1, mismatched: 1, duplicated: 1 });
+		expect(report!.samples.added.map(s => s.key)).toEqual(['added.txt']);
+		expect(report!.samples.removed.map(s => s.key)).toEqual(['removed.txt']);
+		expect(report!.samples.mismatched).toEqual([{
+			key: 'moved.txt',
+			indexed: { bucket: 'r2-a', size: 3, etag: expect.any(String) },
+			actual: [{ bucket: 'r2-b', size: 11, etag: expect.any(String) }],
+		}]);
+		expect(report!.samples.duplicated.map(s => s.key)).toEqual(['dup.txt']);
+
+		expect(await index.get('added.txt')).toMatchObject({ bucket: 'r2-a', size: ADDED.length });
+		expect(await index.get('removed.txt')).toBeNull();
+		expect(await index.get('moved.txt')).toMatchObject({ bucket: 'r2-b', size: 11 });
+		expect(await index.get('dup.txt')).toMatchObject({ bucket: 'r2-a', size: 7 });
+		// 列表开始后写入的记录不比对，也不会被当作已删除
+		expect(await index.get('recent.txt')).toMatchObject({ etag: 'in-flight' });
+
+		// 用量按实际对象重置 (recent.txt 按索引计入)
+		expect(report!.usage).toEqual({
+			'r2-a': { bytes: 4 + ADDED.length + 7, objects: 3 },
+			'r2-b': { bytes: 11 + 1, objects: 2 },
+		});
+	});
+
+	it('only reports drift in report mode', async () => {
+		const report = await new IndexReconciler({ ...env, RECONCILE_MODE: 'report' } as Env).run();
+
+		expect(report!.repair).toBe(false);
+		expect(report!.counts).toEqual({ added: 1, removed: 1, mismatched: 1, duplicated: 1 });
+		expect(await index.get('added.txt')).toBeNull();
+		expect(await index.get('removed.txt')).toMatchObject({ etag: 'gone' });
+		expect(await index.get('moved.txt')).toMatchObject({ bucket: 'r2-a' });
+	});
+
+	it('keeps entries rewritten after they were read', async () => {
+		const read = await index.get('removed.txt');
+		// 对账读到记录之后网关重新写入了 removed.txt，修正以读到的版本为前置条件
+		await index.put('removed.txt', { bucket: 'r2-b', size: 9, lastModified: LONG_AGO + 1, etag: 'rewritten' });
+		const conflicts = await index.apply([{ key: 'removed.txt', meta: null, expected: { etag: read!.etag, lastModified: read!.lastModified } }]);
+
+		expect(conflicts.map(c => c.key)).toEqual(['removed.txt']);
+		expect(await index.get('removed.txt')).toMatchObject({ etag: 'rewritten' });
+	});
+});
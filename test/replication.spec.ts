@@ -0,0 +1,39 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { IndexStore } from '../src/core/index-store';
+import { s3With } from './helpers';
+
+const testEnv = { ...env, REPLICATION_FACTOR: '2' };
+
+describe('replicated writes', () => {
+	it('stores every replica and records them in the index', async () => {
+		expect((await s3With(testEnv, 'twice.txt', { method: 'PUT', body: 'copy' })).status).toBe(200);
+
+		const stored = await new IndexStore(env).get('twice.txt');
+		expect(stored!.replicas!.map(r => r.bucket).sort()).toEqual(['r2-a', 'r2-b']);
+		expect(await (await env.R2_A.get('twice.txt'))!.text()).toBe('copy');
+		expect(await (await env.R2_B.get('twice.txt'))!.text()).toBe('copy');
+	});
+
+	it('fails over to another replica when one is missing', async () => {
+		expect((await s3With(testEnv, 'failover.txt', { method: 'PUT', body: 'survivor' })).status).toBe(200);
+		const { bucket } = (await new IndexStore(env).get('failover.txt'))!;
+		const [lost, intact] = bucket === 'r2-a' ? [env.R2_A, 'r2-b'] : [env.R2_B, 'r2-a'];
+		await lost.delete('failover.txt');
+
+		const response = await s3With(testEnv, 'failover.txt');
+		expect(response.status).toBe(200);
+		expect(response.headers.get('X-Served-By')).toBe(intact);
+		expect(await response.text()).toBe('survivor');
+	});
+
+	it('removes replicas the new version no longer uses after an overwrite', async () => {
+		expect((await s3With(testEnv, 'shrink.txt', { method: 'PUT', body: 'two copies' })).status).toBe(200);
+		expect((await s3With(env, 'shrink.txt', { method: 'PUT', body: 'one copy' })).status).toBe(200);
+
+		const { bucket, replicas } = (await new IndexStore(env).get('shrink.txt'))!;
+		expect(replicas).toBeUndefined();
+		const other = bucket === 'r2-a' ? env.R2_B : env.R2_A;
+		expect(await other.head('shrink.txt')).toBeNull();
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { ResumeOptions, resumableStream } from '../src/core/resume';
+import { S3Error } from '../src/core/errors';
+
+const content = 'abcdefghijklmnopqrstuvwxyz';
+const encoder = new TextEncoder();
+
+// 依次输出 chunks，之后按 end 出错、提前结束或停滞
+function upstream(chunks: string[], end: 'error' | 'close' | 'stall' = 'close'): ReadableStream<Uint8Array> {
+	const queue = [...chunks];
+	return new ReadableStream<Uint8Array>({
+		pull(controller) {
+			const next = queue.shift();
+			if (next !== undefined) return controller.enqueue(encoder.encode(next));
+			if (end === 'error') return controller.error(new Error('connection reset'));
+			if (end === 'close') return controller.close();
+			return new Promise<void>(() => {});
+		},
+	});
+}
+
+function options(resume: ResumeOptions['resume'], extra: Partial<ResumeOptions> = {}): ResumeOptions {
+	return { start: 0, length: content.length, retries: 3, timeoutMs: 1000, resume, ...extra };
+}
+
+async function read(stream: ReadableStream<Uint8Array>): Promise<string> {
+	return await new Response(stream).text();
+}
+
+describe('resumableStream', () => {
+	// 每次续传都会打印警告
+	beforeAll(() => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+	});
+	afterAll(() => vi.restoreAllMocks());
+
+	it('resumes from the delivered offset when the upstream fails', async () => {
+		const offsets: number[] = [];
+		const stream = resumableStream(upstream(['abcde', 'fgh'], 'error'), options(async offset => {
+			offsets.push(offset);
+			return upstream([content.substring(offset)]);
+		}));
+		expect(await read(stream)).toBe(content);
+		expect(offsets).toEqual([8]);
+	});
+
+	it('resumes when the upstream ends before Content-Length or stalls', async () => {
+		const early = resumableStream(upstream(['abc']), options(async offset => upstream([content.substring(offset)])));
+		expect(await read(early)).toBe(content);
+
+		const stalled = resumableStream(upstream(['abcdef'], 'stall'), options(async offset => upstream([content.substring(offset)]), { timeoutMs: 50 }));
+		expect(await read(stalled)).toBe(content);
+	});
+
+	it('keeps absolute offsets for ranged responses', async () => {
+		const offsets: number[] = [];
+		const stream = resumableStream(upstream(['klm'], 'error'), options(async offset => {
+			offsets.push(offset);
+			return upstream([content.substring(offset, 20)]);
+		}, { start: 10, length: 10 }));
+		expect(await read(stream)).toBe('klmnopqrst');
+		expect(offsets).toEqual([13]);
+	});
+
+	it('gives up after the configured number of retries', async () => {
+		let attempts = 0;
+		const stream = resumableStream(upstream(['ab'], 'error'), options(async () => {
+			attempts++;
+			return upstream([], 'error');
+		}, { retries: 2 }));
+		await expect(read(stream)).rejects.toThrow('connection reset');
+		expect(attempts).toBe(2);
+	});
+
+	it('does not retry when the object changed in the meantime', async () => {
+		let attempts = 0;
+		const stream = resumableStream(upstream(['ab'], 'error'), options(async () => {
+			attempts++;
+			throw new S3Error('PreconditionFailed', 'At least one of the pre-conditions you specified did not hold');
+		}));
+		await expect(read(stream)).rejects.toThrow('pre-conditions');
+		expect(attempts).toBe(1);
+	});
+});
@@ -0,0 +1,100 @@
+import { SELF, env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AuthMiddleware } from '../src/core/auth';
+import { BUCKET_URL, rootClient, s3, xmlValue } from './helpers';
+
+const ORIGIN = new URL(BUCKET_URL).origin;
+
+interface ShareToken {
+	token: string;
+	id: string;
+	expiresAt: string;
+	url?: string;
+}
+
+async function admin(path: string, init: RequestInit = {}): Promise<Response> {
+	return await SELF.fetch(await rootClient.sign(`${ORIGIN}${path}`, init));
+}
+
+async function share(query: string): Promise<ShareToken> {
+	const response = await admin(`/share_token?${query}`);
+	expect(response.status).toBe(200);
+	return await response.json<ShareToken>();
+}
+
+// 以分享 Token 访问虚拟桶中的 path (不签名)
+async function withToken(path: string, token: string, init: RequestInit = {}): Promise<Response> {
+	const separator = path.includes('?') ? '&' : '?';
+	return await SELF.fetch(`${BUCKET_URL}/${path}${separator}token=${encodeURIComponent(token)}`, init);
+}
+
+async function expectDenied(response: Promise<Response>): Promise<void> {
+	const res = await response;
+	expect(res.status).toBe(403);
+	expect(xmlValue(await res.text(), 'Code')).toBe('AccessDenied');
+}
+
+describe('share tokens', () => {
+	beforeEach(async () => {
+		for (const key of ['a/b', 'a/b/c.txt', 'a/bc', 'single.txt']) {
+			expect((await s3(key, { method: 'PUT', body: key })).status).toBe(200);
+		}
+	});
+
+	it('returns a ready-to-use URL for single-key tokens', async () => {
+		const { url, expiresAt } = await share('key=single.txt&expires=600');
+		expect(Date.parse(expiresAt)).toBeGreaterThan(Date.now());
+		const response = await SELF.fetch(url!);
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe('single.txt');
+	});
+
+	it('matches prefix tokens by path segment', async () => {
+		const { token, url } = await share('key=a/b&prefix=1');
+		expect(url).toBeUndefined();
+		expect(await (await withToken('a/b', token)).text()).toBe('a/b');
+		expect(await (await withToken('a/b/c.txt', token)).text()).toBe('a/b/c.txt');
+		await expectDenied(withToken('a/bc', token));
+	});
+
+	it('limits single-key tokens to GET and HEAD without sub-resources', async () => {
+		const rejected = await admin('/share_token?key=single.txt&methods=GET,PUT');
+		expect(rejected.status).toBe(400);
+		expect(xmlValue(await rejected.text(), 'Code')).toBe('InvalidArgument');
+
+		const { token } = await share('key=single.txt');
+		expect((await withToken('single.txt', token, { method: 'HEAD' })).status).toBe(200);
+		await expectDenied(withToken('single.txt', token, { method: 'DELETE' }));
+		await expectDenied(withToken('single.txt?versions', token));
+		await expectDenied(withToken('single.txt?uploads', token));
+
+		const overridden = await withToken('single.txt?response-content-type=text/csv', token);
+		expect(overridden.status).toBe(200);
+		expect(overridden.headers.get('Content-Type')).toBe('text/csv');
+		expect(await overridden.text()).toBe('single.txt');
+	});
+
+	it('enforces max_size against Content-Length', async () => {
+		const { token } = await share('key=uploads/&prefix=1&methods=PUT&max_size=5');
+		expect((await withToken('uploads/small.txt', token, { method: 'PUT', body: '12345' })).status).toBe(200);
+		await expectDenied(withToken('uploads/large.txt', token, { method: 'PUT', body: '123456' }));
+	});
+
+	it('rejects expired and revoked tokens', async () => {
+		const { token: expired } = await new AuthMiddleware(env).mintShareToken({ path: 'single.txt', exp: Math.floor(Date.now() / 1000) - 1 });
+		await expectDenied(withToken('single.txt', expired));
+
+		const { token, id } = await share('key=single.txt');
+		expect(await (await withToken('single.txt', token)).text()).toBe('single.txt');
+		expect((await admin(`/share_token?id=${id}`, { method: 'DELETE' })).status).toBe(204);
+		await expectDenied(withToken('single.txt', token));
+	});
+
+	it('cannot call admin APIs, copy objects or delete in batches', async () => {
+		const { token } = await share('key=a/&prefix=1&methods=GET,PUT,POST');
+		await expectDenied(SELF.fetch(`${ORIGIN}/metrics?token=${encodeURIComponent(token)}`));
+		await expectDenied(SELF.fetch(`${ORIGIN}/share_token?key=a/b&token=${encodeURIComponent(token)}`));
+		await expectDenied(withToken('a/copy.txt', token, { method: 'PUT', headers: { 'x-amz-copy-source': '/virtualbucket/single.txt' } }));
+		await expectDenied(withToken('?delete', token, { method: 'POST', body: '<Delete><Object><Key>a/b</Key></Object></Delete>' }));
+	});
+});
@@ -0,0 +1,219 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { AwsClient } from 'aws4fetch';
+import { RequestPayload, ChunkSigningContext } from '../src/core/payload';
+import { S3Error } from '../src/core/errors';
+import { BUCKET_URL, rootClient, s3, xmlValue } from './helpers';
+
+const encoder = new TextEncoder();
+const EMPTY_SHA256 = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+function toHex(buffer: ArrayBuffer): string {
+	return [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function hmacHex(key: ArrayBuffer, data: string): Promise<string> {
+	const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	return toHex(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(data)));
+}
+
+async function sha256Hex(data: string): Promise<string> {
+	return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(data)));
+}
+
+const signing: ChunkSigningContext = {
+	signingKey: encoder.encode('test-signing-key').buffer as ArrayBuffer,
+	datetime: '20250101T000000Z',
+	scope: '20250101/us-east-1/s3/aws4_request',
+	seedSignature: 'a'.repeat(64),
+};
+
+// 按 STREAMING-AWS4-HMAC-SHA256-PAYLOAD 格式编码，每块签名串联上一块的签名
+async function signedChunks(parts: string[], tamper?: number): Promise<string> {
+	let previous = signing.seedSignature;
+	let body = '';
+	for (const [i, data] of [...parts, ''].entries()) {
+		const stringToSign = ['AWS4-HMAC-SHA256-PAYLOAD', signing.datetime, signing.scope, previous, EMPTY_SHA256, await sha256Hex(data)].join('\n');
+		let signature = await hmacHex(signing.signingKey, stringToSign);
+		if (i === tamper) signature = signature.replace(/^./, c => (c === '0' ? '1' : '0'));
+		body += `${data.length.toString(16)};chunk-signature=${signature}\r\n${data}${data ? '\r\n' : ''}`;
+		previous = signature;
+	}
+	return body + '\r\n';
+}
+
+function chunkedRequest(body: BodyInit, decodedLength: number, headers: Record<string, string> = {}): Request {
+	return new Request('https://gateway.test/virtualbucket/a.txt', {
+		method: 'PUT',
+		body,
+		headers: { 'x-amz-decoded-content-length': String(decodedLength), 'Content-Encoding': 'aws-chunked', ...headers },
+	});
+}
+
+async function errorCode(promise: Promise<unknown>): Promise<string> {
+	const error = await promise.then(() => null, (e: unknown) => e);
+	expect(error).toBeInstanceOf(S3Error);
+	return (error as S3Error).code;
+}
+
+describe('aws-chunked payload', () => {
+	it('decodes signed chunks and strips the chunked encoding headers', async () => {
+		const request = chunkedRequest(await signedChunks(['hello ', 'world']), 11);
+		const payload = new RequestPayload(request, 'STREAMING-AWS4-HMAC-SHA256-PAYLOAD', signing);
+
+		expect(payload.headers.get('Content-Length')).toBe('11');
+		expect(payload.headers.has('Content-Encoding')).toBe(false);
+		expect(await payload.text()).toBe('hello world');
+	});
+
+	it('rejects a chunk whose signature does not chain from the previous one', async () => {
+		const request = chunkedRequest(await signedChunks(['hello ', 'world'], 1), 11);
+		const payload = new RequestPayload(request, 'STREAMING-AWS4-HMAC-SHA256-PAYLOAD', signing);
+		expect(await errorCode(payload.text())).toBe('SignatureDoesNotMatch');
+	});
+
+	it('rejects a body shorter than x-amz-decoded-content-length', async () => {
+		const request = chunkedRequest(await signedChunks(['hello']), 11);
+		const payload = new RequestPayload(request, 'STREAMING-AWS4-HMAC-SHA256-PAYLOAD', signing);
+		expect(await errorCode(payload.text())).toBe('IncompleteBody');
+	});
+
+	it('rejects an oversized chunk header before its data arrives', async () => {
+		// 只发送块头且不结束请求体：必须在解析块头时就失败，而不是等待缓存块数据
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(encoder.encode(`100000;chunk-signature=${'0'.repeat(64)}\r\n`));
+			},
+		});
+		const payload = new RequestPayload(chunkedRequest(body, 4), 'STREAMING-AWS4-HMAC-SHA256-PAYLOAD', signing);
+		expect(await errorCode(payload.text())).toBe('IncompleteBody');
+	});
+
+	it('verifies trailing checksums of unsigned chunked bodies', async () => {
+		const checksum = btoa(String.fromCharCode(...new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode('hello')))));
+		const encode = (value: string) => `5\r\nhello\r\n0\r\nx-amz-checksum-sha256:${value}\r\n\r\n`;
+		const headers = { 'x-amz-trailer': 'x-amz-checksum-sha256' };
+
+		const valid = new RequestPayload(chunkedRequest(encode(checksum), 5, headers), 'STREAMING-UNSIGNED-PAYLOAD-TRAILER', null);
+		expect(await valid.text()).toBe('hello');
+
+		const invalid = new RequestPayload(chunkedRequest(encode(btoa('x'.repeat(32))), 5, headers), 'STREAMING-UNSIGNED-PAYLOAD-TRAILER', null);
+		expect(await errorCode(invalid.text())).toBe('BadDigest');
+	});
+
+	it('rejects a body that does not match the declared SHA256', async () => {
+		const request = new Request('https://gateway.test/virtualbucket/a.txt', { method: 'PUT', body: 'hello' });
+		const payload = new RequestPayload(request, await sha256Hex('other'), null);
+		expect(await errorCode(payload.text())).toBe('XAmzContentSHA256Mismatch');
+	});
+});
+
+describe('signature checks', () => {
+	it('rejects a request signed with the wrong secret', async () => {
+		const wrong = new AwsClient({ accessKeyId: 'test-root', secretAccessKey: 'not-the-secret', service: 's3', region: 'us-east-1' });
+		const response = await s3('a.txt', {}, wrong);
+		expect(response.status).toBe(403);
+		expect(xmlValue(await response.text(), 'Code')).toBe('SignatureDoesNotMatch');
+	});
+
+	it('rejects an unknown access key', async () => {
+		const unknown = new AwsClient({ accessKeyId: 'nobody', secretAccessKey: 'whatever-secret', service: 's3', region: 'us-east-1' });
+		const response = await s3('a.txt', {}, unknown);
+		expect(response.status).toBe(403);
+		expect(xmlValue(await response.text(), 'Code')).toBe('InvalidAccessKeyId');
+	});
+
+	it('rejects requests signed too far from the current time', async () => {
+		const signed = await new AwsClient({
+			accessKeyId: 'test-root',
+			secretAccessKey: 'test-root-secret',
+			service: 's3',
+			region: 'us-east-1',
+		}).sign(`${BUCKET_URL}/a.txt`, { aws: { datetime: '20200101T000000Z' } });
+		const response = await SELF.fetch(signed);
+		expect(response.status).toBe(403);
+		expect(xmlValue(await response.text(), 'Code')).toBe('RequestTimeTooSkewed');
+	});
+
+	it('rejects a signed body that was altered in transit', async () => {
+		// aws4fetch 默认 UNSIGNED-PAYLOAD，这里显式声明请求体的 SHA256
+		const signed = await rootClient.sign(`${BUCKET_URL}/tampered.txt`, {
+			method: 'PUT',
+			body: 'original',
+			headers: { 'X-Amz-Content-Sha256': await sha256Hex('original') },
+		});
+		const response = await SELF.fetch(new Request(signed, { body: 'modified' }));
+		expect(response.status).toBe(400);
+		expect(xmlValue(await response.text(), 'Code')).toBe('XAmzContentSHA256Mismatch');
+		expect((await s3('tampered.txt', { method: 'HEAD' })).status).toBe(404);
+	});
+
+	it('keeps the existing object when the new body fails verification', async () => {
+		expect((await s3('kept.txt', { method: 'PUT', body: 'previous' })).status).toBe(200);
+
+		const signed = await rootClient.sign(`${BUCKET_URL}/kept.txt`, {
+			method: 'PUT',
+			body: 'replacement',
+			headers: { 'X-Amz-Content-Sha256': await sha256Hex('something else') },
+		});
+		const response = await SELF.fetch(signed);
+		expect(xmlValue(await response.text(), 'Code')).toBe('XAmzContentSHA256Mismatch');
+
+		const current = await s3('kept.txt');
+		expect(current.status).toBe(200);
+		expect(await current.text()).toBe('previous');
+	});
+});
+
+describe('presigned URLs', () => {
+	// X-Amz-Date 格式 (YYYYMMDDTHHMMSSZ)
+	function amzDate(offsetMs: number): string {
+		return new Date(Date.now() + offsetMs).toISOString().replace(/[-:]|\.\d{3}/g, '');
+	}
+
+	async function presign(path: string, expires: number, offsetMs = 0): Promise<string> {
+		const signed = await rootClient.sign(`${BUCKET_URL}/${path}?X-Amz-Expires=${expires}`, {
+			aws: { signQuery: true, datetime: amzDate(offsetMs) },
+		});
+		return signed.url;
+	}
+
+	async function expectError(url: string, status: number, code: string): Promise<void> {
+		const response = await SELF.fetch(url);
+		expect(response.status).toBe(status);
+		expect(xmlValue(await response.text(), 'Code')).toBe(code);
+	}
+
+	it('serves objects through URLs from /presign', async () => {
+		expect((await s3('presigned.txt', { method: 'PUT', body: 'shared' })).status).toBe(200);
+		const issued = await SELF.fetch(await rootClient.sign('https://gateway.test/presign?key=presigned.txt&method=GET&expires=60'));
+		const { urls } = await issued.json<{ urls: Record<string, string> }>();
+
+		const response = await SELF.fetch(urls.GET);
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe('shared');
+	});
+
+	it('rejects expired URLs', async () => {
+		await expectError(await presign('a.txt', 60, -3600_000), 403, 'AccessDenied');
+	});
+
+	it('rejects expiry beyond seven days', async () => {
+		await expectError(await presign('a.txt', 604801), 400, 'AuthorizationQueryParametersError');
+	});
+
+	it('rejects URLs signed in the future', async () => {
+		await expectError(await presign('a.txt', 60, 3600_000), 403, 'RequestTimeTooSkewed');
+	});
+
+	it('rejects a tampered signature or query', async () => {
+		const url = new URL(await presign('a.txt', 60));
+		const signature = url.searchParams.get('X-Amz-Signature')!;
+		url.searchParams.set('X-Amz-Signature', signature.replace(/^./, c => (c === '0' ? '1' : '0')));
+		await expectError(url.toString(), 403, 'SignatureDoesNotMatch');
+
+		const widened = new URL(await presign('a.txt', 60));
+		widened.searchParams.set('X-Amz-Expires', '120');
+		await expectError(widened.toString(), 403, 'SignatureDoesNotMatch');
+	});
+});
@@ -0,0 +1,105 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { IndexStore } from '../src/core/index-store';
+import { VersionStore, VersionRecord } from '../src/core/versions';
+import { S3_ORIGIN, envWith, s3Bucket, s3With, xmlValue, xmlValues } from './helpers';
+
+describe('unversioned S3 buckets', () => {
+	const testEnv = envWith([s3Bucket('s3-plain')]);
+
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+	it('deletes the "null" version by key', async () => {
+		await new IndexStore(env).put('plain.txt', { bucket: 's3-plain', size: 1, lastModified: Date.UTC(2025, 0, 1), etag: 'e' });
+		fetchMock.get(S3_ORIGIN).intercept({ method: 'DELETE', path: '/s3-plain/plain.txt' }).reply(204);
+
+		const response = await s3With(testEnv, 'plain.txt?versionId=null', { method: 'DELETE' });
+		expect(response.status).toBe(204);
+		expect(response.headers.get('x-amz-version-id')).toBe('null');
+		expect(await new IndexStore(env).get('plain.txt')).toBeNull();
+	});
+});
+
+describe('versioned S3 buckets', () => {
+	const testEnv = envWith([s3Bucket('s3-versioned')], { OBJECT_VERSIONING: 'enabled' });
+	const object = '/s3-versioned/doc.txt';
+
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+	async function put(body: string, versionId: string): Promise<void> {
+		fetchMock.get(S3_ORIGIN).intercept({ method: 'PUT', path: object })
+			.reply(200, '', { headers: { ETag: `"${body}-etag"`, 'x-amz-version-id': versionId } });
+		const response = await s3With(testEnv, 'doc.txt', { method: 'PUT', body });
+		expect(response.status).toBe(200);
+		expect(response.headers.get('x-amz-version-id')).toBe(versionId);
+	}
+
+	async function listVersions(): Promise<string> {
+		const response = await s3With(testEnv, '?versions&prefix=doc');
+		expect(response.status).toBe(200);
+		return await response.text();
+	}
+
+	it('keeps overwritten versions, hides the object behind a delete marker and restores it', async () => {
+		await put('one', 'v1');
+		await put('two', 'v2');
+
+		fetchMock.get(S3_ORIGIN).intercept({ method: 'DELETE', path: object })
+			.reply(204, '', { headers: { 'x-amz-version-id': 'backend-marker', 'x-amz-delete-marker': 'true' } });
+		const deleted = await s3With(testEnv, 'doc.txt', { method: 'DELETE' });
+		expect(deleted.status).toBe(204);
+		expect(deleted.headers.get('x-amz-delete-marker')).toBe('true');
+		const markerId = deleted.headers.get('x-amz-version-id')!;
+		expect(markerId).toBeTruthy();
+
+		const missing = await s3With(testEnv, 'doc.txt');
+		expect(missing.status).toBe(404);
+		expect(xmlValue(await missing.text(), 'Code')).toBe('NoSuchKey');
+
+		const marker = await s3With(testEnv, `doc.txt?versionId=${markerId}`);
+		expect(marker.status).toBe(405);
+		expect(marker.headers.get('x-amz-delete-marker')).toBe('true');
+
+		const listing = await listVersions();
+		expect(xmlValues(listing, 'VersionId')).toEqual([markerId, 'v2', 'v1']);
+		expect(xmlValues(listing, 'IsLatest')).toEqual(['true', 'false', 'false']);
+		expect(listing).toContain('<DeleteMarker>');
+
+		fetchMock.get(S3_ORIGIN).intercept({ method: 'GET', path: `${object}?versionId=v1` }).reply(200, 'one');
+		const old = await s3With(testEnv, 'doc.txt?versionId=v1');
+		expect(old.status).toBe(200);
+		expect(await old.text()).toBe('one');
+
+		// 永久删除删除标记 (及后端的删除标记) 后上一个版本恢复为当前版本
+		fetchMock.get(S3_ORIGIN).intercept({ method: 'DELETE', path: `${object}?versionId=backend-marker` }).reply(204);
+		const restored = await s3With(testEnv, `doc.txt?versionId=${markerId}`, { method: 'DELETE' });
+		expect(restored.status).toBe(204);
+		expect(restored.headers.get('x-amz-delete-marker')).toBe('true');
+		expect(await new IndexStore(env).get('doc.txt')).toMatchObject({ versionId: 'v2', etag: 'two-etag' });
+		expect(xmlValues(await listVersions(), 'VersionId')).toEqual(['v2', 'v1']);
+	});
+});
+
+describe('version history through the index coordinator', () => {
+	function record(versionId: string): VersionRecord {
+		return { bucket: 'r2-a', size: 1, lastModified: Date.UTC(2025, 0, 1), etag: versionId, versionId };
+	}
+
+	it('applies concurrent updates of the same key one after another', async () => {
+		const coordinator = env.TEST_INDEX_COORDINATOR.get(env.TEST_INDEX_COORDINATOR.idFromName('global'));
+		const ids = Array.from({ length: 8 }, (_, i) => `v${i}`);
+		await Promise.all(ids.map(id => coordinator.updateVersions('busy.txt', { prepend: [record(id)] })));
+		await coordinator.updateVersions('busy.txt', { remove: ['v3'] });
+
+		const history = await new VersionStore(env).get('busy.txt');
+		expect(history.map(v => v.versionId).sort()).toEqual(ids.filter(id => id !== 'v3'));
+	});
+});
@@ -1,10 +1,26 @@
 import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
 
+// 测试用的两个 R2 桶与根密钥 (wrangler.toml 中未配置桶)
+// 索引协调器以 TEST_INDEX_COORDINATOR 绑定，需要时由测试传入 INDEX_COORDINATOR
+const TEST_BUCKETS = [
+	{ name: 'r2-a', type: 'r2', binding: 'R2_A' },
+	{ name: 'r2-b', type: 'r2', binding: 'R2_B' },
+];
+
 export default defineWorkersConfig({
 	test: {
 		poolOptions: {
 			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+				wrangler: { configPath: './wrangler.toml' },
+				miniflare: {
+					r2Buckets: ['R2_A', 'R2_B'],
+					durableObjects: { TEST_INDEX_COORDINATOR: 'IndexCoordinator' },
+					bindings: {
+						BUCKETS_CONFIG: JSON.stringify(TEST_BUCKETS),
+						VIRTUAL_ACCESS_KEY_ID: 'test-root',
+						VIRTUAL_SECRET_ACCESS_KEY: 'test-root-secret',
+					},
+				},
 			},
 		},
 	},